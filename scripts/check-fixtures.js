@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+import assert from 'assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const root = path.resolve(__dirname, '..');
+
+const readFixture = (name) =>
+  JSON.parse(fs.readFileSync(path.join(root, 'src/services/fixtures', name), 'utf8'));
+
+// Settings such as the attribute mapping are read from localStorage; an empty one gives the defaults
+const storage = new Map();
+globalThis.localStorage = {
+  getItem: (key) => storage.get(key) ?? null,
+  setItem: (key, value) => storage.set(key, String(value)),
+  removeItem: (key) => storage.delete(key),
+};
+
+const checkIntercom = ({ intercomProvider }) => {
+  const conversation = intercomProvider.fromRecording(readFixture('intercom-conversation.json'));
+
+  assert.equal(conversation.id, '215468723');
+  assert.equal(conversation.title, 'Export to CSV fails');
+  assert.equal(conversation.customerName, 'Jane Customer');
+  assert.equal(conversation.customerEmail, 'jane@example.com');
+  assert.equal(conversation.status, 'open');
+  assert.equal(conversation.priority, 'high');
+  assert.deepEqual(conversation.tags, ['export']);
+  assert.deepEqual(conversation.customAttributes, { Plan: 'Enterprise' });
+  assert.deepEqual(
+    conversation.messages.map(message => [message.id, message.author.type]),
+    [['source', 'customer'], ['19283746501', 'admin']],
+  );
+  assert.deepEqual(
+    conversation.timeline.map(entry => [entry.id, entry.kind]),
+    [['source', 'comment'], ['19283746501', 'comment'], ['19283746502', 'note']],
+  );
+  assert.equal(conversation.isPartialThread, false);
+};
+
+const checkZendesk = ({ zendeskProvider }) => {
+  const ticket = zendeskProvider.fromRecording(readFixture('zendesk-ticket.json'));
+
+  assert.equal(ticket.id, '35436');
+  assert.equal(ticket.provider, 'zendesk');
+  assert.equal(ticket.sourceType, 'ticket');
+  assert.equal(ticket.title, 'Export to CSV fails');
+  assert.equal(ticket.customerEmail, 'jane@example.com');
+  assert.equal(ticket.priority, 'high');
+  assert.deepEqual(ticket.tags, ['export']);
+  assert.deepEqual(ticket.customAttributes, { Plan: 'Enterprise', 'Ticket type': 'problem' });
+  // Private comments are internal notes: on the timeline, never in the messages
+  assert.deepEqual(
+    ticket.messages.map(message => [message.id, message.author.type]),
+    [['1274', 'customer'], ['1275', 'admin']],
+  );
+  assert.deepEqual(
+    ticket.timeline.map(entry => [entry.id, entry.kind]),
+    [['1274', 'comment'], ['1275', 'comment'], ['1276', 'note']],
+  );
+  assert.deepEqual(ticket.messages[0].attachments?.map(attachment => attachment.name), ['error.png']);
+};
+
+// Vite resolves the @ alias and import.meta.env the same way the app build does
+const server = await createServer({
+  root,
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+});
+
+let failed = false;
+try {
+  const providers = await server.ssrLoadModule('/src/services/supportProviders.ts');
+  for (const [name, check] of [['Intercom', checkIntercom], ['Zendesk', checkZendesk]]) {
+    try {
+      check(providers);
+      console.log(`✅ ${name} fixture`);
+    } catch (error) {
+      failed = true;
+      console.error(`❌ ${name} fixture: ${error.message}`);
+    }
+  }
+} finally {
+  await server.close();
+}
+
+process.exit(failed ? 1 : 0);
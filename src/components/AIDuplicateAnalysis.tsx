@@ -220,6 +220,9 @@ const AIDuplicateAnalysis: React.FC<AIDuplicateAnalysisProps> = ({
                         <p className="text-sm text-blue-900 leading-relaxed">
                           {analyzed.reasoning}
                         </p>
+                        {analyzed.prompt_version && (
+                          <p className="mt-2 text-xs text-blue-700">Prompt: {analyzed.prompt_version}</p>
+                        )}
                       </div>
                     )}
                   </div>
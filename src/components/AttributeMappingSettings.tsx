@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal, Plus, X, RotateCcw } from "lucide-react";
+import { loadAttributeMapping, resetAttributeMapping, saveAttributeMapping } from "@/services/attributeMapping";
+import type { AttributeMappingConfig, AttributeRule, AttributeOperator, MappedIssueField } from "@/types/attributeMapping";
+
+interface AttributeMappingSettingsProps {
+  onSaved: (config: AttributeMappingConfig) => void;
+}
+
+const ISSUE_FIELD_LABELS: Record<MappedIssueField, string> = {
+  appId: 'App ID',
+  device: 'Device',
+  browser: 'Browser',
+  operatingSystem: 'Operating system',
+};
+
+const OPERATOR_LABELS: Record<AttributeOperator, string> = {
+  present: 'is set',
+  equals: 'equals',
+  contains: 'contains',
+  lte: '≤',
+  gte: '≥',
+};
+
+const createRule = (kind: AttributeRule['kind']): AttributeRule => {
+  const id = `${kind}-${Date.now()}`;
+  switch (kind) {
+    case 'tag':
+      return { id, kind, attribute: '', template: '{value}' };
+    case 'priority':
+      return { id, kind, attribute: '', operator: 'present', priority: 'high' };
+    case 'issue_field':
+      return { id, kind, attribute: '', field: 'appId' };
+  }
+};
+
+const AttributeMappingSettings = ({ onSaved }: AttributeMappingSettingsProps) => {
+  const [config, setConfig] = useState<AttributeMappingConfig>(loadAttributeMapping);
+  const [hiddenInput, setHiddenInput] = useState(config.hiddenAttributes.join('\n'));
+
+  const updateRule = (index: number, rule: AttributeRule) => {
+    setConfig(prev => ({
+      ...prev,
+      rules: prev.rules.map((existing, i) => (i === index ? rule : existing)),
+    }));
+  };
+
+  const removeRule = (index: number) => {
+    setConfig(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const addRule = (kind: AttributeRule['kind']) => {
+    setConfig(prev => ({ ...prev, rules: [...prev.rules, createRule(kind)] }));
+  };
+
+  const handleSave = () => {
+    const cleaned: AttributeMappingConfig = {
+      rules: config.rules.filter(rule => rule.attribute.trim()),
+      hiddenAttributes: hiddenInput.split('\n').map(line => line.trim()).filter(Boolean),
+    };
+    saveAttributeMapping(cleaned);
+    setConfig(cleaned);
+    onSaved(cleaned);
+  };
+
+  const handleReset = () => {
+    const defaults = resetAttributeMapping();
+    setConfig(defaults);
+    setHiddenInput(defaults.hiddenAttributes.join('\n'));
+    onSaved(defaults);
+  };
+
+  const renderRuleFields = (rule: AttributeRule, index: number) => {
+    switch (rule.kind) {
+      case 'tag':
+        return (
+          <Input
+            value={rule.template}
+            onChange={(e) => updateRule(index, { ...rule, template: e.target.value })}
+            placeholder="Tag, e.g. Brand: {value}"
+          />
+        );
+      case 'priority':
+        return (
+          <div className="flex gap-2">
+            <Select
+              value={rule.operator}
+              onValueChange={(value) => updateRule(index, { ...rule, operator: value as AttributeOperator })}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(OPERATOR_LABELS) as AttributeOperator[]).map(operator => (
+                  <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {rule.operator !== 'present' && (
+              <Input
+                className="w-24"
+                value={rule.value || ''}
+                onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+                placeholder="Value"
+              />
+            )}
+            <Select
+              value={rule.priority}
+              onValueChange={(value) => updateRule(index, { ...rule, priority: value as typeof rule.priority })}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'issue_field':
+        return (
+          <Select
+            value={rule.field}
+            onValueChange={(value) => updateRule(index, { ...rule, field: value as MappedIssueField })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ISSUE_FIELD_LABELS) as MappedIssueField[]).map(field => (
+                <SelectItem key={field} value={field}>{ISSUE_FIELD_LABELS[field]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+    }
+  };
+
+  return (
+    <Card className="w-full animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5 text-primary" />
+          Custom Attribute Mapping
+        </CardTitle>
+        <CardDescription>
+          Decide which Intercom custom attributes become tags, drive priority, or fill in issue fields.
+          Rules apply the next time a conversation is fetched.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {config.rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">No rules configured.</p>
+          )}
+          {config.rules.map((rule, index) => (
+            <div key={rule.id} className="flex items-center gap-2 p-3 rounded-lg border bg-muted/20">
+              <Badge variant="outline" className="w-24 justify-center flex-shrink-0">
+                {rule.kind === 'issue_field' ? 'issue field' : rule.kind}
+              </Badge>
+              <Input
+                className="w-56 flex-shrink-0"
+                value={rule.attribute}
+                onChange={(e) => updateRule(index, { ...rule, attribute: e.target.value })}
+                placeholder="Attribute name"
+              />
+              <span className="text-sm text-muted-foreground">→</span>
+              <div className="flex-1">{renderRuleFields(rule, index)}</div>
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeRule(index)}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => addRule('tag')}>
+              <Plus className="w-4 h-4 mr-1" /> Tag rule
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => addRule('priority')}>
+              <Plus className="w-4 h-4 mr-1" /> Priority rule
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => addRule('issue_field')}>
+              <Plus className="w-4 h-4 mr-1" /> Issue field rule
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="hidden-attributes" className="text-sm font-medium">Hidden attributes</Label>
+          <Textarea
+            id="hidden-attributes"
+            value={hiddenInput}
+            onChange={(e) => setHiddenInput(e.target.value)}
+            placeholder="One attribute name per line; these are left out of the analysis"
+            rows={3}
+          />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="outline" onClick={handleReset}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            Save Rules
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttributeMappingSettings;
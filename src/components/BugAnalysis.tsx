@@ -2,8 +2,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
-import { AlertTriangle, CheckCircle, Zap, TrendingUp, FileText, Search, Users } from "lucide-react";
+import { AlertTriangle, CheckCircle, Zap, TrendingUp, FileText, Search, Users, Layers, Vote, Library } from "lucide-react";
+import { getEvidenceElementId, getIndicatorEvidence } from "@/utils/evidence";
+import { TRIAGE_OUTCOME_LABELS } from "@/services/fewShotLibrary";
 import type { BugDetectionResult } from "@/services/llmApi";
+import type { EvidenceCitation } from "@/types/conversation";
 
 interface BugAnalysisProps {
   isBug: boolean;
@@ -14,6 +17,13 @@ interface BugAnalysisProps {
   bugDetectionResult?: BugDetectionResult;
 }
 
+// Scrolls the conversation thread to the quoted message and focuses it
+const jumpToEvidence = (citation: EvidenceCitation) => {
+  const element = document.getElementById(getEvidenceElementId(citation.messageId));
+  element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  element?.focus({ preventScroll: true });
+};
+
 const BugAnalysis = ({ 
   isBug, 
   confidence, 
@@ -98,14 +108,92 @@ const BugAnalysis = ({
           />
         </div>
 
+        {/* Long threads are partly summarized before analysis */}
+        {bugDetectionResult?.condensation && (
+          <div className="flex items-start gap-2 text-sm text-muted-foreground bg-background/60 rounded-lg p-3 border">
+            <Layers className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Long conversation: {bugDetectionResult.condensation.condensedMessages} of {bugDetectionResult.condensation.totalMessages} messages
+              were summarized ({Math.round(bugDetectionResult.condensation.condensedMessages / bugDetectionResult.condensation.totalMessages * 100)}% of the thread,
+              ~{bugDetectionResult.condensation.originalTokens.toLocaleString()} → ~{bugDetectionResult.condensation.condensedTokens.toLocaleString()} tokens)
+              to fit the model's {bugDetectionResult.condensation.contextWindow.toLocaleString()}-token context window.
+              Errors, escalations and the latest messages were kept verbatim.
+            </span>
+          </div>
+        )}
+
         {/* AI Reasoning */}
         <div className="space-y-2">
           <h4 className="font-medium text-sm">AI Reasoning</h4>
           <div className="text-sm text-foreground bg-background/60 rounded-lg p-3 border">
             {reasoning}
           </div>
+          {bugDetectionResult?.promptVersion && (
+            <p className="text-xs text-muted-foreground">Prompt: {bugDetectionResult.promptVersion}</p>
+          )}
         </div>
 
+        {/* Past triage decisions the prompt included */}
+        {bugDetectionResult?.fewShotExamples && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm flex items-center gap-2">
+              <Library className="w-4 h-4" />
+              Compared with {bugDetectionResult.fewShotExamples.length} past triage decisions
+            </h4>
+            <ul className="space-y-1 text-xs text-muted-foreground">
+              {bugDetectionResult.fewShotExamples.map(example => (
+                <li key={example.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{example.title}</span>
+                  <Badge variant="outline" className="shrink-0">{TRIAGE_OUTCOME_LABELS[example.outcome]}</Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Ensemble votes, broken down when the runs disagree */}
+        {bugDetectionResult?.ensemble && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-sm flex items-center gap-2">
+              <Vote className="w-4 h-4" />
+              Ensemble Vote
+            </h4>
+            <p className="text-sm text-muted-foreground">
+              {bugDetectionResult.ensemble.bugVotes} of {bugDetectionResult.ensemble.votes.length} runs voted bug.
+              The models reported {Math.round(bugDetectionResult.ensemble.reportedConfidence * 100)}% confidence on average;
+              the confidence above also reflects how many runs agree.
+              {bugDetectionResult.ensemble.failures.length > 0 && ` ${bugDetectionResult.ensemble.failures.length} runs failed and didn't vote.`}
+            </p>
+            {bugDetectionResult.ensemble.disagreement && (
+              <div className="bg-background/60 rounded-lg p-3 border space-y-2">
+                <p className="text-xs font-medium text-orange-700 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  The runs disagree. Review the conversation before filing.
+                </p>
+                {bugDetectionResult.ensemble.votes.map(vote => (
+                  <div key={`${vote.model}-${vote.sample}`} className="flex items-center justify-between gap-2 text-xs">
+                    <span>
+                      {vote.model}
+                      {bugDetectionResult.ensemble.votes.some(other => other.sample > 1) && ` #${vote.sample}`}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-muted-foreground">
+                        {vote.bugType} · {vote.severity} · {Math.round(vote.confidence * 100)}%
+                      </span>
+                      <Badge
+                        variant="outline"
+                        className={vote.isBug ? 'border-orange-300 text-orange-700' : 'border-green-300 text-green-700'}
+                      >
+                        {vote.isBug ? 'Bug' : 'Not a bug'}
+                      </Badge>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* AI Bug Detection Results - Only show if we have detailed results */}
         {isBug && bugDetectionResult && (
           <>
@@ -130,9 +218,25 @@ const BugAnalysis = ({
               {/* Key Indicators */}
               <div className="space-y-2">
                 <h4 className="font-medium text-sm">Key Indicators:</h4>
-                <div className="text-sm text-foreground">
-                  {bugDetectionResult.keyIndicators.join(', ')}
-                </div>
+                <ul className="space-y-2">
+                  {bugDetectionResult.keyIndicators.map(indicator => (
+                    <li key={indicator} className="text-sm text-foreground">
+                      {indicator}
+                      {getIndicatorEvidence(bugDetectionResult.evidence, indicator).map((citation, index) => (
+                        <button
+                          key={index}
+                          type="button"
+                          onClick={() => jumpToEvidence(citation)}
+                          className="block w-full text-left text-xs text-muted-foreground hover:text-foreground border-l-2 border-amber-300 pl-2 mt-1"
+                        >
+                          "{citation.quote}"
+                          {citation.author && ` — ${citation.author.name}`}
+                          {citation.createdAt && `, ${new Date(citation.createdAt).toLocaleString()}`}
+                        </button>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
               </div>
 
               {/* Agent Escalation */}
@@ -154,19 +258,26 @@ const BugAnalysis = ({
           <div className="space-y-2">
             <h4 className="font-medium text-sm">Detected Patterns</h4>
             <div className="flex flex-wrap gap-2">
-              {detectedPatterns.map((pattern, index) => (
-                <Badge 
-                  key={index}
-                  variant="outline" 
-                  className={`text-xs ${
-                    isBug 
-                      ? 'border-orange-300 text-orange-700 bg-orange-50' 
-                      : 'border-green-300 text-green-700 bg-green-50'
-                  }`}
-                >
-                  {pattern}
-                </Badge>
-              ))}
+              {detectedPatterns.map((pattern, index) => {
+                // Patterns with a quote jump to it in the conversation thread
+                const [citation] = getIndicatorEvidence(bugDetectionResult?.evidence, pattern);
+                return (
+                  <Badge 
+                    key={index}
+                    variant="outline" 
+                    className={`text-xs ${
+                      isBug 
+                        ? 'border-orange-300 text-orange-700 bg-orange-50' 
+                        : 'border-green-300 text-green-700 bg-green-50'
+                    } ${citation ? 'cursor-pointer underline decoration-dotted' : ''}`}
+                    role={citation ? 'button' : undefined}
+                    title={citation ? `"${citation.quote}"` : undefined}
+                    onClick={citation ? () => jumpToEvidence(citation) : undefined}
+                  >
+                    {pattern}
+                  </Badge>
+                );
+              })}
             </div>
           </div>
         )}
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Loader2, ArrowRight, AlertTriangle } from "lucide-react";
+import type { BulkImportResult, IntercomSearchFilters, ProcessedConversation } from "@/types/conversation";
+import type { IntercomWorkspace } from "@/types/workspace";
+
+interface BulkConversationImportProps {
+  onImport: (filters: IntercomSearchFilters, workspaceId?: string) => void;
+  onSelect: (conversation: ProcessedConversation) => void;
+  isLoading?: boolean;
+  result?: BulkImportResult;
+  activeConversationId?: string | null;
+  workspaces?: IntercomWorkspace[];
+}
+
+const BulkConversationImport = ({
+  onImport,
+  onSelect,
+  isLoading,
+  result,
+  activeConversationId,
+  workspaces = []
+}: BulkConversationImportProps) => {
+  const [workspaceId, setWorkspaceId] = useState(workspaces[0]?.id);
+  const [tags, setTags] = useState("");
+  const [state, setState] = useState<'any' | 'open' | 'closed' | 'snoozed'>('any');
+  const [createdAfter, setCreatedAfter] = useState("");
+  const [createdBefore, setCreatedBefore] = useState("");
+  const [teamAssigneeId, setTeamAssigneeId] = useState("");
+  const [maxResults, setMaxResults] = useState("25");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    onImport({
+      tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      state: state === 'any' ? undefined : state,
+      createdAfter: createdAfter || undefined,
+      createdBefore: createdBefore || undefined,
+      teamAssigneeId: teamAssigneeId.trim() || undefined,
+      maxResults: parseInt(maxResults, 10) || undefined,
+    }, workspaceId);
+  };
+
+  const getPriorityColor = (priority: string) => {
+    switch (priority) {
+      case 'high': return 'bg-orange-500 text-white';
+      case 'medium': return 'bg-yellow-500 text-white';
+      default: return 'bg-muted text-muted-foreground';
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          Bulk Import
+        </CardTitle>
+        <CardDescription>
+          Pull every matching Intercom conversation in one go, then pick one to analyze
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {workspaces.length > 1 && (
+              <div className="space-y-2 md:col-span-2">
+                <Label className="text-sm font-medium">Workspace</Label>
+                <Select value={workspaceId} onValueChange={setWorkspaceId} disabled={isLoading}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workspaces.map((workspace) => (
+                      <SelectItem key={workspace.id} value={workspace.id}>
+                        {workspace.name} ({workspace.region.toUpperCase()})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="bulk-tags" className="text-sm font-medium">Tags</Label>
+              <Input
+                id="bulk-tags"
+                placeholder="bug-suspect, escalated"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">State</Label>
+              <Select value={state} onValueChange={(value) => setState(value as typeof state)} disabled={isLoading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any state</SelectItem>
+                  <SelectItem value="open">Open</SelectItem>
+                  <SelectItem value="closed">Closed</SelectItem>
+                  <SelectItem value="snoozed">Snoozed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-created-after" className="text-sm font-medium">Created after</Label>
+              <Input
+                id="bulk-created-after"
+                type="date"
+                value={createdAfter}
+                onChange={(e) => setCreatedAfter(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-created-before" className="text-sm font-medium">Created before</Label>
+              <Input
+                id="bulk-created-before"
+                type="date"
+                value={createdBefore}
+                onChange={(e) => setCreatedBefore(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-team" className="text-sm font-medium">Team assignee ID</Label>
+              <Input
+                id="bulk-team"
+                placeholder="e.g. 5017691"
+                value={teamAssigneeId}
+                onChange={(e) => setTeamAssigneeId(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-max" className="text-sm font-medium">Max conversations</Label>
+              <Input
+                id="bulk-max"
+                type="number"
+                min={1}
+                max={200}
+                value={maxResults}
+                onChange={(e) => setMaxResults(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isLoading}>
+            {isLoading ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Importing Conversations...
+              </>
+            ) : (
+              "Search & Import"
+            )}
+          </Button>
+        </form>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                Imported {result.conversations.length} of {result.totalMatched} matching conversations
+              </span>
+              {result.failedIds.length > 0 && (
+                <span className="flex items-center gap-1 text-destructive">
+                  <AlertTriangle className="w-4 h-4" />
+                  {result.failedIds.length} failed
+                </span>
+              )}
+            </div>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {result.conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className={`flex items-center justify-between gap-3 p-3 rounded-lg border ${
+                    conversation.id === activeConversationId ? 'border-primary bg-primary/5' : 'bg-muted/20'
+                  }`}
+                >
+                  <div className="min-w-0 space-y-1">
+                    <p className="text-sm font-medium truncate">{conversation.title}</p>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span className="font-mono">#{conversation.id}</span>
+                      <span>{conversation.customerName}</span>
+                      <span>{new Date(conversation.createdAt).toLocaleDateString()}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Badge className={getPriorityColor(conversation.priority)} variant="secondary">
+                      {conversation.priority}
+                    </Badge>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onSelect(conversation)}
+                      disabled={conversation.id === activeConversationId}
+                    >
+                      Analyze
+                      <ArrowRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkConversationImport;
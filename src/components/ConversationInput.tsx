@@ -1,29 +1,40 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { MessageSquare, Loader2 } from "lucide-react";
+import { MessageSquare, Loader2, Upload } from "lucide-react";
+import { isSupportedUrl } from "@/services/supportProviders";
+import { ACCEPTED_IMPORT_FILE_TYPES } from "@/services/transcriptImport";
+import type { TranscriptRecording } from "@/types/transcript";
 
 interface ConversationInputProps {
   onAnalyze: (url: string) => void;
+  onImport?: (recording: TranscriptRecording) => void;
   isLoading?: boolean;
 }
 
-const ConversationInput = ({ onAnalyze, isLoading }: ConversationInputProps) => {
+const TRANSCRIPT_PLACEHOLDER = `[2024-06-10 10:15] Jane Customer: Exporting to CSV fails every time
+[2024-06-10 10:17] Sam (Support): Which browser are you using?`;
+
+const ConversationInput = ({ onAnalyze, onImport, isLoading }: ConversationInputProps) => {
   const [url, setUrl] = useState("");
+  const [transcript, setTranscript] = useState("");
   const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!url.trim()) {
-      setError("Please enter an Intercom conversation URL");
+      setError("Please enter an Intercom conversation or ticket URL");
       return;
     }
     
-    if (!url.includes("intercom.io") && !url.includes("intercom.com")) {
-      setError("Please enter a valid Intercom conversation URL");
+    if (!isSupportedUrl(url)) {
+      setError("Please enter a valid Intercom or Zendesk conversation or ticket URL");
       return;
     }
 
@@ -31,6 +42,34 @@ const ConversationInput = ({ onAnalyze, isLoading }: ConversationInputProps) =>
     onAnalyze(url.trim());
   };
 
+  const handleTranscriptSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!transcript.trim()) {
+      setError("Please paste a transcript");
+      return;
+    }
+
+    setError("");
+    onImport?.({ content: transcript });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires onChange
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      setError("");
+      onImport?.({ content, fileName: file.name });
+    } catch (readError) {
+      console.error('Failed to read import file:', readError);
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
   return (
     <Card className="w-full max-w-2xl mx-auto animate-fade-in">
       <CardHeader className="text-center">
@@ -41,47 +80,121 @@ const ConversationInput = ({ onAnalyze, isLoading }: ConversationInputProps) =>
         </div>
         <CardTitle className="text-2xl">Start with a Conversation</CardTitle>
         <CardDescription className="text-base">
-          Paste your Intercom conversation URL to begin AI-powered bug analysis
+          Paste an Intercom conversation/ticket or Zendesk ticket URL, or import a transcript, to begin AI-powered bug analysis
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="conversation-url" className="text-sm font-medium">
-              Intercom Conversation URL
-            </Label>
-            <Input
-              id="conversation-url"
-              type="url"
-              placeholder="https://app.intercom.io/a/apps/abc123/inbox/..."
-              value={url}
-              onChange={(e) => {
-                setUrl(e.target.value);
-                if (error) setError("");
-              }}
-              className={error ? "border-destructive focus-visible:ring-destructive" : ""}
-              disabled={isLoading}
-            />
-            {error && (
-              <p className="text-sm text-destructive animate-fade-in">{error}</p>
-            )}
-          </div>
-          
-          <Button 
-            type="submit" 
-            className="w-full h-11 text-base font-medium"
-            disabled={isLoading || !url.trim()}
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                Analyzing Conversation...
-              </>
-            ) : (
-              "Analyze Conversation"
-            )}
-          </Button>
-        </form>
+        <Tabs defaultValue="url" className="w-full" onValueChange={() => setError("")}>
+          <TabsList className={onImport ? "grid w-full grid-cols-2 mb-4" : "hidden"}>
+            <TabsTrigger value="url">Conversation URL</TabsTrigger>
+            <TabsTrigger value="transcript">Transcript or Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="url" className="mt-0">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="conversation-url" className="text-sm font-medium">
+                  Intercom Conversation or Ticket URL
+                </Label>
+                <Input
+                  id="conversation-url"
+                  type="url"
+                  placeholder="https://app.intercom.io/a/apps/abc123/inbox/..."
+                  value={url}
+                  onChange={(e) => {
+                    setUrl(e.target.value);
+                    if (error) setError("");
+                  }}
+                  className={error ? "border-destructive focus-visible:ring-destructive" : ""}
+                  disabled={isLoading}
+                />
+                {error && (
+                  <p className="text-sm text-destructive animate-fade-in">{error}</p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full h-11 text-base font-medium"
+                disabled={isLoading || !url.trim()}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Analyzing Conversation...
+                  </>
+                ) : (
+                  "Analyze Conversation"
+                )}
+              </Button>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="transcript" className="mt-0">
+            <form onSubmit={handleTranscriptSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="conversation-transcript" className="text-sm font-medium">
+                  Pasted Transcript
+                </Label>
+                <Textarea
+                  id="conversation-transcript"
+                  placeholder={TRANSCRIPT_PLACEHOLDER}
+                  value={transcript}
+                  onChange={(e) => {
+                    setTranscript(e.target.value);
+                    if (error) setError("");
+                  }}
+                  rows={8}
+                  className={`font-mono text-sm ${error ? "border-destructive focus-visible:ring-destructive" : ""}`}
+                  disabled={isLoading}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Email threads, Slack copy/paste and "Name: message" chat logs are split into messages. The first speaker is treated as the customer unless labelled otherwise.
+                </p>
+                {error && (
+                  <p className="text-sm text-destructive animate-fade-in">{error}</p>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  className="flex-1 h-11 text-base font-medium"
+                  disabled={isLoading || !transcript.trim()}
+                >
+                  {isLoading ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Analyzing Conversation...
+                    </>
+                  ) : (
+                    "Analyze Transcript"
+                  )}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="h-11"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isLoading}
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Upload File
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ACCEPTED_IMPORT_FILE_TYPES}
+                  className="hidden"
+                  onChange={handleFileChange}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Accepts .txt and .eml transcripts, CSV exports with a body/message column, and Intercom or Zendesk JSON exports.
+              </p>
+            </form>
+          </TabsContent>
+        </Tabs>
       </CardContent>
     </Card>
   );
@@ -1,17 +1,33 @@
+import type { ReactNode } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Clock, User, Mail, Building, Hash, Calendar, RefreshCw } from "lucide-react";
+import { Clock, User, Mail, Building, Hash, Calendar, RefreshCw, AlertTriangle, StickyNote, Activity, Languages } from "lucide-react";
+import { findQuote, getEvidenceElementId } from "@/utils/evidence";
+import type { DetectedLanguage, EvidenceCitation, TicketDetails, TimelineEventKind } from "@/types/conversation";
 
 interface Message {
   id: string;
   author: string;
   role: 'customer' | 'admin';
+  /** Markdown produced by htmlToMarkdown */
   content: string;
+  /** English translation, when the conversation wasn't in English */
+  translation?: string;
   timestamp: string;
 }
 
+interface ActivityEvent {
+  id: string;
+  kind: TimelineEventKind;
+  author: string;
+  content?: string;
+  timestamp: string;
+  assignedTo?: string;
+  tags?: string[];
+}
+
 interface ConversationSummaryProps {
   title: string;
   customer: {
@@ -22,20 +38,60 @@ interface ConversationSummaryProps {
   priority: 'low' | 'medium' | 'high' | 'urgent';
   status: 'open' | 'closed' | 'pending';
   messages: Message[];
+  events?: ActivityEvent[];
   createdAt: string;
   conversationId?: string;
   updatedAt?: string;
+  isPartialThread?: boolean;
+  missingPartCount?: number;
+  ticket?: TicketDetails;
+  language?: DetectedLanguage;
+  isTranslating?: boolean;
+  /** Translation failed for some or all messages */
+  translationFailed?: boolean;
+  /** Quotes cited by bug detection; their messages are highlighted */
+  evidence?: EvidenceCitation[];
 }
 
+/** Wraps the quoted passages of a text in <mark> */
+const highlightQuotes = (text: string, quotes: string[]): ReactNode => {
+  const ranges = quotes
+    .map(quote => findQuote(text, quote))
+    .filter((range): range is { start: number; end: number } => range !== null)
+    .sort((a, b) => a.start - b.start);
+  if (ranges.length === 0) return text;
+
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, index) => {
+    if (range.start < cursor) return;
+    nodes.push(
+      text.slice(cursor, range.start),
+      <mark key={index} className="bg-amber-200/70 rounded px-0.5">{text.slice(range.start, range.end)}</mark>
+    );
+    cursor = range.end;
+  });
+  nodes.push(text.slice(cursor));
+  return nodes;
+};
+
 const ConversationSummary = ({
   title,
   customer,
   priority,
   status,
   messages,
+  events = [],
   createdAt,
   conversationId,
-  updatedAt
+  updatedAt,
+  isPartialThread,
+  missingPartCount,
+  ticket,
+  language,
+  isTranslating,
+  translationFailed,
+  evidence = []
 }: ConversationSummaryProps) => {
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -54,6 +110,18 @@ const ConversationSummary = ({
     }
   };
 
+  const describeEvent = (event: ActivityEvent) => {
+    switch (event.kind) {
+      case 'assignment': return `assigned to ${event.assignedTo || 'nobody'}`;
+      case 'snooze': return 'snoozed the conversation';
+      case 'reopen': return 'reopened the conversation';
+      case 'close': return 'closed the conversation';
+      case 'state_change': return `moved the ticket ${event.content || ''}`.trim();
+      case 'tag_change': return `tagged ${event.tags?.join(', ') || 'the conversation'}`;
+      default: return 'updated the conversation';
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -75,6 +143,28 @@ const ConversationSummary = ({
               <Badge className={getStatusColor(status)} variant="secondary">
                 {status.charAt(0).toUpperCase() + status.slice(1)}
               </Badge>
+              {ticket && (
+                <Badge variant="outline" className="border-purple-300 text-purple-700 bg-purple-50">
+                  {ticket.typeName} #{ticket.ticketNumber}
+                </Badge>
+              )}
+              {isPartialThread && (
+                <Badge variant="outline" className="border-orange-300 text-orange-700 bg-orange-50">
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  Partial Thread
+                </Badge>
+              )}
+              {language && language.code !== 'en' && (
+                <Badge variant="outline" className="border-sky-300 text-sky-700 bg-sky-50">
+                  <Languages className="w-3 h-3 mr-1" />
+                  {language.name}
+                  {isTranslating
+                    ? ' · translating...'
+                    : translationFailed
+                      ? messages.some(message => message.translation) ? ' · partly translated' : ' · translation failed'
+                      : messages.some(message => message.translation) ? ' · translated' : ''}
+                </Badge>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-1 text-sm text-muted-foreground">
@@ -132,54 +222,146 @@ const ConversationSummary = ({
                   <span className="text-sm font-medium text-foreground">{formatDate(updatedAt)}</span>
                 </div>
               )}
+              {ticket && (
+                <>
+                  <div className="flex items-start gap-2">
+                    <span className="text-sm font-medium text-muted-foreground min-w-[60px]">Category:</span>
+                    <span className="text-sm font-medium text-foreground">{ticket.category}</span>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <span className="text-sm font-medium text-muted-foreground min-w-[60px]">State:</span>
+                    <span className="text-sm font-medium text-foreground">{ticket.state.replace(/_/g, ' ')}</span>
+                  </div>
+                  {ticket.affectedFeature && (
+                    <div className="flex items-start gap-2">
+                      <span className="text-sm font-medium text-muted-foreground min-w-[60px]">Feature:</span>
+                      <span className="text-sm font-medium text-foreground">{ticket.affectedFeature}</span>
+                    </div>
+                  )}
+                </>
+              )}
             </div>
           </div>
         </div>
 
         <Separator />
 
+        {isPartialThread && (
+          <div className="flex items-start gap-2 text-sm text-orange-800 bg-orange-50 border border-orange-200 rounded-lg p-3">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Intercom truncated this conversation and {missingPartCount || 'some'} of the most recent parts could not be fetched.
+              Check the conversation in Intercom before relying on the analysis.
+            </span>
+          </div>
+        )}
+
         {/* Messages */}
         <div className="space-y-4">
           <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wide">
             Conversation Thread ({messages.length} messages)
           </h3>
           <div className="space-y-3 max-h-96 overflow-y-auto">
-            {messages.map((message, index) => (
-              <div key={message.id} className="flex gap-3">
-                <Avatar className="w-8 h-8 flex-shrink-0">
-                  <AvatarFallback className={
-                    message.role === 'customer' 
-                      ? 'bg-blue-100 text-blue-600' 
-                      : 'bg-green-100 text-green-600'
-                  }>
-                    {message.author.charAt(0).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 space-y-1">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-medium">{message.author}</span>
-                    <Badge 
-                      variant="outline" 
-                      className={`text-xs ${
-                        message.role === 'customer' 
-                          ? 'border-blue-200 text-blue-600' 
-                          : 'border-green-200 text-green-600'
-                      }`}
-                    >
-                      {message.role}
-                    </Badge>
-                    <span className="text-xs text-muted-foreground">
-                      {new Date(message.timestamp).toLocaleTimeString()}
-                    </span>
-                  </div>
-                  <div className="text-sm text-foreground bg-muted/20 rounded-lg p-3">
-                    {message.content}
+            {messages.map((message, index) => {
+              const citations = evidence.filter(citation => citation.messageId === message.id);
+              const quotes = citations.map(citation => citation.quote);
+              return (
+                <div
+                  key={message.id}
+                  id={getEvidenceElementId(message.id)}
+                  tabIndex={-1}
+                  className={`flex gap-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-400 ${
+                    citations.length > 0 ? 'bg-amber-50/60 ring-1 ring-amber-200 p-2' : ''
+                  }`}
+                >
+                  <Avatar className="w-8 h-8 flex-shrink-0">
+                    <AvatarFallback className={
+                      message.role === 'customer' 
+                        ? 'bg-blue-100 text-blue-600' 
+                        : 'bg-green-100 text-green-600'
+                    }>
+                      {message.author.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{message.author}</span>
+                      <Badge 
+                        variant="outline" 
+                        className={`text-xs ${
+                          message.role === 'customer' 
+                            ? 'border-blue-200 text-blue-600' 
+                            : 'border-green-200 text-green-600'
+                        }`}
+                      >
+                        {message.role}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(message.timestamp).toLocaleTimeString()}
+                      </span>
+                    </div>
+                    <div className="text-sm text-foreground bg-muted/20 rounded-lg p-3 whitespace-pre-wrap break-words">
+                      {highlightQuotes(message.content, quotes)}
+                    </div>
+                    {message.translation && message.translation !== message.content && (
+                      <div className="text-sm text-muted-foreground border-l-2 border-sky-200 pl-3 whitespace-pre-wrap break-words">
+                        <span className="text-xs font-medium uppercase tracking-wide">English: </span>
+                        {highlightQuotes(message.translation, quotes)}
+                      </div>
+                    )}
+                    {citations.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {citations.map((citation, citationIndex) => (
+                          <Badge key={citationIndex} variant="outline" className="text-xs border-amber-300 text-amber-800">
+                            Evidence: {citation.indicator}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
+
+        {/* Internal notes, assignments and state changes */}
+        {events.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-4">
+              <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wide">
+                Internal Notes & Activity ({events.length} events)
+              </h3>
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {events.map((event) => event.kind === 'note' ? (
+                  <div key={event.id} className="flex gap-3 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                    <StickyNote className="w-4 h-4 text-yellow-700 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{event.author}</span>
+                        <Badge variant="outline" className="text-xs border-yellow-300 text-yellow-700">
+                          internal note
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(event.timestamp).toLocaleString()}
+                        </span>
+                      </div>
+                      <div className="text-sm text-foreground whitespace-pre-wrap break-words">{event.content}</div>
+                    </div>
+                  </div>
+                ) : (
+                  <div key={event.id} className="flex items-center gap-2 text-xs text-muted-foreground px-3">
+                    <Activity className="w-3 h-3 flex-shrink-0" />
+                    <span className="font-medium text-foreground">{event.author}</span>
+                    <span>{describeEvent(event)}</span>
+                    <span>· {new Date(event.timestamp).toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
       </CardContent>
     </Card>
   );
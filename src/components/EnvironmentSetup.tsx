@@ -20,6 +20,30 @@ const EnvironmentSetup = ({ missingVars }: EnvironmentSetupProps) => {
       howToGet: 'Visit OpenAI Platform > API Keys > Create new secret key',
       example: 'sk-proj-abcdefghijklmnopqrstuvwxyz1234567890',
     },
+    'VITE_AZURE_OPENAI_ENDPOINT': {
+      name: 'Azure OpenAI Endpoint',
+      description: 'Endpoint of the Azure OpenAI resource used by steps configured with the "azure" provider',
+      howToGet: 'Azure Portal > your Azure OpenAI resource > Keys and Endpoint',
+      example: 'https://my-resource.openai.azure.com',
+    },
+    'VITE_AZURE_OPENAI_API_KEY': {
+      name: 'Azure OpenAI API Key',
+      description: 'Key for the Azure OpenAI resource',
+      howToGet: 'Azure Portal > your Azure OpenAI resource > Keys and Endpoint',
+      example: '0123456789abcdef0123456789abcdef',
+    },
+    'VITE_AZURE_OPENAI_DEPLOYMENT': {
+      name: 'Azure OpenAI Deployment',
+      description: 'Name of the model deployment to call (or set VITE_LLM_MODEL)',
+      howToGet: 'Azure AI Foundry > Deployments',
+      example: 'gpt-4o',
+    },
+    'VITE_ANTHROPIC_API_KEY': {
+      name: 'Anthropic API Key',
+      description: 'Your Anthropic API key for steps configured with the "anthropic" provider',
+      howToGet: 'Visit Anthropic Console > API Keys > Create Key',
+      example: 'sk-ant-REDACTED',
+    },
     'VITE_GITHUB_TOKEN': {
       name: 'GitHub Personal Access Token',
       description: 'GitHub token with repository access to create issues',
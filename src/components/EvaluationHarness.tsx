@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, Upload, Play, AlertTriangle, Loader2 } from "lucide-react";
+import {
+  EVALUATION_DETECTORS,
+  diffEvaluationRuns,
+  findPreviousRun,
+  getSampleDataset,
+  loadEvaluationRuns,
+  parseEvaluationDataset,
+  runEvaluation,
+  saveEvaluationRun,
+} from "@/services/evaluation";
+import type {
+  EvaluationCaseResult,
+  EvaluationDataset,
+  EvaluationDetectorId,
+  EvaluationMetricName,
+  EvaluationRun,
+} from "@/types/evaluation";
+
+const METRIC_LABELS: Record<EvaluationMetricName, string> = {
+  precision: 'Precision',
+  recall: 'Recall',
+  f1: 'F1',
+  accuracy: 'Accuracy',
+  bugTypeAccuracy: 'Bug type',
+  severityAccuracy: 'Severity',
+  expectedCalibrationError: 'Calibration error',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatPrediction = (predicted?: EvaluationCaseResult['predicted']) =>
+  predicted ? `${predicted.isBug ? 'bug' : 'not a bug'} · ${predicted.bugType} · ${predicted.severity}` : 'error';
+
+const EvaluationHarness = () => {
+  const [dataset, setDataset] = useState<EvaluationDataset>(getSampleDataset);
+  const [detector, setDetector] = useState<EvaluationDetectorId>('keyword');
+  const [runs, setRuns] = useState<EvaluationRun[]>(loadEvaluationRuns);
+  const [selectedRunId, setSelectedRunId] = useState<string | undefined>(() => loadEvaluationRuns()[0]?.id);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = useState('');
+
+  const run = runs.find(saved => saved.id === selectedRunId);
+  const previous = run ? findPreviousRun(runs, run) : undefined;
+  const diff = run && previous ? diffEvaluationRuns(previous, run) : undefined;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parseEvaluationDataset(JSON.parse(await file.text()));
+      if (!parsed.success || !parsed.data) {
+        setError(parsed.error?.message || 'Invalid dataset');
+        return;
+      }
+      setError('');
+      setDataset(parsed.data);
+    } catch (readError) {
+      console.error('Failed to read evaluation dataset:', readError);
+      setError(`Could not read ${file.name} as JSON`);
+    }
+  };
+
+  const handleRun = async () => {
+    setError('');
+    setProgress({ completed: 0, total: dataset.cases.length });
+    try {
+      const result = await runEvaluation(dataset, detector, (completed, total) => setProgress({ completed, total }));
+      setRuns(saveEvaluationRun(result));
+      setSelectedRunId(result.id);
+    } catch (runError) {
+      console.error('Evaluation run failed:', runError);
+      setError(runError instanceof Error ? runError.message : 'Evaluation run failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full animate-fade-in">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5 text-primary" />
+            Bug Detection Evaluation
+          </CardTitle>
+          <CardDescription>
+            Run the detector over labeled conversations to see whether a prompt or model change made it better or worse.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-3 p-3 border rounded-lg">
+            <div>
+              <p className="text-sm font-medium">{dataset.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {dataset.cases.length} cases, {dataset.cases.filter(testCase => testCase.expected.isBug).length} labeled as bugs
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setDataset(getSampleDataset())}>
+                Use sample
+              </Button>
+              <Button type="button" variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="w-4 h-4 mr-2" />
+                  Load JSON
+                  <input type="file" accept=".json" className="hidden" onChange={handleFileChange} />
+                </label>
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label className="text-sm font-medium">Detector</Label>
+              <Select value={detector} onValueChange={(value) => setDetector(value as EvaluationDetectorId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EVALUATION_DETECTORS) as EvaluationDetectorId[]).map(id => (
+                    <SelectItem key={id} value={id}>{EVALUATION_DETECTORS[id].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="button" onClick={handleRun} disabled={!!progress}>
+              {progress ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run Evaluation
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{EVALUATION_DETECTORS[detector].description}</p>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={progress.completed / progress.total * 100} />
+              <p className="text-xs text-muted-foreground">{progress.completed} of {progress.total} cases</p>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {run && (
+        <Card className="w-full animate-fade-in">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <CardTitle className="text-lg">Results</CardTitle>
+                <CardDescription>
+                  {run.datasetName} · {run.model}{run.promptVersion ? ` · ${run.promptVersion}` : ''} · {new Date(run.startedAt).toLocaleString()}
+                </CardDescription>
+              </div>
+              <Select value={run.id} onValueChange={setSelectedRunId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {runs.map(saved => (
+                    <SelectItem key={saved.id} value={saved.id}>
+                      {new Date(saved.startedAt).toLocaleString()} · {EVALUATION_DETECTORS[saved.detector].name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(Object.keys(METRIC_LABELS) as EvaluationMetricName[]).map(name => {
+                const delta = diff?.metricDeltas[name];
+                // Lower calibration error is better
+                const improved = delta !== undefined && (name === 'expectedCalibrationError' ? delta < 0 : delta > 0);
+                return (
+                  <div key={name} className="p-3 border rounded-lg">
+                    <p className="text-xs text-muted-foreground">{METRIC_LABELS[name]}</p>
+                    <p className="text-xl font-semibold">{percent(run.metrics[name])}</p>
+                    {delta !== undefined && Math.abs(delta) >= 0.005 && (
+                      <p className={`text-xs ${improved ? 'text-green-700' : 'text-red-700'}`}>
+                        {delta > 0 ? '+' : ''}{Math.round(delta * 100)} pts
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+              <div className="p-3 border rounded-lg">
+                <p className="text-xs text-muted-foreground">Errors</p>
+                <p className={`text-xl font-semibold ${run.metrics.errors > 0 ? 'text-red-700' : ''}`}>{run.metrics.errors}</p>
+              </div>
+            </div>
+            {previous && (
+              <p className="text-xs text-muted-foreground">
+                Changes are against the previous {EVALUATION_DETECTORS[previous.detector].name} run on this dataset
+                ({new Date(previous.startedAt).toLocaleString()}).
+                Model: {previous.model === run.model ? run.model : `${previous.model} → ${run.model}`}.
+                Prompt: {(previous.promptVersion || 'none') === (run.promptVersion || 'none')
+                  ? run.promptVersion || 'none'
+                  : `${previous.promptVersion || 'none'} → ${run.promptVersion || 'none'}`}.
+              </p>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm">Confusion Matrix</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead />
+                      <TableHead>Predicted bug</TableHead>
+                      <TableHead>Predicted not a bug</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell className="font-medium">Labeled bug</TableCell>
+                      <TableCell className="text-green-700">{run.metrics.confusion.truePositive}</TableCell>
+                      <TableCell className="text-red-700">{run.metrics.confusion.falseNegative}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="font-medium">Labeled not a bug</TableCell>
+                      <TableCell className="text-red-700">{run.metrics.confusion.falsePositive}</TableCell>
+                      <TableCell className="text-green-700">{run.metrics.confusion.trueNegative}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm">Confidence Calibration</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Confidence</TableHead>
+                      <TableHead>Cases</TableHead>
+                      <TableHead>Mean</TableHead>
+                      <TableHead>Correct</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {run.metrics.calibration.map(bucket => (
+                      <TableRow key={bucket.min}>
+                        <TableCell>{percent(bucket.min)}–{percent(bucket.max)}</TableCell>
+                        <TableCell>{bucket.count}</TableCell>
+                        <TableCell>{bucket.count ? percent(bucket.meanConfidence) : '—'}</TableCell>
+                        <TableCell>{bucket.count ? percent(bucket.accuracy) : '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            {previous && diff && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-sm">
+                  Changes since {new Date(previous.startedAt).toLocaleString()} ({previous.model}{previous.promptVersion ? `, ${previous.promptVersion}` : ''})
+                </h4>
+                {diff.changedCases.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No predictions changed.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Case</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.changedCases.map(change => (
+                        <TableRow key={change.caseId}>
+                          <TableCell className="font-mono text-xs">{change.caseId}</TableCell>
+                          <TableCell className="text-xs">{formatPrediction(change.before)}</TableCell>
+                          <TableCell className="text-xs">{formatPrediction(change.after)}</TableCell>
+                          <TableCell>
+                            {change.fixed && <Badge className="bg-green-100 text-green-800">Fixed</Badge>}
+                            {!change.fixed && change.before?.isBug === change.expected.isBug && change.after?.isBug !== change.expected.isBug && (
+                              <Badge variant="destructive">Regressed</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-medium text-sm">Cases</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Case</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Predicted</TableHead>
+                    <TableHead>Confidence</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {run.results.map(result => (
+                    <TableRow
+                      key={result.caseId}
+                      className={!result.predicted || result.predicted.isBug !== result.expected.isBug ? 'bg-red-50' : ''}
+                    >
+                      <TableCell className="font-mono text-xs">{result.caseId}</TableCell>
+                      <TableCell className="text-xs">
+                        {result.expected.isBug ? 'bug' : 'not a bug'} · {result.expected.bugType}{result.expected.severity ? ` · ${result.expected.severity}` : ''}
+                      </TableCell>
+                      <TableCell className="text-xs">{result.predicted ? formatPrediction(result.predicted) : result.error}</TableCell>
+                      <TableCell className="text-xs">{result.predicted ? percent(result.predicted.confidence) : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationHarness;
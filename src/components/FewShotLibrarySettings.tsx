@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Library, Trash2, ExternalLink } from "lucide-react";
+import {
+  loadFewShotExamples,
+  loadFewShotSettings,
+  removeFewShotExample,
+  saveFewShotSettings,
+  TRIAGE_OUTCOME_LABELS,
+} from "@/services/fewShotLibrary";
+import type { FewShotExample, FewShotSettings, TriageOutcome } from "@/types/fewShot";
+
+const OUTCOME_BADGE_CLASSES: Record<TriageOutcome, string> = {
+  filed_bug: 'bg-red-100 text-red-800 border-red-200',
+  duplicate: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  not_a_bug: 'bg-blue-100 text-blue-800 border-blue-200',
+};
+
+const MAX_EXAMPLES_PER_PROMPT = 10;
+
+const FewShotLibrarySettings = () => {
+  const [settings, setSettings] = useState<FewShotSettings>(loadFewShotSettings);
+  const [examples, setExamples] = useState<FewShotExample[]>(loadFewShotExamples);
+
+  const updateSettings = (next: FewShotSettings) => {
+    setSettings(next);
+    saveFewShotSettings(next);
+  };
+
+  const updateMaxExamples = (value: string) => {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0 || count > MAX_EXAMPLES_PER_PROMPT) return;
+    updateSettings({ ...settings, maxExamples: count });
+  };
+
+  const handleRemove = (example: FewShotExample) => {
+    if (!window.confirm(`Remove "${example.title}" from the example library?`)) return;
+    removeFewShotExample(example.id);
+    setExamples(loadFewShotExamples());
+  };
+
+  return (
+    <Card className="w-full animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Library className="w-5 h-5 text-primary" />
+          Example Library
+        </CardTitle>
+        <CardDescription>
+          Bug detection is shown the past decisions most similar to the conversation it analyzes.
+          Add examples from the result of any analysis that was filed or ruled not a bug.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="fewShotEnabled"
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => updateSettings({ ...settings, enabled })}
+            />
+            <Label htmlFor="fewShotEnabled">Use examples in bug detection</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="fewShotMaxExamples" className="whitespace-nowrap">Examples per analysis</Label>
+            <Input
+              id="fewShotMaxExamples"
+              type="number"
+              min={0}
+              max={MAX_EXAMPLES_PER_PROMPT}
+              value={settings.maxExamples}
+              onChange={(e) => updateMaxExamples(e.target.value)}
+              disabled={!settings.enabled}
+              className="w-20"
+            />
+          </div>
+        </div>
+
+        {examples.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No examples yet. Bug detection runs zero-shot until one is added.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">{examples.length} examples</p>
+            {examples.map(example => (
+              <div key={example.id} className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium truncate">{example.title}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline" className={OUTCOME_BADGE_CLASSES[example.outcome]}>
+                        {TRIAGE_OUTCOME_LABELS[example.outcome]}
+                      </Badge>
+                      <span>{example.bugType} · {example.severity}</span>
+                      <span>{new Date(example.createdAt).toLocaleDateString()}</span>
+                      {example.issueNumber && (example.issueUrl ? (
+                        <a
+                          href={example.issueUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-primary hover:underline"
+                        >
+                          #{example.issueNumber}
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      ) : (
+                        <span>#{example.issueNumber}</span>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(example)}
+                    aria-label={`Remove ${example.title}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-sm">{example.rationale}</p>
+                <details className="text-xs text-muted-foreground">
+                  <summary className="cursor-pointer">Excerpt</summary>
+                  <pre className="mt-2 whitespace-pre-wrap font-sans">{example.excerpt}</pre>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FewShotLibrarySettings;
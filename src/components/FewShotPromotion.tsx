@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookmarkPlus, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { promoteToFewShotLibrary, TRIAGE_OUTCOME_LABELS } from "@/services/fewShotLibrary";
+import type { BugDetectionResult } from "@/services/llmApi";
+import type { ProcessedConversation } from "@/types/conversation";
+import type { TriageOutcome } from "@/types/fewShot";
+
+interface FewShotPromotionProps {
+  // The copy bug detection analyzed, so examples match what later analyses see
+  conversation: ProcessedConversation;
+  result: BugDetectionResult;
+  defaultOutcome: TriageOutcome;
+  // The issue filed for the conversation, when there is one
+  issue?: { number: number; html_url: string };
+}
+
+const FewShotPromotion = ({ conversation, result, defaultOutcome, issue }: FewShotPromotionProps) => {
+  const [outcome, setOutcome] = useState<TriageOutcome>(defaultOutcome);
+  const [rationale, setRationale] = useState(result.reasoning);
+  const [duplicateOf, setDuplicateOf] = useState('');
+  const [promoted, setPromoted] = useState(false);
+  const { toast } = useToast();
+
+  const handlePromote = () => {
+    const duplicateNumber = Number(duplicateOf.replace(/^#/, ''));
+    promoteToFewShotLibrary({
+      conversation,
+      result,
+      outcome,
+      rationale,
+      issue: outcome === 'duplicate'
+        ? (Number.isInteger(duplicateNumber) && duplicateNumber > 0 ? { number: duplicateNumber } : undefined)
+        : issue,
+    });
+    setPromoted(true);
+    toast({
+      title: "Example Added",
+      description: "Similar conversations will see this decision during bug detection.",
+    });
+  };
+
+  return (
+    <Card className="w-full animate-fade-in">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BookmarkPlus className="w-5 h-5 text-primary" />
+          Add to Example Library
+        </CardTitle>
+        <CardDescription>
+          Teach bug detection from this decision: similar conversations get it as a worked example.
+          The title, excerpt and rationale are redacted before they're stored.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Outcome</Label>
+            <Select value={outcome} onValueChange={(value) => { setOutcome(value as TriageOutcome); setPromoted(false); }}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TRIAGE_OUTCOME_LABELS) as TriageOutcome[]).map(value => (
+                  <SelectItem key={value} value={value}>{TRIAGE_OUTCOME_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {outcome === 'duplicate' && (
+            <div className="space-y-2">
+              <Label htmlFor="duplicateOf" className="text-sm font-medium">Duplicate of issue</Label>
+              <Input
+                id="duplicateOf"
+                value={duplicateOf}
+                onChange={(e) => { setDuplicateOf(e.target.value); setPromoted(false); }}
+                placeholder="#1234"
+              />
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="exampleRationale" className="text-sm font-medium">Why</Label>
+          <Textarea
+            id="exampleRationale"
+            value={rationale}
+            onChange={(e) => { setRationale(e.target.value); setPromoted(false); }}
+            rows={3}
+            className="text-sm"
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={handlePromote} disabled={promoted || !rationale.trim()}>
+          {promoted ? <Check className="w-4 h-4 mr-2" /> : <BookmarkPlus className="w-4 h-4 mr-2" />}
+          {promoted ? 'Added to Library' : 'Add Example'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FewShotPromotion;
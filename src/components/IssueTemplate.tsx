@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -7,10 +7,19 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Copy, Check, FileText, Upload, X, Search, Users, Brain, Settings } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Check, FileText, Upload, X, Search, Users, Brain, Settings, Sparkles, ShieldCheck, Paperclip, Loader2, Square, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAttachmentRehost, useStreamingIssueGeneration } from "@/hooks/conversation";
 import type { BugDetectionResult } from "@/services/llmApi";
-import type { EnhancedIssueContext } from "@/types/conversation";
+import { DETECTOR_LABELS, DETECTOR_ORDER, Redactor, createConversationRedactor, loadRedactionConfig, saveRedactionConfig } from "@/services/redaction";
+import { formatAttachmentsMarkdown, getAttachmentStoreConfig, getConversationAttachments } from "@/services/attachmentStore";
+import { formatOriginalLanguageSection } from "@/utils/language";
+import { formatEvidenceMarkdown } from "@/utils/evidence";
+import type { EnhancedIssueContext, ContactEnrichment, EnrichedField, ProcessedConversation } from "@/types/conversation";
+import type { MappedIssueField } from "@/types/attributeMapping";
+import type { RedactionConfig, RedactionDetector } from "@/types/redaction";
+import type { AttachmentSource, HostedAttachment } from "@/types/attachments";
 
 interface IssueTemplateProps {
   initialTemplate: {
@@ -35,14 +44,40 @@ interface IssueTemplateProps {
   onEnhancedSubmit?: (context: EnhancedIssueContext) => void;
   bugDetectionResult?: BugDetectionResult;
   mcpEnabled?: boolean;
+  enrichment?: ContactEnrichment;
+  attributeFields?: Partial<Record<MappedIssueField, EnrichedField>>;
+  // Used to find customer names for redaction
+  conversation?: ProcessedConversation;
+  // English copy of the conversation for the AI draft, when the original was translated
+  analysisConversation?: ProcessedConversation;
 }
 
+type PrefillableField = MappedIssueField;
+
+// Values the template starts with before the TSE or enrichment fills them in
+const PLACEHOLDER_VALUES = ['', 'Not specified'];
+
+const PrefillSource = ({ field, value }: { field?: EnrichedField; value: string }) => {
+  if (!field || field.value !== value) return null;
+
+  return (
+    <p className="flex items-center gap-1 text-xs text-blue-700">
+      <Sparkles className="w-3 h-3" />
+      Pre-filled from {field.source}
+    </p>
+  );
+};
+
 const IssueTemplate = ({ 
   initialTemplate, 
   onGenerate, 
   onEnhancedSubmit,
   bugDetectionResult,
-  mcpEnabled = false 
+  mcpEnabled = false,
+  enrichment,
+  attributeFields,
+  conversation,
+  analysisConversation
 }: IssueTemplateProps) => {
   const [template, setTemplate] = useState(initialTemplate);
   const [screenshots, setScreenshots] = useState<File[]>([]);
@@ -59,9 +94,64 @@ const IssueTemplate = ({
     customerImpact: 'medium'
   });
   
+  const [prefilled, setPrefilled] = useState<Partial<Record<PrefillableField, EnrichedField>>>({});
+  const [redactionConfig, setRedactionConfig] = useState<RedactionConfig>(loadRedactionConfig);
+  const [customTermsInput, setCustomTermsInput] = useState(redactionConfig.customTerms.join(', '));
+  
   const { toast } = useToast();
+  const attachmentRehost = useAttachmentRehost();
+  const issueGeneration = useStreamingIssueGeneration();
+  const issueDraft = issueGeneration.draft;
+  const attachmentStore = getAttachmentStoreConfig();
+
+  // Conversation attachments plus the screenshots uploaded here, in the order they appear in the issue
+  const attachmentSources: AttachmentSource[] = [
+    ...(conversation ? getConversationAttachments(conversation) : []),
+    ...screenshots.map(file => ({
+      name: file.name,
+      contentType: file.type || 'application/octet-stream',
+      origin: 'upload' as const,
+      file,
+    })),
+  ];
+
+  // Until the issue is submitted, the preview shows the original links
+  const previewAttachments: HostedAttachment[] = attachmentSources.map(source => ({
+    name: source.name,
+    url: source.url || '',
+    contentType: source.contentType,
+    origin: source.origin,
+    // With a store configured they'll be re-hosted on submit, so skip the expiry note
+    rehosted: !!attachmentStore,
+    error: source.url ? undefined : attachmentStore ? 'uploaded when the issue is created' : 'not uploaded: no attachment store is configured',
+  }));
+
+  // Pre-fill environment fields from custom attributes and the Intercom contact,
+  // without overwriting anything the TSE typed
+  useEffect(() => {
+    if (!enrichment && !attributeFields) return;
+
+    // Explicit attribute mapping rules win over values read off the contact
+    const fields: Partial<Record<PrefillableField, EnrichedField>> = {
+      appId: attributeFields?.appId || enrichment?.appId,
+      device: attributeFields?.device || enrichment?.device,
+      browser: attributeFields?.browser || enrichment?.browser,
+      operatingSystem: attributeFields?.operatingSystem || enrichment?.operatingSystem,
+    };
+
+    setTemplate(prev => {
+      const next = { ...prev };
+      (Object.keys(fields) as PrefillableField[]).forEach(key => {
+        if (fields[key] && PLACEHOLDER_VALUES.includes(prev[key].trim())) {
+          next[key] = fields[key].value;
+        }
+      });
+      return next;
+    });
+    setPrefilled(fields);
+  }, [enrichment, attributeFields]);
 
-  const generateMarkdown = () => {
+  const generateMarkdown = (attachments: HostedAttachment[] = previewAttachments) => {
     return `## Description of the issue
 ${template.description}
 
@@ -69,7 +159,10 @@ ${template.description}
 
 **APP ID:**
 ${template.appId}
-
+${conversation?.ticket ? `
+**Ticket category:** ${conversation.ticket.category}
+**Affected feature:** ${conversation.ticket.affectedFeature || 'N/A'}
+` : ''}
 **1. What is the error message?** Please write the full error message received by the customer. If there is no error message, write 'N/A'
 
 ${template.errorMessage}
@@ -98,7 +191,13 @@ ${template.operatingSystem}
 ## Evidence
 **Screenshots URLs** (Please use Droplr. to get the screenshots URLs):
 ${template.screenshotUrls.length > 0 ? template.screenshotUrls.join('\n') : 'No screenshots provided in conversation'}
-
+${attachments.length > 0 ? `
+**Attachments:**
+${formatAttachmentsMarkdown(attachments)}
+` : ''}${bugDetectionResult?.evidence?.length ? `
+**Quotes from the conversation:**
+${formatEvidenceMarkdown(bugDetectionResult.evidence)}
+` : ''}
 **[Optional] Replication steps video URL** (Please add a video showing the issue and make sure your video includes audio): 
 ${template.videoUrl || 'N/A'}
 
@@ -126,12 +225,63 @@ If the issue is happening on the customer's website, please provide:
 ${template.website}
 
 **2. Login credentials:**
-${template.loginCredentials}`;
+${template.loginCredentials}
+${formatOriginalLanguageSection(conversation)}`;
+  };
+
+  const getIssueTitle = () => {
+    return bugDetectionResult?.initialAnalysis.title || 
+           template.description.split('\n')[0].substring(0, 100) || 
+           'Issue from Intercom conversation';
+  };
+
+  // The AI draft links attachments as they were when it was written; point it at the re-hosted copies
+  // and add any that only got a link on upload
+  const getDraftBody = (attachments: HostedAttachment[] = previewAttachments) => {
+    let body = issueDraft!.body;
+    attachments.forEach(attachment => {
+      if (attachment.originalUrl && attachment.url && attachment.url !== attachment.originalUrl) {
+        body = body.split(attachment.originalUrl).join(attachment.url);
+      }
+    });
+    const unlinked = attachments.filter(attachment => attachment.url && !body.includes(attachment.url));
+    return unlinked.length > 0 ? `${body}\n\n**Attachments:**\n${formatAttachmentsMarkdown(unlinked)}` : body;
+  };
+
+  // What actually gets submitted: the title and body with sensitive values replaced
+  const getRedactedIssue = (attachments?: HostedAttachment[]) => {
+    const redactor = conversation
+      ? createConversationRedactor(conversation, redactionConfig)
+      : new Redactor(redactionConfig);
+    const title = redactor.redact(issueDraft?.title.trim() || getIssueTitle());
+    const body = redactor.redact(issueDraft ? getDraftBody(attachments) : generateMarkdown(attachments));
+    return { title, body, entries: redactor.entries };
+  };
+
+  const redactedIssue = getRedactedIssue();
+
+  const updateRedactionConfig = (config: RedactionConfig) => {
+    setRedactionConfig(config);
+    saveRedactionConfig(config);
+  };
+
+  const toggleDetector = (detector: RedactionDetector, enabled: boolean) => {
+    updateRedactionConfig({
+      ...redactionConfig,
+      detectors: { ...redactionConfig.detectors, [detector]: enabled },
+    });
+  };
+
+  const applyCustomTerms = () => {
+    updateRedactionConfig({
+      ...redactionConfig,
+      customTerms: customTermsInput.split(',').map(term => term.trim()).filter(Boolean),
+    });
   };
 
   const copyToClipboard = async () => {
     try {
-      await navigator.clipboard.writeText(generateMarkdown());
+      await navigator.clipboard.writeText(redactedIssue.body);
       setCopied(true);
       toast({
         title: "Copied!",
@@ -156,6 +306,22 @@ ${template.loginCredentials}`;
     setScreenshots(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Copies attachments to the blob store so issue links don't expire with the support platform's URLs
+  const collectAttachments = async (): Promise<HostedAttachment[]> => {
+    if (attachmentSources.length === 0 || !conversation) return previewAttachments;
+
+    const hosted = await attachmentRehost.mutateAsync({ sources: attachmentSources, conversation });
+    const failed = attachmentStore ? hosted.filter(attachment => !attachment.rehosted) : [];
+    if (failed.length > 0) {
+      toast({
+        title: "Some attachments were not re-hosted",
+        description: `${failed.map(attachment => attachment.name).join(', ')} will use the original links, which may expire.`,
+        variant: "destructive",
+      });
+    }
+    return hosted;
+  };
+
   const updateReproductionStep = (index: number, value: string) => {
     const newSteps = [...template.reproductionSteps];
     newSteps[index] = value;
@@ -176,33 +342,64 @@ ${template.loginCredentials}`;
     }));
   };
 
-  const handleEnhancedSubmit = () => {
+  // Enhanced context with the current template data
+  const buildEnhancedContext = (attachments: HostedAttachment[]): EnhancedIssueContext => ({
+    ...enhancedContext,
+    screenshots: attachments
+      .filter(attachment => attachment.url)
+      .map(attachment => ({
+        name: attachment.name,
+        url: attachment.url,
+        contentType: attachment.contentType,
+        rehosted: attachment.rehosted,
+        description: attachment.origin === 'upload' ? 'Uploaded by the TSE' : 'Attached in the conversation',
+      })),
+    appId: template.appId,
+    errorMessages: template.errorMessage,
+    browserInfo: `${template.browser} on ${template.operatingSystem}`,
+    ticketCategory: conversation?.ticket?.category,
+    affectedFeature: conversation?.ticket?.affectedFeature,
+    evidence: bugDetectionResult?.evidence,
+    additionalSteps: template.reproductionSteps.join('\n'),
+    technicalDetails: [
+      `Device: ${template.device}`,
+      `Browser: ${template.browser}`,
+      `OS: ${template.operatingSystem}`,
+      enrichment?.location && `Location: ${enrichment.location.value}`,
+      enrichment?.lastSeenAt && `Last seen: ${new Date(enrichment.lastSeenAt.value).toLocaleString()}`,
+    ].filter(Boolean).join('\n'),
+  });
+
+  const handleDraftWithAI = () => {
+    const source = analysisConversation || conversation;
+    if (!source) return;
+    issueGeneration.generate({
+      conversation: source,
+      originalConversation: analysisConversation && analysisConversation !== conversation ? conversation : undefined,
+      enhancedContext: buildEnhancedContext(previewAttachments),
+      bypassCache: !!issueDraft,
+    });
+  };
+
+  const handleEnhancedSubmit = async () => {
     if (!onEnhancedSubmit) return;
-    
-    // Update enhanced context with current template data
-    const updatedContext: EnhancedIssueContext = {
-      ...enhancedContext,
-      appId: template.appId,
-      errorMessages: template.errorMessage,
-      browserInfo: `${template.browser} on ${template.operatingSystem}`,
-      additionalSteps: template.reproductionSteps.join('\n'),
-      technicalDetails: `Device: ${template.device}\nBrowser: ${template.browser}\nOS: ${template.operatingSystem}`,
-    };
-    
-    onEnhancedSubmit(updatedContext);
+
+    const attachments = await collectAttachments();
+    onEnhancedSubmit({
+      ...buildEnhancedContext(attachments),
+      issueDraft: issueDraft ? { title: issueDraft.title.trim() || getIssueTitle(), body: getDraftBody(attachments) } : undefined,
+    });
   };
 
-  const handleDirectCreate = () => {
-    const issueTitle = bugDetectionResult?.initialAnalysis.title || 
-                      template.description.split('\n')[0].substring(0, 100) || 
-                      'Issue from Intercom conversation';
+  const handleDirectCreate = async () => {
     const labels = ['intercom', 'bug', 'customer-support'];
     if (bugDetectionResult?.severity) {
       labels.push(`severity-${bugDetectionResult.severity}`);
     }
+    const issue = getRedactedIssue(await collectAttachments());
     onGenerate({ 
-      title: issueTitle, 
-      body: generateMarkdown(), 
+      title: issue.title, 
+      body: issue.body, 
       labels 
     });
   };
@@ -221,9 +418,15 @@ ${template.loginCredentials}`;
       
       <CardContent>
         <Tabs defaultValue="edit" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="edit">Edit Template</TabsTrigger>
             <TabsTrigger value="preview">Preview Markdown</TabsTrigger>
+            <TabsTrigger value="redaction">
+              Redaction
+              {redactedIssue.entries.length > 0 && (
+                <Badge variant="secondary" className="ml-2 text-xs">{redactedIssue.entries.length}</Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="edit" className="space-y-6 mt-6">
@@ -258,6 +461,7 @@ ${template.loginCredentials}`;
                   placeholder="Please provide the App ID (numbers), not the code"
                   required
                 />
+                <PrefillSource field={prefilled.appId} value={template.appId} />
               </div>
 
               {/* Error Message */}
@@ -309,6 +513,7 @@ ${template.loginCredentials}`;
                   onChange={(e) => setTemplate(prev => ({ ...prev, device: e.target.value }))}
                   placeholder="e.g. desktop, phone, tablet"
                 />
+                <PrefillSource field={prefilled.device} value={template.device} />
               </div>
 
               {/* Browser */}
@@ -323,6 +528,7 @@ ${template.loginCredentials}`;
                   }}
                   placeholder="e.g., Chrome 120.0.6099.129, Safari 17.1"
                 />
+                <PrefillSource field={prefilled.browser} value={template.browser} />
               </div>
 
               {/* Operating System */}
@@ -337,6 +543,7 @@ ${template.loginCredentials}`;
                   }}
                   placeholder="e.g., macOS 14.1, Windows 11, iOS 17.1"
                 />
+                <PrefillSource field={prefilled.operatingSystem} value={template.operatingSystem} />
               </div>
             </div>
 
@@ -395,6 +602,50 @@ ${template.loginCredentials}`;
                 />
               </div>
 
+              {/* Attachments re-hosted when the issue is created */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">Attachments</Label>
+                  <Button variant="outline" size="sm" asChild>
+                    <label className="cursor-pointer">
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload Screenshots
+                      <input type="file" accept="image/*,video/*,.pdf,.txt,.log" multiple className="hidden" onChange={handleFileUpload} />
+                    </label>
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {attachmentStore
+                    ? `Conversation attachments and uploads are copied to the ${attachmentStore.kind === 's3' ? 'S3' : 'local'} attachment store and embedded in the issue.`
+                    : 'No attachment store is configured (VITE_ATTACHMENT_STORE), so conversation attachments keep their original links and uploads are not included.'}
+                </p>
+                {attachmentSources.length > 0 ? (
+                  <div className="space-y-2">
+                    {attachmentSources.map((source, index) => (
+                      <div key={`${source.origin}-${source.name}-${index}`} className="flex items-center gap-3 p-2 rounded border text-sm">
+                        <Paperclip className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                        <span className="truncate">{source.name}</span>
+                        <Badge variant="outline" className="text-xs flex-shrink-0">
+                          {source.origin === 'upload' ? 'Uploaded' : 'Conversation'}
+                        </Badge>
+                        {source.file && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="ml-auto h-6 w-6 p-0"
+                            onClick={() => removeScreenshot(screenshots.indexOf(source.file!))}
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No attachments in this conversation</p>
+                )}
+              </div>
+
               {/* Video URL */}
               <div className="space-y-2">
                 <Label htmlFor="videoUrl" className="text-sm font-medium">[Optional] Replication steps video URL</Label>
@@ -539,27 +790,170 @@ ${template.loginCredentials}`;
                 </Button>
               </div>
               
-              <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm whitespace-pre-wrap border max-h-96 overflow-y-auto">
-                {generateMarkdown()}
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-muted/20">
+                <div className="flex items-center gap-2 text-sm">
+                  {issueGeneration.isStreaming ? (
+                    <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                  ) : (
+                    <Sparkles className="w-4 h-4 text-primary" />
+                  )}
+                  <span>
+                    {issueGeneration.isStreaming
+                      ? 'Writing the issue...'
+                      : issueDraft
+                        ? 'AI draft: edit it below. It replaces the template when the issue is created.'
+                        : 'Let the AI write the title and body from the conversation and the fields above.'}
+                  </span>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {issueGeneration.isStreaming ? (
+                    <Button type="button" variant="outline" size="sm" onClick={issueGeneration.cancel}>
+                      <Square className="w-4 h-4 mr-2" />
+                      Stop
+                    </Button>
+                  ) : (
+                    <>
+                      {issueDraft && (
+                        <Button type="button" variant="ghost" size="sm" onClick={issueGeneration.discard}>
+                          Use Template
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={handleDraftWithAI}
+                        disabled={!conversation && !analysisConversation}
+                      >
+                        {issueDraft ? <RotateCcw className="w-4 h-4 mr-2" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                        {issueDraft ? 'Regenerate' : 'Draft with AI'}
+                      </Button>
+                    </>
+                  )}
+                </div>
               </div>
+
+              {issueGeneration.error && (
+                <p className="text-sm text-red-700">
+                  {issueGeneration.error}{issueDraft?.body ? ' The text written so far is kept below.' : ''}
+                </p>
+              )}
+
+              {issueDraft ? (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label htmlFor="draftTitle" className="text-sm font-medium">Title</Label>
+                    <Input
+                      id="draftTitle"
+                      value={issueDraft.title}
+                      onChange={(e) => issueGeneration.setDraft({ ...issueDraft, title: e.target.value })}
+                      readOnly={issueGeneration.isStreaming}
+                      placeholder={issueGeneration.isStreaming ? 'Waiting for the title...' : getIssueTitle()}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="draftBody" className="text-sm font-medium">Body</Label>
+                    <Textarea
+                      id="draftBody"
+                      value={issueDraft.body}
+                      onChange={(e) => issueGeneration.setDraft({ ...issueDraft, body: e.target.value })}
+                      readOnly={issueGeneration.isStreaming}
+                      rows={16}
+                      className="font-mono text-sm"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="bg-muted/30 rounded-lg p-4 font-mono text-sm whitespace-pre-wrap border max-h-96 overflow-y-auto">
+                  {redactedIssue.body}
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="redaction" className="space-y-6 mt-6">
+            <div className="flex items-center justify-between p-4 rounded-lg border bg-muted/20">
+              <div className="flex items-center gap-3">
+                <ShieldCheck className="w-5 h-5 text-primary" />
+                <div>
+                  <p className="text-sm font-medium">Redact sensitive values</p>
+                  <p className="text-xs text-muted-foreground">
+                    Applies to AI analysis prompts and to the GitHub issue
+                  </p>
+                </div>
+              </div>
+              <Switch
+                checked={redactionConfig.enabled}
+                onCheckedChange={(enabled) => updateRedactionConfig({ ...redactionConfig, enabled })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {DETECTOR_ORDER.map(detector => (
+                <div key={detector} className="flex items-center justify-between p-3 rounded-lg border">
+                  <Label className="text-sm">{DETECTOR_LABELS[detector]}</Label>
+                  <Switch
+                    checked={redactionConfig.detectors[detector]}
+                    onCheckedChange={(enabled) => toggleDetector(detector, enabled)}
+                    disabled={!redactionConfig.enabled}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="customTerms" className="text-sm font-medium">Custom terms</Label>
+              <Input
+                id="customTerms"
+                value={customTermsInput}
+                onChange={(e) => setCustomTermsInput(e.target.value)}
+                onBlur={applyCustomTerms}
+                placeholder="Comma-separated words to redact, e.g. internal project names"
+                disabled={!redactionConfig.enabled}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-medium text-sm">
+                {redactedIssue.entries.length} values will be redacted from the issue
+              </h3>
+              {redactedIssue.entries.length > 0 && (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {redactedIssue.entries.map(entry => (
+                    <div key={entry.placeholder} className="flex items-center gap-3 p-2 rounded border text-sm">
+                      <Badge variant="outline" className="font-mono text-xs">{entry.placeholder}</Badge>
+                      <span className="font-mono text-muted-foreground line-through truncate">{entry.original}</span>
+                      <span className="ml-auto text-xs text-muted-foreground flex-shrink-0">
+                        {DETECTOR_LABELS[entry.detector]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </TabsContent>
         </Tabs>
 
-        <div className="flex justify-end gap-3 mt-6">
+        <div className="flex justify-end items-center gap-3 mt-6">
+          {attachmentRehost.isPending && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Uploading attachments...
+            </span>
+          )}
           {mcpEnabled && onEnhancedSubmit ? (
             <>
               <Button
                 variant="outline"
                 onClick={handleDirectCreate}
-                disabled={!template.description.trim() || !template.appId.trim()}
+                disabled={!template.description.trim() || !template.appId.trim() || attachmentRehost.isPending || issueGeneration.isStreaming}
               >
                 Skip AI Analysis
               </Button>
               <Button 
                 onClick={handleEnhancedSubmit}
                 className="px-6 bg-blue-600 hover:bg-blue-700"
-                disabled={!template.description.trim() || !template.appId.trim()}
+                disabled={!template.description.trim() || !template.appId.trim() || attachmentRehost.isPending || issueGeneration.isStreaming}
               >
                 <Brain className="w-4 h-4 mr-2" />
                 Analyze for Duplicates
@@ -569,7 +963,7 @@ ${template.loginCredentials}`;
             <Button 
               onClick={handleDirectCreate}
               className="px-6"
-              disabled={!template.description.trim() || !template.appId.trim()}
+              disabled={!template.description.trim() || !template.appId.trim() || attachmentRehost.isPending || issueGeneration.isStreaming}
             >
               Create GitHub Issue
             </Button>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import type { MCPConfig } from '../types/mcp';
+import { getLLMProviderConfig, getLLMProviderLabel } from '../services/llmProviders';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -27,6 +28,10 @@ const MCPConfiguration: React.FC<MCPConfigurationProps> = ({
   // Get environment variables
   const envGithubToken = import.meta.env.VITE_GITHUB_TOKEN || '';
   const envOpenaiKey = import.meta.env.VITE_OPENAI_API_KEY || '';
+  // The duplicate analysis step may be configured to use a provider other than OpenAI
+  const llmConfig = getLLMProviderConfig('duplicateAnalysis');
+  const needsOpenaiKey = llmConfig.kind === 'openai';
+  const llmLabel = getLLMProviderLabel(llmConfig);
 
   const [config, setConfig] = useState<MCPConfig>({
     githubToken: envGithubToken,
@@ -73,7 +78,7 @@ const MCPConfiguration: React.FC<MCPConfigurationProps> = ({
       errors.push('GitHub token is required');
     }
 
-    if (!config.useLocalAI && !config.openaiKey?.trim()) {
+    if (!config.useLocalAI && needsOpenaiKey && !config.openaiKey?.trim()) {
       errors.push('OpenAI API key is required when not using local AI');
     }
 
@@ -473,9 +478,11 @@ const MCPConfiguration: React.FC<MCPConfigurationProps> = ({
                   className="mt-1"
                 />
                 <div className="flex-1">
-                  <Label htmlFor="openai" className="font-medium">OpenAI GPT-4 (Recommended)</Label>
+                  <Label htmlFor="openai" className="font-medium">{llmLabel} (Recommended)</Label>
                   <p className="text-sm text-gray-600">
-                    Better analysis quality, requires API key, uses your OpenAI credits
+                    {needsOpenaiKey
+                      ? 'Better analysis quality, requires API key, uses your OpenAI credits'
+                      : 'Uses the provider configured for duplicate analysis in your environment'}
                   </p>
                 </div>
               </div>
@@ -498,7 +505,7 @@ const MCPConfiguration: React.FC<MCPConfigurationProps> = ({
             </div>
 
             {/* OpenAI Key Input */}
-            {!config.useLocalAI && (
+            {!config.useLocalAI && needsOpenaiKey && (
               <div className="space-y-2">
                 <Label htmlFor="openai-key">OpenAI API Key *</Label>
                 <Input
@@ -507,7 +514,7 @@ const MCPConfiguration: React.FC<MCPConfigurationProps> = ({
                   value={config.openaiKey}
                   onChange={(e) => setConfig(prev => ({ ...prev, openaiKey: e.target.value }))}
                   placeholder="sk-proj-xxxxxxxxxxxxxxxxxxxx"
-                  required={!config.useLocalAI}
+                  required={!config.useLocalAI && needsOpenaiKey}
                 />
                 <p className="text-xs text-gray-500">
                   Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">OpenAI Platform →</a>
@@ -560,7 +567,7 @@ const MCPConfiguration: React.FC<MCPConfigurationProps> = ({
           {/* Submit Button */}
           <Button
             type="submit"
-            disabled={loading || !config.githubToken || (!config.useLocalAI && !config.openaiKey) || config.repositories.length === 0}
+            disabled={loading || !config.githubToken || (!config.useLocalAI && needsOpenaiKey && !config.openaiKey) || config.repositories.length === 0}
             className="w-full"
           >
             {loading ? (
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileCode, AlertTriangle, CheckCircle, RotateCcw } from "lucide-react";
+import {
+  PROMPT_DEFINITIONS,
+  PROMPT_IDS,
+  addPromptVersion,
+  findUnknownVariables,
+  getActivePromptVersion,
+  getPromptVersions,
+  isBasedOnOutdatedBuiltIn,
+  loadPromptRegistry,
+  savePromptRegistry,
+  setActivePromptVersion,
+} from "@/services/promptRegistry";
+import { diffLines } from "@/utils/textDiff";
+import type { PromptId, PromptRegistryConfig, PromptVersion } from "@/types/prompts";
+
+interface PromptRegistrySettingsProps {
+  onSaved: (config: PromptRegistryConfig) => void;
+}
+
+const describeVersion = (version: PromptVersion) => {
+  const date = version.createdAt ? ` · ${new Date(version.createdAt).toLocaleString()}` : '';
+  return `v${version.version}${version.note ? ` · ${version.note}` : ''}${date}`;
+};
+
+const PromptRegistrySettings = ({ onSaved }: PromptRegistrySettingsProps) => {
+  const [config, setConfig] = useState<PromptRegistryConfig>(loadPromptRegistry);
+  const [promptId, setPromptId] = useState<PromptId>('bugDetection');
+  const [selectedVersion, setSelectedVersion] = useState(() => getActivePromptVersion('bugDetection', config).version);
+  const [draft, setDraft] = useState(() => getActivePromptVersion('bugDetection', config).template);
+  const [note, setNote] = useState('');
+  const [compareFrom, setCompareFrom] = useState(1);
+  const [compareTo, setCompareTo] = useState(() => getActivePromptVersion('bugDetection', config).version);
+
+  const definition = PROMPT_DEFINITIONS[promptId];
+  const versions = getPromptVersions(promptId, config);
+  const activeVersion = getActivePromptVersion(promptId, config);
+  const selected = versions.find(version => version.version === selectedVersion) || activeVersion;
+  const unknownVariables = findUnknownVariables(promptId, draft);
+  const findTemplate = (number: number) => versions.find(version => version.version === number)?.template || '';
+
+  const persist = (next: PromptRegistryConfig) => {
+    savePromptRegistry(next);
+    setConfig(next);
+    onSaved(next);
+  };
+
+  const selectPrompt = (id: PromptId) => {
+    const active = getActivePromptVersion(id, config);
+    setPromptId(id);
+    setSelectedVersion(active.version);
+    setDraft(active.template);
+    setNote('');
+    setCompareFrom(1);
+    setCompareTo(active.version);
+  };
+
+  const selectVersion = (number: number) => {
+    setSelectedVersion(number);
+    setDraft(findTemplate(number));
+  };
+
+  const handleSaveVersion = () => {
+    const next = addPromptVersion(config, promptId, draft, note);
+    const saved = getActivePromptVersion(promptId, next);
+    persist(next);
+    setSelectedVersion(saved.version);
+    setCompareFrom(activeVersion.version);
+    setCompareTo(saved.version);
+    setNote('');
+  };
+
+  const handleActivate = () => {
+    persist(setActivePromptVersion(config, promptId, selected.version));
+  };
+
+  return (
+    <Card className="w-full animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode className="w-5 h-5 text-primary" />
+          Prompt Registry
+        </CardTitle>
+        <CardDescription>
+          Edit the prompts sent to the model. Every save creates a new version; results record the version that produced them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Prompt</Label>
+          <Select value={promptId} onValueChange={(value) => selectPrompt(value as PromptId)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROMPT_IDS.map(id => (
+                <SelectItem key={id} value={id}>
+                  {PROMPT_DEFINITIONS[id].name} (active v{getActivePromptVersion(id, config).version})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">{definition.description}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Variables:</span>
+            {definition.variables.length === 0 && <span className="text-xs text-muted-foreground">none</span>}
+            {definition.variables.map(variable => (
+              <Badge key={variable} variant="outline" className="font-mono text-xs">{`{{${variable}}}`}</Badge>
+            ))}
+          </div>
+        </div>
+
+        <Tabs defaultValue="edit">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="edit">Edit</TabsTrigger>
+            <TabsTrigger value="compare">Compare Versions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edit" className="space-y-4 mt-4">
+            <div className="flex items-end gap-3">
+              <div className="flex-1 space-y-2">
+                <Label className="text-sm font-medium">Version</Label>
+                <Select value={String(selected.version)} onValueChange={(value) => selectVersion(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.version} value={String(version.version)}>
+                        {describeVersion(version)}{version.version === activeVersion.version ? ' (active)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {selected.version === activeVersion.version ? (
+                <Badge variant="default" className="bg-green-100 text-green-800 h-10 px-3">
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Active
+                </Badge>
+              ) : (
+                <Button type="button" variant="outline" onClick={handleActivate}>
+                  Use v{selected.version}
+                </Button>
+              )}
+            </div>
+
+            {isBasedOnOutdatedBuiltIn(promptId, selected) && (
+              <div className="flex items-start gap-2 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  The built-in prompt has changed since v{selected.version} was saved.
+                  Compare it with v1 to carry the changes over.
+                </span>
+              </div>
+            )}
+
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={18}
+              className="font-mono text-xs"
+            />
+
+            {unknownVariables.length > 0 && (
+              <div className="flex items-start gap-2 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  Unknown variables will be left empty: {unknownVariables.map(variable => `{{${variable}}}`).join(', ')}
+                </span>
+              </div>
+            )}
+
+            <div className="flex items-end gap-3">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="prompt-note" className="text-sm font-medium">Change note</Label>
+                <Input
+                  id="prompt-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What changed, e.g. stricter severity rules"
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={() => setDraft(selected.template)} disabled={draft === selected.template}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Revert
+              </Button>
+              <Button type="button" onClick={handleSaveVersion} disabled={!draft.trim() || draft === selected.template}>
+                Save as v{versions[versions.length - 1].version + 1}
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="compare" className="space-y-4 mt-4">
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { label: 'From', value: compareFrom, onChange: setCompareFrom },
+                { label: 'To', value: compareTo, onChange: setCompareTo },
+              ].map(({ label, value, onChange }) => (
+                <div key={label} className="space-y-2">
+                  <Label className="text-sm font-medium">{label}</Label>
+                  <Select value={String(value)} onValueChange={(next) => onChange(Number(next))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map(version => (
+                        <SelectItem key={version.version} value={String(version.version)}>
+                          {describeVersion(version)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <pre className="text-xs font-mono rounded-lg border bg-muted/20 p-3 max-h-[28rem] overflow-auto whitespace-pre-wrap">
+              {diffLines(findTemplate(compareFrom), findTemplate(compareTo)).map((line, index) => (
+                <div
+                  key={index}
+                  className={
+                    line.type === 'added' ? 'bg-green-100 text-green-900'
+                      : line.type === 'removed' ? 'bg-red-100 text-red-900 line-through'
+                        : 'text-muted-foreground'
+                  }
+                >
+                  {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                </div>
+              ))}
+            </pre>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromptRegistrySettings;
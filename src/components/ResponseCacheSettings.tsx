@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Database, Trash2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { LLM_PIPELINE_STEP_LABELS, LLM_PIPELINE_STEPS } from "@/services/llmProviders";
+import {
+  clearLLMCache,
+  countLLMCacheEntries,
+  getCacheHitRate,
+  getLLMCacheBackend,
+  loadLLMCacheSettings,
+  loadLLMCacheStats,
+  resetLLMCacheStats,
+  saveLLMCacheSettings,
+} from "@/services/llmCache";
+import type { LLMPipelineStep } from "@/types/llm";
+import type { LLMCacheSettings, LLMCacheStats } from "@/types/llmCache";
+
+const BACKEND_LABELS = {
+  indexeddb: 'this browser (IndexedDB)',
+  server: 'the app server',
+};
+
+const ResponseCacheSettings = () => {
+  const [settings, setSettings] = useState<LLMCacheSettings>(loadLLMCacheSettings);
+  const [stats, setStats] = useState<LLMCacheStats>(loadLLMCacheStats);
+  const [entries, setEntries] = useState<number | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const { toast } = useToast();
+  const backend = getLLMCacheBackend();
+
+  useEffect(() => {
+    countLLMCacheEntries().then(setEntries);
+  }, []);
+
+  const totals = Object.values(stats.steps).reduce(
+    (sum, step) => ({ hits: sum.hits + step.hits, misses: sum.misses + step.misses, bypassed: sum.bypassed + step.bypassed }),
+    { hits: 0, misses: 0, bypassed: 0 }
+  );
+
+  const updateSettings = (next: LLMCacheSettings) => {
+    setSettings(next);
+    saveLLMCacheSettings(next);
+  };
+
+  const updateTtl = (step: LLMPipelineStep, value: string) => {
+    const hours = Number(value);
+    if (!Number.isFinite(hours) || hours < 0) return;
+    updateSettings({ ...settings, ttlHours: { ...settings.ttlHours, [step]: hours } });
+  };
+
+  const handleClear = async (expiredOnly: boolean) => {
+    if (!expiredOnly && !window.confirm('Delete every cached LLM answer?')) return;
+
+    setIsClearing(true);
+    try {
+      const removed = await clearLLMCache(expiredOnly);
+      toast({
+        title: "Cache Cleared",
+        description: `Removed ${removed} ${expiredOnly ? 'expired ' : ''}answers.`,
+      });
+      setEntries(await countLLMCacheEntries());
+    } catch (error) {
+      console.error('Failed to clear LLM cache:', error);
+      toast({
+        title: "Clear Failed",
+        description: error instanceof Error ? error.message : 'Could not clear the cache',
+        variant: "destructive",
+      });
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const handleResetStats = () => {
+    resetLLMCacheStats();
+    setStats(loadLLMCacheStats());
+  };
+
+  return (
+    <Card className="w-full animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="w-5 h-5 text-primary" />
+          Response Cache
+        </CardTitle>
+        <CardDescription>
+          {backend
+            ? `Answers are reused for identical requests (same provider, model, prompt version and input) and stored in ${BACKEND_LABELS[backend]}.`
+            : 'Caching is turned off with VITE_LLM_CACHE=off.'}
+        </CardDescription>
+      </CardHeader>
+      {backend && (
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Hit rate</p>
+              <p className="text-xl font-semibold">{Math.round(getCacheHitRate(totals) * 100)}%</p>
+              <p className="text-xs text-muted-foreground">{totals.hits} of {totals.hits + totals.misses} lookups</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Saved</p>
+              <p className="text-xl font-semibold">${stats.savedCost.toFixed(stats.savedCost < 1 ? 4 : 2)}</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Bypassed</p>
+              <p className="text-xl font-semibold">{totals.bypassed}</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Cached answers</p>
+              <p className="text-xl font-semibold">{entries ?? '–'}</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Since {new Date(stats.since).toLocaleString()}
+          </p>
+
+          <div className="flex items-center justify-between p-3 border rounded-lg">
+            <div>
+              <Label htmlFor="bypassCache" className="text-sm font-medium">Bypass cache</Label>
+              <p className="text-xs text-muted-foreground">Always ask the model; fresh answers replace the cached ones</p>
+            </div>
+            <Switch
+              id="bypassCache"
+              checked={settings.bypass}
+              onCheckedChange={(bypass) => updateSettings({ ...settings, bypass })}
+            />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Step</TableHead>
+                <TableHead>Hit rate</TableHead>
+                <TableHead>Hits / misses</TableHead>
+                <TableHead className="w-32">TTL (hours)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {LLM_PIPELINE_STEPS.map(step => {
+                const stepStats = stats.steps[step] || { hits: 0, misses: 0, bypassed: 0 };
+                return (
+                  <TableRow key={step}>
+                    <TableCell className="text-xs font-medium">{LLM_PIPELINE_STEP_LABELS[step]}</TableCell>
+                    <TableCell className="text-xs">{Math.round(getCacheHitRate(stepStats) * 100)}%</TableCell>
+                    <TableCell className="text-xs">{stepStats.hits} / {stepStats.misses}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={settings.ttlHours[step]}
+                        onChange={(e) => updateTtl(step, e.target.value)}
+                        className="h-8"
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">A TTL of 0 stops caching for that step.</p>
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => handleClear(true)} disabled={isClearing}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Remove Expired
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => handleClear(false)} disabled={isClearing}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear Cache
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={handleResetStats}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset Stats
+            </Button>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default ResponseCacheSettings;
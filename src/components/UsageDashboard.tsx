@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Coins, Download, Upload, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { LLM_PIPELINE_STEP_LABELS, LLM_PIPELINE_STEPS } from "@/services/llmProviders";
+import {
+  clearUsageRecords,
+  getUsageDay,
+  groupUsage,
+  importUsageRecords,
+  loadUsageRecords,
+  summarizeUsage,
+} from "@/services/llmUsage";
+import type { LLMPipelineStep } from "@/types/llm";
+import type { LLMUsageRecord } from "@/types/usage";
+
+const STEP_COLORS: Record<LLMPipelineStep, string> = {
+  bugDetection: 'hsl(221 83% 53%)',
+  translation: 'hsl(173 58% 39%)',
+  issueGeneration: 'hsl(262 83% 58%)',
+  duplicateAnalysis: 'hsl(27 96% 61%)',
+  condensation: 'hsl(340 75% 55%)',
+};
+
+const STEP_CHART_CONFIG: ChartConfig = Object.fromEntries(
+  LLM_PIPELINE_STEPS.map(step => [step, { label: LLM_PIPELINE_STEP_LABELS[step], color: STEP_COLORS[step] }])
+);
+
+const COST_CHART_CONFIG: ChartConfig = {
+  cost: { label: 'Cost (USD)', color: 'hsl(221 83% 53%)' },
+};
+
+const RANGES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const roundCost = (cost: number) => Math.round(cost * 10000) / 10000;
+const getStepLabel = (key: string) => LLM_PIPELINE_STEP_LABELS[key as LLMPipelineStep] || key;
+
+const UsageDashboard = () => {
+  const [records, setRecords] = useState<LLMUsageRecord[]>(loadUsageRecords);
+  const [rangeDays, setRangeDays] = useState(30);
+  const { toast } = useToast();
+
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (rangeDays - 1));
+  const inRange = records.filter(record => new Date(record.timestamp) >= since);
+
+  const totals = summarizeUsage(inRange);
+  const conversations = groupUsage(inRange, record => record.conversationId);
+  const perStep = groupUsage(inRange, record => record.step);
+  const estimatedCalls = inRange.filter(record => record.estimatedTokens).length;
+
+  // One bar per day, stacked by pipeline step, including days without calls
+  const perDay = Array.from({ length: rangeDays }, (_, index) => {
+    const date = new Date(since);
+    date.setDate(since.getDate() + index);
+    const day = getUsageDay({ timestamp: date.toISOString() });
+    const dayRecords = inRange.filter(record => getUsageDay(record) === day);
+    return {
+      day: day.slice(5),
+      ...Object.fromEntries(LLM_PIPELINE_STEPS.map(step => [
+        step,
+        roundCost(dayRecords.filter(record => record.step === step).reduce((sum, record) => sum + record.cost, 0)),
+      ])),
+    };
+  });
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `llm-usage-${getUsageDay({ timestamp: new Date().toISOString() })}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const added = importUsageRecords(JSON.parse(await file.text()));
+      setRecords(loadUsageRecords());
+      toast({
+        title: "Usage Imported",
+        description: `Added ${added} calls from ${file.name}.`,
+      });
+    } catch (importError) {
+      console.error('Failed to import usage records:', importError);
+      toast({
+        title: "Import Failed",
+        description: importError instanceof Error ? importError.message : `Could not read ${file.name}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all recorded LLM usage from this browser?')) return;
+    clearUsageRecords();
+    setRecords([]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="w-full animate-fade-in">
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Coins className="w-5 h-5 text-primary" />
+                LLM Usage and Cost
+              </CardTitle>
+              <CardDescription>
+                Every model call made from this browser, with estimated cost at list prices.
+              </CardDescription>
+            </div>
+            <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGES.map(range => (
+                  <SelectItem key={range.days} value={String(range.days)}>{range.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Spend</p>
+              <p className="text-xl font-semibold">{formatCost(totals.cost)}</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Per conversation</p>
+              <p className="text-xl font-semibold">{formatCost(conversations.length ? conversations.reduce((sum, group) => sum + group.cost, 0) / conversations.length : 0)}</p>
+              <p className="text-xs text-muted-foreground">{conversations.length} conversations</p>
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Calls</p>
+              <p className="text-xl font-semibold">{totals.calls}</p>
+              {totals.failedCalls > 0 && <p className="text-xs text-red-700">{totals.failedCalls} failed</p>}
+            </div>
+            <div className="p-3 border rounded-lg">
+              <p className="text-xs text-muted-foreground">Tokens in / out</p>
+              <p className="text-xl font-semibold">{totals.inputTokens.toLocaleString()} / {totals.outputTokens.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">avg {Math.round(totals.averageLatencyMs).toLocaleString()} ms per call</p>
+            </div>
+          </div>
+          {estimatedCalls > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {estimatedCalls} calls didn't report token usage (streamed answers from some providers); their counts are estimated from the text.
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 pt-2">
+            <Button type="button" variant="outline" size="sm" onClick={handleExport} disabled={records.length === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+            <Button type="button" variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+                <input type="file" accept=".json" className="hidden" onChange={handleImport} />
+              </label>
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={handleClear} disabled={records.length === 0}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Usage is stored in this browser only, so it covers your own calls. Export and import move it between browsers.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="w-full animate-fade-in">
+        <CardHeader>
+          <CardTitle className="text-lg">Spend per Day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={STEP_CHART_CONFIG} className="h-64 w-full aspect-auto">
+            <BarChart data={perDay}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} width={50} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {LLM_PIPELINE_STEPS.map(step => (
+                <Bar key={step} dataKey={step} stackId="cost" fill={`var(--color-${step})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card className="w-full animate-fade-in">
+        <CardHeader>
+          <CardTitle className="text-lg">Spend per Step</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChartContainer config={COST_CHART_CONFIG} className="h-48 w-full aspect-auto">
+            <BarChart data={perStep.map(group => ({ name: getStepLabel(group.key), cost: roundCost(group.cost) }))} layout="vertical">
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={110} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="cost" fill="var(--color-cost)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead>Calls</TableHead>
+                <TableHead>Tokens</TableHead>
+                <TableHead>Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {perStep.map(group => (
+                <TableRow key={group.key}>
+                  <TableCell className="text-xs font-medium">{getStepLabel(group.key)}</TableCell>
+                  <TableCell className="text-xs">{group.calls}</TableCell>
+                  <TableCell className="text-xs">{(group.inputTokens + group.outputTokens).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs">{formatCost(group.cost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {conversations.length > 0 && (
+        <Card className="w-full animate-fade-in">
+          <CardHeader>
+            <CardTitle className="text-lg">Most Expensive Conversations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Conversation</TableHead>
+                  <TableHead>Calls</TableHead>
+                  <TableHead>Avg latency</TableHead>
+                  <TableHead>Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conversations.slice(0, 10).map(group => (
+                  <TableRow key={group.key}>
+                    <TableCell className="font-mono text-xs">{group.key}</TableCell>
+                    <TableCell className="text-xs">{group.calls}</TableCell>
+                    <TableCell className="text-xs">{Math.round(group.averageLatencyMs).toLocaleString()} ms</TableCell>
+                    <TableCell className="text-xs">{formatCost(group.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default UsageDashboard;
@@ -1,30 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { fetchConversation, formatConversationForAnalysis } from '../services/intercomApi';
+import { searchConversations, fetchContactEnrichment, writeBackIssueToConversation } from '../services/intercomApi';
 import { 
   detectBugFromConversation, 
+  generateEnhancedGitHubIssue,
+  prepareConversationForAnalysis,
+  translateConversation,
   type BugDetectionResult,
 } from '../services/llmApi';
 import { createGitHubIssue, type GitHubIssueData, type CreatedGitHubIssue } from '../services/githubApi';
-import type { ProcessedConversation } from '../types/conversation';
+import { DEFAULT_WORKSPACE_ID } from '../services/intercomWorkspaces';
+import { getSupportProvider } from '../services/supportProviders';
+import { importTranscript } from '../services/transcriptImport';
+import { rehostAttachments } from '../services/attachmentStore';
+import { needsTranslation, withDetectedLanguage } from '../utils/language';
+import type { ProcessedConversation, IntercomSearchFilters, IntercomSourceType, EnhancedIssueContext, IssueDraft } from '../types/conversation';
+import type { SupportProviderId } from '../types/supportProvider';
+import type { TranscriptRecording } from '../types/transcript';
+import type { AttachmentSource } from '../types/attachments';
 
 // Query Keys - Centralized and type-safe
 export const queryKeys = {
-  conversation: (id: string) => ['conversation', id] as const,
-  bugDetection: (conversationId: string) => ['bugDetection', conversationId] as const,
+  conversation: (
+    workspaceId: string,
+    id: string,
+    sourceType: IntercomSourceType = 'conversation',
+    provider: SupportProviderId = 'intercom'
+  ) => ['conversation', provider, workspaceId, sourceType, id] as const,
+  bugDetection: (
+    workspaceId: string,
+    conversationId: string,
+    sourceType: IntercomSourceType = 'conversation',
+    provider: SupportProviderId = 'intercom'
+  ) => ['bugDetection', provider, workspaceId, sourceType, conversationId] as const,
+  contactEnrichment: (workspaceId: string, contactId: string) => ['contactEnrichment', workspaceId, contactId] as const,
   githubIssue: (conversationId: string, title: string) => ['githubIssue', conversationId, title] as const,
+  translation: (
+    workspaceId: string,
+    conversationId: string,
+    sourceType: IntercomSourceType = 'conversation',
+    provider: SupportProviderId = 'intercom'
+  ) => ['translation', provider, workspaceId, sourceType, conversationId] as const,
+};
+
+// Tickets and other platforms' conversations are all cached as conversations, with their language detected
+const fetchFromProvider = async (
+  id: string,
+  workspaceId: string,
+  sourceType: IntercomSourceType,
+  provider: SupportProviderId
+) => {
+  const response = await getSupportProvider(provider).fetchConversation({ provider, type: sourceType, id, workspaceId });
+  return response.data ? { ...response, data: withDetectedLanguage(response.data) } : response;
 };
 
 /**
- * Hook to fetch and cache conversation data
+ * Hook to fetch and cache conversation (or ticket) data
  */
-export const useConversation = (conversationId: string | null) => {
+export const useConversation = (
+  conversationId: string | null,
+  workspaceId: string = DEFAULT_WORKSPACE_ID,
+  sourceType: IntercomSourceType = 'conversation',
+  provider: SupportProviderId = 'intercom'
+) => {
   return useQuery({
-    queryKey: conversationId ? queryKeys.conversation(conversationId) : ['conversation', 'empty'],
+    queryKey: conversationId
+      ? queryKeys.conversation(workspaceId, conversationId, sourceType, provider)
+      : ['conversation', 'empty'],
     queryFn: async () => {
       if (!conversationId) throw new Error('No conversation ID provided');
       
-      console.log(`[Cache] Fetching conversation ${conversationId} from API...`);
-      const response = await fetchConversation(conversationId);
+      console.log(`[Cache] Fetching ${sourceType} ${conversationId} from API...`);
+      const response = await fetchFromProvider(conversationId, workspaceId, sourceType, provider);
       if (!response.success || !response.data) {
         throw new Error(response.error?.message || 'Failed to fetch conversation');
       }
@@ -46,19 +93,21 @@ export const useConversation = (conversationId: string | null) => {
  */
 export const useBugDetection = (conversation: ProcessedConversation | null) => {
   return useQuery({
-    queryKey: conversation?.id ? queryKeys.bugDetection(conversation.id) : ['bugDetection', 'empty'],
+    queryKey: conversation?.id
+      ? queryKeys.bugDetection(conversation.workspaceId || DEFAULT_WORKSPACE_ID, conversation.id, conversation.sourceType, conversation.provider)
+      : ['bugDetection', 'empty'],
     queryFn: async () => {
       if (!conversation) throw new Error('No conversation provided');
       
       console.log(`[Cache] Analyzing conversation ${conversation.id} for bugs...`);
-      const conversationData = formatConversationForAnalysis(conversation);
+      const { conversationData, condensation } = await prepareConversationForAnalysis(conversation);
       const response = await detectBugFromConversation(conversation, conversationData);
       
       if (!response.success || !response.data) {
         throw new Error(response.error?.message || 'Failed to detect bugs');
       }
       console.log(`[Cache] Bug analysis complete for conversation ${conversation.id}`);
-      return response.data;
+      return { ...response.data, condensation };
     },
     enabled: !!conversation?.id,
     staleTime: 1000 * 60 * 60 * 2, // 2 hours - bug detection is expensive and results are very stable
@@ -70,6 +119,63 @@ export const useBugDetection = (conversation: ProcessedConversation | null) => {
   });
 };
 
+/**
+ * Hook to translate a non-English conversation into English before analysis
+ */
+export const useConversationTranslation = (conversation: ProcessedConversation | null | undefined) => {
+  const shouldTranslate = needsTranslation(conversation);
+
+  return useQuery({
+    queryKey: shouldTranslate
+      ? queryKeys.translation(conversation!.workspaceId || DEFAULT_WORKSPACE_ID, conversation!.id, conversation!.sourceType, conversation!.provider)
+      : ['translation', 'empty'],
+    queryFn: async () => {
+      if (!conversation) throw new Error('No conversation provided');
+
+      console.log(`[Cache] Translating conversation ${conversation.id}...`);
+      const response = await translateConversation(conversation);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to translate conversation');
+      }
+      return response.data;
+    },
+    enabled: shouldTranslate,
+    staleTime: 1000 * 60 * 60 * 2, // Translations only change if the conversation does
+    gcTime: 1000 * 60 * 60 * 4,
+    retry: 1,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+  });
+};
+
+/**
+ * Hook to fetch contact and company details used to pre-fill the issue template
+ */
+export const useContactEnrichment = (conversation: ProcessedConversation | null) => {
+  // Only Intercom conversations carry a contactId, so other providers skip enrichment
+  const contactId = conversation?.contactId;
+  const workspaceId = conversation?.workspaceId || DEFAULT_WORKSPACE_ID;
+
+  return useQuery({
+    queryKey: contactId ? queryKeys.contactEnrichment(workspaceId, contactId) : ['contactEnrichment', 'empty'],
+    queryFn: async () => {
+      if (!contactId) throw new Error('No contact ID provided');
+
+      const response = await fetchContactEnrichment(contactId, workspaceId);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to fetch contact details');
+      }
+      return response.data;
+    },
+    enabled: !!contactId,
+    staleTime: 1000 * 60 * 15,
+    gcTime: 1000 * 60 * 60,
+    retry: 1,
+    refetchOnWindowFocus: false,
+    refetchOnMount: false,
+  });
+};
+
 /**
  * Hook to create GitHub issues directly
  */
@@ -97,19 +203,178 @@ export const useCreateGitHubIssue = () => {
   });
 };
 
+/**
+ * Hook to post the created GitHub issue back to the Intercom conversation
+ */
+export const useIntercomWriteBack = () => {
+  return useMutation({
+    mutationFn: async ({ conversationId, workspaceId, sourceType, issue }: {
+      conversationId: string;
+      workspaceId?: string;
+      sourceType?: IntercomSourceType;
+      issue: CreatedGitHubIssue;
+    }) => {
+      const response = await writeBackIssueToConversation(conversationId, issue, workspaceId, sourceType);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to update Intercom conversation');
+      }
+      return response.data;
+    },
+    retry: 1,
+  });
+};
+
+/**
+ * Hook to copy conversation attachments and uploaded screenshots into the attachment store
+ */
+export const useAttachmentRehost = () => {
+  return useMutation({
+    mutationFn: ({ sources, conversation }: {
+      sources: AttachmentSource[];
+      conversation: Pick<ProcessedConversation, 'id' | 'provider'>;
+    }) => rehostAttachments(sources, conversation),
+  });
+};
+
+/**
+ * Hook to stream an AI-written issue title and body. The draft updates as the model writes;
+ * cancelling or a failure mid-stream keeps what was written so it can be edited
+ */
+export const useStreamingIssueGeneration = () => {
+  const [draft, setDraft] = useState<IssueDraft | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Don't keep streaming into an unmounted template
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const generate = useCallback(async ({ conversation, originalConversation, enhancedContext, bypassCache }: {
+    // The English copy used for analysis, and the customer's original when it was translated
+    conversation: ProcessedConversation;
+    originalConversation?: ProcessedConversation;
+    enhancedContext: EnhancedIssueContext;
+    // Regenerating asks the model again rather than replaying the cached draft
+    bypassCache?: boolean;
+  }) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setDraft({ title: '', body: '' });
+    setError(null);
+    setIsStreaming(true);
+
+    try {
+      const { conversationData } = await prepareConversationForAnalysis(conversation);
+      const response = await generateEnhancedGitHubIssue(conversation, conversationData, enhancedContext, originalConversation, {
+        onDraft: (partial) => {
+          if (!controller.signal.aborted) setDraft(partial);
+        },
+        signal: controller.signal,
+        bypassCache,
+      });
+
+      if (response.success && response.data) {
+        setDraft({ title: response.data.issueTemplate.title, body: response.data.issueTemplate.body });
+      } else if (response.error?.code !== 'CANCELLED') {
+        setError(response.error?.message || 'Failed to generate issue');
+      }
+    } catch (generationError) {
+      setError(generationError instanceof Error ? generationError.message : 'Failed to generate issue');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const discard = useCallback(() => {
+    controllerRef.current?.abort();
+    setDraft(null);
+    setError(null);
+  }, []);
+
+  return { draft, setDraft, isStreaming, error, generate, cancel, discard };
+};
+
+/**
+ * Hook to bulk import conversations via Intercom search, seeding the conversation cache
+ */
+export const useBulkConversationImport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ filters, workspaceId }: { filters: IntercomSearchFilters; workspaceId?: string }) => {
+      const response = await searchConversations(filters, workspaceId);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to import conversations');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      // Seed the cache so picking an imported conversation doesn't refetch it
+      data.conversations.forEach(conversation => {
+        queryClient.setQueryData(
+          queryKeys.conversation(conversation.workspaceId || DEFAULT_WORKSPACE_ID, conversation.id),
+          withDetectedLanguage(conversation)
+        );
+      });
+      console.log(`[Cache] Seeded ${data.conversations.length} imported conversations`);
+    },
+  });
+};
+
+/**
+ * Hook to import a pasted transcript or export file, seeding the conversation cache
+ */
+export const useTranscriptImport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (recording: TranscriptRecording) => {
+      const response = importTranscript(recording);
+
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to import transcript');
+      }
+      return response.data;
+    },
+    onSuccess: ({ conversation }) => {
+      // Imports can't be refetched, so the cache is the only copy
+      queryClient.setQueryData(
+        queryKeys.conversation(conversation.workspaceId, conversation.id, conversation.sourceType, conversation.provider),
+        withDetectedLanguage(conversation)
+      );
+      console.log(`[Cache] Seeded imported conversation ${conversation.id}`);
+    },
+  });
+};
+
 /**
  * Hook to prefetch conversation data (for performance optimization)
  */
 export const usePrefetchConversation = () => {
   const queryClient = useQueryClient();
   
-  return (conversationId: string) => {
+  return (
+    conversationId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+    sourceType: IntercomSourceType = 'conversation',
+    provider: SupportProviderId = 'intercom'
+  ) => {
     if (!conversationId) return;
     
     queryClient.prefetchQuery({
-      queryKey: queryKeys.conversation(conversationId),
+      queryKey: queryKeys.conversation(workspaceId, conversationId, sourceType, provider),
       queryFn: async () => {
-        const response = await fetchConversation(conversationId);
+        const response = await fetchFromProvider(conversationId, workspaceId, sourceType, provider);
         if (!response.success || !response.data) {
           throw new Error(response.error?.message || 'Failed to fetch conversation');
         }
@@ -123,7 +388,12 @@ export const usePrefetchConversation = () => {
 /**
  * Hook to check if we have cached data for a conversation
  */
-export const useConversationCache = (conversationId: string | null) => {
+export const useConversationCache = (
+  conversationId: string | null,
+  workspaceId: string = DEFAULT_WORKSPACE_ID,
+  sourceType: IntercomSourceType = 'conversation',
+  provider: SupportProviderId = 'intercom'
+) => {
   const queryClient = useQueryClient();
   
   if (!conversationId) return { 
@@ -133,8 +403,8 @@ export const useConversationCache = (conversationId: string | null) => {
     bugDetectionCached: false 
   };
   
-  const conversationCache = queryClient.getQueryData(queryKeys.conversation(conversationId));
-  const bugDetectionCache = queryClient.getQueryData(queryKeys.bugDetection(conversationId));
+  const conversationCache = queryClient.getQueryData(queryKeys.conversation(workspaceId, conversationId, sourceType, provider));
+  const bugDetectionCache = queryClient.getQueryData(queryKeys.bugDetection(workspaceId, conversationId, sourceType, provider));
   
   // Add some debugging
   console.log(`[Cache Check] Conversation ${conversationId}:`, {
@@ -155,7 +425,12 @@ export const useConversationCache = (conversationId: string | null) => {
 /**
  * Hook to get query status across all conversation-related queries
  */
-export const useConversationQueryStatus = (conversationId: string | null) => {
+export const useConversationQueryStatus = (
+  conversationId: string | null,
+  workspaceId: string = DEFAULT_WORKSPACE_ID,
+  sourceType: IntercomSourceType = 'conversation',
+  provider: SupportProviderId = 'intercom'
+) => {
   const queryClient = useQueryClient();
   
   if (!conversationId) {
@@ -167,8 +442,8 @@ export const useConversationQueryStatus = (conversationId: string | null) => {
     };
   }
   
-  const conversationQuery = queryClient.getQueryState(queryKeys.conversation(conversationId));
-  const bugDetectionQuery = queryClient.getQueryState(queryKeys.bugDetection(conversationId));
+  const conversationQuery = queryClient.getQueryState(queryKeys.conversation(workspaceId, conversationId, sourceType, provider));
+  const bugDetectionQuery = queryClient.getQueryState(queryKeys.bugDetection(workspaceId, conversationId, sourceType, provider));
   
   return {
     isAnyLoading: conversationQuery?.status === 'pending' || bugDetectionQuery?.status === 'pending',
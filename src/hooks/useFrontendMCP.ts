@@ -1,6 +1,7 @@
 import { useState, useCallback } from 'react';
 import { FrontendMCPClient } from '../services/frontendMCP';
 import { GitHubSearchService } from '../services/githubSearch';
+import { getLLMProviderConfig } from '../services/llmProviders';
 import type { MCPConfig, AIAnalyzedIssue, MCPAnalysisResult } from '../types/mcp';
 import type { ProcessedConversation, GitHubIssueTemplate, EnhancedIssueContext } from '../types/conversation';
 
@@ -41,8 +42,8 @@ export const useFrontendMCP = () => {
       }
     }
 
-    // Validate OpenAI key if not using local AI
-    if (!config.useLocalAI && !config.openaiKey) {
+    // Validate OpenAI key if duplicate analysis runs on OpenAI
+    if (!config.useLocalAI && getLLMProviderConfig('duplicateAnalysis').kind === 'openai' && !config.openaiKey) {
       errors.push('OpenAI API key is required when not using local AI');
     }
 
@@ -105,7 +106,7 @@ export const useFrontendMCP = () => {
         analyzed_issues: analyzedIssues,
         total_searched: analyzedIssues.length,
         search_time_ms: endTime - startTime,
-        ai_model_used: client['config'].useLocalAI ? 'WebLLM (Local)' : 'OpenAI GPT-4'
+        ai_model_used: client.modelLabel
       };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Analysis failed';
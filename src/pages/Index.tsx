@@ -7,24 +7,44 @@ import IssueTemplate from "@/components/IssueTemplate";
 import EnvironmentSetup from "@/components/EnvironmentSetup";
 import MCPConfiguration from "@/components/MCPConfiguration";
 import AIDuplicateAnalysis from "@/components/AIDuplicateAnalysis";
+import BulkConversationImport from "@/components/BulkConversationImport";
+import AttributeMappingSettings from "@/components/AttributeMappingSettings";
+import PromptRegistrySettings from "@/components/PromptRegistrySettings";
+import EvaluationHarness from "@/components/EvaluationHarness";
+import UsageDashboard from "@/components/UsageDashboard";
+import ResponseCacheSettings from "@/components/ResponseCacheSettings";
+import FewShotPromotion from "@/components/FewShotPromotion";
+import FewShotLibrarySettings from "@/components/FewShotLibrarySettings";
 import { useToast } from "@/hooks/use-toast";
-import { useConversation, useBugDetection, useCreateGitHubIssue, useConversationQueryStatus, useConversationCache } from "@/hooks/conversation";
+import { useConversation, useBugDetection, useCreateGitHubIssue, useConversationQueryStatus, useConversationCache, useBulkConversationImport, useTranscriptImport, useContactEnrichment, useConversationTranslation, useIntercomWriteBack, queryKeys } from "@/hooks/conversation";
 import { useFrontendMCP } from "@/hooks/useFrontendMCP";
 import { useQueryClient } from '@tanstack/react-query';
 import { validateApiConfiguration } from "@/services/llmApi";
+import { getConversationUrl, resolveSupportReference } from "@/services/supportProviders";
+import { createConversationRedactor } from "@/services/redaction";
+import { IMPORT_WORKSPACE_ID } from "@/services/transcriptImport";
+import { formatAttachmentsMarkdown } from "@/services/attachmentStore";
+import { htmlToMarkdown } from "@/utils/htmlToMarkdown";
+import { applyTranslation, formatOriginalLanguageSection, needsTranslation } from "@/utils/language";
+import { DEFAULT_WORKSPACE_ID, extractAppId, getIntercomWorkspace, getIntercomWorkspaces, resolveWorkspaceFromUrl } from "@/services/intercomWorkspaces";
 import type {  CreatedGitHubIssue } from "@/services/githubApi";
 import type { MCPConfig, MCPAnalysisResult } from "@/types/mcp";
-import type { EnhancedIssueContext } from "@/types/conversation";
+import type { SupportProviderId, SupportReference } from "@/types/supportProvider";
+import type { TranscriptRecording } from "@/types/transcript";
+import type { EnhancedIssueContext, IntercomSearchFilters, IntercomSourceType, ProcessedConversation } from "@/types/conversation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, RefreshCw, ExternalLink, Zap, Settings, Brain } from "lucide-react";
+import { CheckCircle, RefreshCw, ExternalLink, Zap, Settings, Brain, MessageSquare, AlertTriangle, SlidersHorizontal, FileCode, FlaskConical, BarChart3, Library } from "lucide-react";
 
 type AppStep = 'mcp-config' | 'input' | 'conversation-ready' | 'not-a-bug' | 'enhancement' | 'ai-analysis' | 'complete';
 
 const Index = () => {
   const [currentStep, setCurrentStep] = useState<AppStep>('input');
   const [conversationId, setConversationId] = useState<string | null>(null);
+  const [sourceType, setSourceType] = useState<IntercomSourceType>('conversation');
+  const [provider, setProvider] = useState<SupportProviderId>('intercom');
+  const [workspaceId, setWorkspaceId] = useState<string>(getIntercomWorkspace()?.id || DEFAULT_WORKSPACE_ID);
   const [currentUrl, setCurrentUrl] = useState<string>('');
   const [apiConfigValid, setApiConfigValid] = useState(true);
   const [missingVars, setMissingVars] = useState<string[]>([]);
@@ -32,15 +52,35 @@ const Index = () => {
   const [mcpAnalysisResult, setMCPAnalysisResult] = useState<MCPAnalysisResult | null>(null);
   const [enhancedContext, setEnhancedContext] = useState<EnhancedIssueContext | null>(null);
   const [showMCPConfig, setShowMCPConfig] = useState(false);
+  const [showAttributeSettings, setShowAttributeSettings] = useState(false);
+  const [showPromptSettings, setShowPromptSettings] = useState(false);
+  const [showEvaluation, setShowEvaluation] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showFewShotLibrary, setShowFewShotLibrary] = useState(false);
   const { toast } = useToast();
 
   // TanStack Query hooks
   const queryClient = useQueryClient();
-  const conversationQuery = useConversation(conversationId);
-  const bugDetectionQuery = useBugDetection(conversationQuery.data || null);
+  const conversationQuery = useConversation(conversationId, workspaceId, sourceType, provider);
+  const translationQuery = useConversationTranslation(conversationQuery.data);
+  // Bug detection runs on the English text; if translation fails the original is analyzed as-is
+  const analysisConversation = !conversationQuery.data
+    ? null
+    : !needsTranslation(conversationQuery.data) || translationQuery.isError
+      ? conversationQuery.data
+      : translationQuery.data
+        ? applyTranslation(conversationQuery.data, translationQuery.data)
+        : null;
+  const bugDetectionQuery = useBugDetection(analysisConversation);
+  const contactEnrichmentQuery = useContactEnrichment(conversationQuery.data || null);
   const createIssueMutation = useCreateGitHubIssue();
-  const queryStatus = useConversationQueryStatus(conversationId);
-  const cacheStatus = useConversationCache(conversationId);
+  const bulkImportMutation = useBulkConversationImport();
+  const transcriptImportMutation = useTranscriptImport();
+  const intercomWriteBackMutation = useIntercomWriteBack();
+  const { mutate: writeBackToIntercom } = intercomWriteBackMutation;
+  const queryStatus = useConversationQueryStatus(conversationId, workspaceId, sourceType, provider);
+  const cacheStatus = useConversationCache(conversationId, workspaceId, sourceType, provider);
+  const activeWorkspace = getIntercomWorkspace(workspaceId);
   
   // MCP hooks
   const mcp = useFrontendMCP();
@@ -52,32 +92,45 @@ const Index = () => {
     setMissingVars(validation.missingVars);
   }, []);
 
-  // Extract conversation ID from URL
-  const extractConversationId = (url: string): string | null => {
-    try {
-      const regex = /\/conversation[s]?\/(\d+)/;
-      const match = url.match(regex);
-      return match ? match[1] : null;
-    } catch {
-      return null;
-    }
-  };
-
-  // Handle conversation analysis
+  // Handle conversation (or ticket) analysis
   const handleAnalyzeConversation = async (url: string) => {
-    const id = extractConversationId(url);
+    const reference = resolveSupportReference(url);
     
-    if (!id) {
+    if (!reference) {
       toast({
         title: "Invalid URL",
-        description: "Could not extract conversation ID from the URL. Please check the format.",
+        description: "Could not extract a conversation or ticket ID from the URL. Please check the format.",
         variant: "destructive",
       });
       return;
     }
 
+    // Fetching with another workspace's token would only come back as "not found"
+    const appId = reference.provider === 'intercom' ? extractAppId(url) : null;
+    if (appId && !resolveWorkspaceFromUrl(url)) {
+      toast({
+        title: "Unknown Workspace",
+        description: `Unknown Intercom workspace for app ${appId}. Add the app ID to a profile in VITE_INTERCOM_WORKSPACES.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    analyzeReference(reference, url);
+  };
+
+  // Starts analysis of a conversation that is already identified, reusing cached results when there are any
+  const analyzeReference = (reference: SupportReference, url: string) => {
+    const { id, type, workspaceId: urlWorkspaceId } = reference;
+
     // Check if this is the same URL as current
-    if (url === currentUrl && conversationId === id) {
+    if (
+      url === currentUrl &&
+      conversationId === id &&
+      sourceType === type &&
+      provider === reference.provider &&
+      workspaceId === urlWorkspaceId
+    ) {
       toast({
         title: "Same Conversation",
         description: "This conversation is already being analyzed.",
@@ -90,11 +143,14 @@ const Index = () => {
     const previousId = conversationId;
     setCurrentUrl(url);
     setConversationId(id);
+    setSourceType(type);
+    setProvider(reference.provider);
+    setWorkspaceId(urlWorkspaceId);
 
     // Check if we have cached data for this specific conversation ID
     // Note: We need to check cache after setting the ID, but before setting step
-    const conversationCache = queryClient.getQueryData(['conversation', id]);
-    const bugDetectionCache = queryClient.getQueryData(['bugDetection', id]);
+    const conversationCache = queryClient.getQueryData(queryKeys.conversation(urlWorkspaceId, id, type, reference.provider));
+    const bugDetectionCache = queryClient.getQueryData(queryKeys.bugDetection(urlWorkspaceId, id, type, reference.provider));
 
     if (conversationCache && bugDetectionCache) {
       console.log('[Cache] Found complete cached data for conversation', id);
@@ -121,6 +177,73 @@ const Index = () => {
     console.log('[Cache] Starting analysis for conversation', id);
   };
 
+  // Handle bulk import via Intercom search
+  const handleBulkImport = async (filters: IntercomSearchFilters, importWorkspaceId?: string) => {
+    try {
+      const result = await bulkImportMutation.mutateAsync({ filters, workspaceId: importWorkspaceId });
+      toast({
+        title: "Conversations Imported",
+        description: `Imported ${result.conversations.length} of ${result.totalMatched} matching conversations.`,
+        variant: result.failedIds.length > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Bulk Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import conversations",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Imported conversations are already cached, so they go through the normal analysis flow
+  const handleSelectImportedConversation = (conversation: ProcessedConversation) => {
+    setCreatedIssue(null);
+    setMCPAnalysisResult(null);
+    setEnhancedContext(null);
+    createIssueMutation.reset();
+    // The conversation says where it came from; its URL may not identify the workspace
+    analyzeReference(
+      {
+        provider: conversation.provider || 'intercom',
+        type: conversation.sourceType || 'conversation',
+        id: conversation.id,
+        workspaceId: conversation.workspaceId || DEFAULT_WORKSPACE_ID,
+      },
+      getConversationUrl(conversation)
+    );
+  };
+
+  // Imported transcripts are already in the cache, so they go straight into the normal analysis flow
+  const handleImportTranscript = async (recording: TranscriptRecording) => {
+    try {
+      const { conversation, skippedConversations } = await transcriptImportMutation.mutateAsync(recording);
+
+      setCreatedIssue(null);
+      setMCPAnalysisResult(null);
+      setEnhancedContext(null);
+      createIssueMutation.reset();
+      setCurrentUrl('');
+      setConversationId(conversation.id);
+      setSourceType(conversation.sourceType || 'conversation');
+      setProvider('import');
+      setWorkspaceId(IMPORT_WORKSPACE_ID);
+      setCurrentStep('input'); // Will transition to 'conversation-ready' now that the data is cached
+
+      toast({
+        title: "Transcript Imported",
+        description: skippedConversations > 0
+          ? `Imported ${conversation.messages.length} messages. ${skippedConversations} more conversation(s) in the file were skipped.`
+          : `Imported ${conversation.messages.length} messages.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import transcript",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Handle conversation fetch and step progression
   useEffect(() => {
     if (conversationQuery.isSuccess && conversationQuery.data && currentStep === 'input') {
@@ -150,8 +273,30 @@ const Index = () => {
         title: "GitHub Issue Created!",
         description: `Issue #${createIssueMutation.data?.number} has been created successfully.`,
       });
+
+      // Let agents in Intercom see the issue link (other providers have no write-back yet)
+      const isIntercom = (conversationQuery.data?.provider || 'intercom') === 'intercom';
+      if (conversationQuery.data && createIssueMutation.data && isIntercom) {
+        writeBackToIntercom(
+          {
+            conversationId: conversationQuery.data.id,
+            workspaceId: conversationQuery.data.workspaceId,
+            sourceType: conversationQuery.data.sourceType,
+            issue: createIssueMutation.data,
+          },
+          {
+            onError: (error) => {
+              toast({
+                title: "Intercom Not Updated",
+                description: error instanceof Error ? error.message : "Failed to post the issue link to Intercom",
+                variant: "destructive",
+              });
+            },
+          }
+        );
+      }
     }
-  }, [createIssueMutation.isSuccess, currentStep, toast, createIssueMutation.data]);
+  }, [createIssueMutation.isSuccess, currentStep, toast, createIssueMutation.data, conversationQuery.data, writeBackToIntercom]);
 
   // Handle MCP configuration
   const handleMCPConfigured = async (config: MCPConfig) => {
@@ -167,18 +312,51 @@ const Index = () => {
     }
   };
 
-  // Generate initial template helper
+  // Conversations are mapped when fetched, so refetch them under the new rules
+  const handleAttributeMappingSaved = () => {
+    // Imported transcripts can't be refetched, so they keep their current mapping
+    queryClient.invalidateQueries({
+      queryKey: ['conversation'],
+      predicate: (query) => query.queryKey[1] !== 'import',
+    });
+    toast({
+      title: "Attribute Mapping Saved",
+      description: "Conversations will be re-processed with the updated rules.",
+    });
+  };
+
+  // Prompts are read when a request is made, so cached results keep the version that produced them
+  const handlePromptsSaved = () => {
+    toast({
+      title: "Prompt Registry Saved",
+      description: "New analyses will use the active prompt versions.",
+    });
+  };
+
+  // Generate initial template helper; the result is redacted because it is sent to GitHub
   const generateInitialTemplate = (conversation: any, bugDetection: any, context: EnhancedIssueContext) => {
+    const redactor = createConversationRedactor(conversation);
+    if (context.issueDraft) {
+      return {
+        title: redactor.redact(context.issueDraft.title),
+        body: redactor.redact(context.issueDraft.body),
+        labels: ['intercom', 'bug', 'customer-support', `severity-${bugDetection.severity}`],
+        priority: context.customerImpact
+      };
+    }
     return {
-      title: bugDetection.initialAnalysis.title,
-      body: `## Description of the issue
+      title: redactor.redact(bugDetection.initialAnalysis.title),
+      body: redactor.redact(`## Description of the issue
 ${bugDetection.initialAnalysis.description}
 
 ## Issue details
 
 **APP ID:**
 ${context.appId}
-
+${context.ticketCategory || context.affectedFeature ? `
+**Ticket category:** ${context.ticketCategory || 'N/A'}
+**Affected feature:** ${context.affectedFeature || 'N/A'}
+` : ''}
 **1. What is the error message?**
 ${context.errorMessages || 'N/A'}
 
@@ -198,18 +376,19 @@ ${context.browserInfo || 'Not specified'}
 Not specified
 
 ## Evidence
-**Screenshots URLs:**
-${context.screenshots.map(s => s.url).join('\n') || 'No screenshots provided in conversation'}
+**Screenshots and attachments:**
+${formatAttachmentsMarkdown(context.screenshots) || 'No screenshots provided in conversation'}
 
 ## Links
 Link to the affected conversation:
-https://app.intercom.io/inbox/conversation/${conversation.id}
+${getConversationUrl(conversation) || 'Imported transcript (no link available)'}
 
 ## Steps to reproduce
 ${context.additionalSteps || 'Please refer to the conversation for reproduction steps.'}
 
 ## Technical Details
-${context.technicalDetails || 'N/A'}`,
+${context.technicalDetails || 'N/A'}
+${formatOriginalLanguageSection(conversation)}`),
       labels: ['intercom', 'bug', 'customer-support', `severity-${bugDetection.severity}`],
       priority: context.customerImpact
     };
@@ -225,7 +404,7 @@ ${context.technicalDetails || 'N/A'}`,
       try {
         const template = generateInitialTemplate(conversationQuery.data, bugDetectionQuery.data, context);
         const result = await mcp.analyzeForDuplicates(
-          conversationQuery.data,
+          analysisConversation || conversationQuery.data,
           template,
           context
         );
@@ -267,6 +446,7 @@ ${context.technicalDetails || 'N/A'}`,
         title: issueData.title,
         body: issueData.body,
         labels: issueData.labels,
+        repository: activeWorkspace?.githubTarget,
       });
     } catch (error) {
       toast({
@@ -317,6 +497,7 @@ ${context.technicalDetails || 'N/A'}`,
     setMCPAnalysisResult(null);
     setEnhancedContext(null);
     createIssueMutation.reset();
+    intercomWriteBackMutation.reset();
     // Note: We don't clear conversationId to preserve cache
   };
 
@@ -329,6 +510,7 @@ ${context.technicalDetails || 'N/A'}`,
     setMCPAnalysisResult(null);
     setEnhancedContext(null);
     createIssueMutation.reset();
+    intercomWriteBackMutation.reset();
   };
 
   // Handle errors
@@ -353,16 +535,38 @@ ${context.technicalDetails || 'N/A'}`,
     }
   }, [bugDetectionQuery.isError, bugDetectionQuery.error, toast]);
 
+  // Bug detection still runs on the original text, so say why the analysis may be less reliable
+  useEffect(() => {
+    if (translationQuery.isError) {
+      toast({
+        title: "Translation Failed",
+        description: `${translationQuery.error?.message || "The conversation could not be translated"}. Bug detection will analyze the original text.`,
+        variant: "destructive",
+      });
+    } else if (translationQuery.data?.untranslatedIds) {
+      toast({
+        title: "Partly Translated",
+        description: `${translationQuery.data.untranslatedIds.length} parts of the thread could not be translated and are analyzed in the original language.`,
+        variant: "destructive",
+      });
+    }
+  }, [translationQuery.isError, translationQuery.error, translationQuery.data, toast]);
+
   // Convert ProcessedConversation to ConversationSummary props format
   const getConversationSummaryProps = () => {
     if (!conversationQuery.data) return null;
     
     const conversation = conversationQuery.data;
+    const translation = translationQuery.data;
     return {
       title: conversation.title,
+      language: conversation.language,
+      isTranslating: translationQuery.isFetching,
+      translationFailed: translationQuery.isError || !!translation?.untranslatedIds,
       customer: {
         name: conversation.customerName,
         email: conversation.customerEmail,
+        company: contactEnrichmentQuery.data?.companies[0]?.name,
       },
       priority: conversation.priority,
       status: conversation.status,
@@ -370,12 +574,28 @@ ${context.technicalDetails || 'N/A'}`,
         id: msg.id,
         author: msg.author.name,
         role: msg.author.type === 'customer' ? 'customer' as const : 'admin' as const,
-        content: msg.body.replace(/<[^>]*>/g, ''), // Strip HTML
+        content: htmlToMarkdown(msg.body),
+        translation: translation?.texts[msg.id],
         timestamp: msg.createdAt,
       })),
+      events: conversation.timeline
+        .filter(event => event.kind !== 'comment' && event.kind !== 'other')
+        .map(event => ({
+          id: event.id,
+          kind: event.kind,
+          author: event.author.name,
+          content: event.body ? htmlToMarkdown(event.body) : undefined,
+          timestamp: event.createdAt,
+          assignedTo: event.assignedTo,
+          tags: event.tags,
+        })),
       createdAt: conversation.createdAt,
       conversationId: conversation.id,
       updatedAt: conversation.updatedAt,
+      isPartialThread: conversation.isPartialThread,
+      ticket: conversation.ticket,
+      missingPartCount: conversation.missingPartCount,
+      evidence: bugDetectionQuery.data?.evidence,
     };
   };
 
@@ -391,6 +611,142 @@ ${context.technicalDetails || 'N/A'}`,
     );
   }
 
+  // Show custom attribute mapping settings
+  if (showAttributeSettings) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-6 py-8 max-w-4xl">
+          <div className="space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-2xl font-bold">Attribute Mapping</h1>
+                <p className="text-gray-600">Map your workspace's custom attributes to tags, priority and issue fields</p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setShowAttributeSettings(false)}
+              >
+                Back
+              </Button>
+            </div>
+
+            <AttributeMappingSettings onSaved={handleAttributeMappingSaved} />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Show prompt registry settings
+  if (showPromptSettings) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-6 py-8 max-w-4xl">
+          <div className="space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-2xl font-bold">Prompts</h1>
+                <p className="text-gray-600">Edit, version and compare the prompts used for analysis</p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setShowPromptSettings(false)}
+              >
+                Back
+              </Button>
+            </div>
+
+            <PromptRegistrySettings onSaved={handlePromptsSaved} />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Show the bug detection evaluation harness
+  if (showEvaluation) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-6 py-8 max-w-4xl">
+          <div className="space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-2xl font-bold">Evaluation</h1>
+                <p className="text-gray-600">Measure bug detection accuracy on labeled conversations</p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setShowEvaluation(false)}
+              >
+                Back
+              </Button>
+            </div>
+
+            <EvaluationHarness />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Show LLM usage and cost
+  if (showUsage) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-6 py-8 max-w-4xl">
+          <div className="space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-2xl font-bold">Usage</h1>
+                <p className="text-gray-600">Track LLM spend per day, pipeline step and TSE, and manage the response cache</p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setShowUsage(false)}
+              >
+                Back
+              </Button>
+            </div>
+
+            <UsageDashboard />
+            <ResponseCacheSettings />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Show the few-shot example library
+  if (showFewShotLibrary) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-6 py-8 max-w-4xl">
+          <div className="space-y-8">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-2xl font-bold">Example Library</h1>
+                <p className="text-gray-600">Past triage decisions shown to bug detection as worked examples</p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setShowFewShotLibrary(false)}
+              >
+                Back
+              </Button>
+            </div>
+
+            <FewShotLibrarySettings />
+          </div>
+        </main>
+      </div>
+    );
+  }
+
   // Show MCP Configuration
   if (showMCPConfig) {
     return (
@@ -449,18 +805,74 @@ ${context.technicalDetails || 'N/A'}`,
                   Setup AI Detection
                 </Button>
               )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAttributeSettings(true)}
+                className="flex items-center gap-2"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                Attribute Mapping
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowPromptSettings(true)}
+                className="flex items-center gap-2"
+              >
+                <FileCode className="w-4 h-4" />
+                Prompts
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowEvaluation(true)}
+                className="flex items-center gap-2"
+              >
+                <FlaskConical className="w-4 h-4" />
+                Evaluation
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowUsage(true)}
+                className="flex items-center gap-2"
+              >
+                <BarChart3 className="w-4 h-4" />
+                Usage
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowFewShotLibrary(true)}
+                className="flex items-center gap-2"
+              >
+                <Library className="w-4 h-4" />
+                Examples
+              </Button>
             </div>
         <div className="space-y-8">
           {/* Input Section - Always visible */}
           <div className="flex justify-between items-start">
             <ConversationInput
               onAnalyze={handleAnalyzeConversation}
-              isLoading={conversationQuery.isFetching}
+              onImport={handleImportTranscript}
+              isLoading={conversationQuery.isFetching || transcriptImportMutation.isPending}
             />
             
 
           </div>
 
+          {/* Bulk Import Section */}
+          <BulkConversationImport
+            onImport={handleBulkImport}
+            onSelect={handleSelectImportedConversation}
+            isLoading={bulkImportMutation.isPending}
+            result={bulkImportMutation.data}
+            activeConversationId={conversationId}
+            workspaces={getIntercomWorkspaces()}
+          />
+
           {/* Cache Status Indicator */}
           {conversationId && cacheStatus.hasCache && (
             <Card className="w-full animate-fade-in border-blue-200 bg-blue-50/30">
@@ -606,6 +1018,16 @@ ${context.technicalDetails || 'N/A'}`,
                 </Card>
               )}
 
+              {/* Promote to Example Library */}
+              {currentStep === 'not-a-bug' && bugDetectionQuery.data && (analysisConversation || conversationQuery.data) && (
+                <FewShotPromotion
+                  key={`not-a-bug-${conversationId}`}
+                  conversation={analysisConversation || conversationQuery.data}
+                  result={bugDetectionQuery.data}
+                  defaultOutcome="not_a_bug"
+                />
+              )}
+
               {/* Interactive Template Enhancement */}
               {currentStep === 'enhancement' && conversationQuery.data && bugDetectionQuery.data && (
                 <IssueTemplate
@@ -621,7 +1043,7 @@ ${context.technicalDetails || 'N/A'}`,
                     screenshotUrls: [],
                     videoUrl: "",
                     userLink: "",
-                    conversationLink: `https://app.intercom.io/inbox/conversation/${conversationQuery.data.id}`,
+                    conversationLink: getConversationUrl(conversationQuery.data),
                     affectedPageLink: "",
                     reproductionSteps: [],
                     website: "",
@@ -631,6 +1053,10 @@ ${context.technicalDetails || 'N/A'}`,
                   onEnhancedSubmit={handleEnhancedSubmit}
                   bugDetectionResult={bugDetectionQuery.data}
                   mcpEnabled={mcp.isInitialized}
+                  enrichment={contactEnrichmentQuery.data}
+                  attributeFields={conversationQuery.data.issueFields}
+                  conversation={conversationQuery.data}
+                  analysisConversation={analysisConversation || undefined}
                 />
               )}
 
@@ -705,6 +1131,54 @@ ${context.technicalDetails || 'N/A'}`,
                         </div>
                       </div>
                       
+                      {/* Intercom write-back status */}
+                      <div className="flex items-center justify-between gap-3 mb-4 p-3 rounded-lg bg-white/60 border border-green-100">
+                        <div className="flex items-center gap-2 text-sm">
+                          {intercomWriteBackMutation.isPending && (
+                            <>
+                              <RefreshCw className="w-4 h-4 animate-spin text-green-700" />
+                              <span className="text-green-800">Posting issue link to Intercom...</span>
+                            </>
+                          )}
+                          {intercomWriteBackMutation.isSuccess && (
+                            <>
+                              <MessageSquare className="w-4 h-4 text-green-700" />
+                              <span className="text-green-800">
+                                Intercom updated: {[
+                                  intercomWriteBackMutation.data.notePosted && 'internal note posted',
+                                  intercomWriteBackMutation.data.tagApplied && `tagged "${intercomWriteBackMutation.data.tagApplied}"`,
+                                ].filter(Boolean).join(', ')}
+                                {intercomWriteBackMutation.data.errors.length > 0 && (
+                                  <span className="text-orange-700"> ({intercomWriteBackMutation.data.errors.join('; ')})</span>
+                                )}
+                              </span>
+                            </>
+                          )}
+                          {intercomWriteBackMutation.isError && (
+                            <>
+                              <AlertTriangle className="w-4 h-4 text-destructive" />
+                              <span className="text-destructive">
+                                Intercom not updated: {intercomWriteBackMutation.error?.message}
+                              </span>
+                            </>
+                          )}
+                        </div>
+                        {intercomWriteBackMutation.isError && conversationQuery.data && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => writeBackToIntercom({
+                              conversationId: conversationQuery.data.id,
+                              workspaceId: conversationQuery.data.workspaceId,
+                              sourceType: conversationQuery.data.sourceType,
+                              issue: createdIssue,
+                            })}
+                          >
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+
                       <div className="flex flex-col sm:flex-row gap-3">
                         <Button
                           onClick={() => window.open(createdIssue.html_url, '_blank')}
@@ -724,6 +1198,17 @@ ${context.technicalDetails || 'N/A'}`,
                   </CardContent>
                 </Card>
               )}
+
+              {/* Promote to Example Library */}
+              {currentStep === 'complete' && createdIssue && bugDetectionQuery.data && (analysisConversation || conversationQuery.data) && (
+                <FewShotPromotion
+                  key={`complete-${createdIssue.number}`}
+                  conversation={analysisConversation || conversationQuery.data}
+                  result={bugDetectionQuery.data}
+                  defaultOutcome="filed_bug"
+                  issue={createdIssue}
+                />
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,202 @@
+import { sha256Hex } from '../utils/hash';
+import type { ProcessedConversation } from '../types/conversation';
+import type { AttachmentSource, AttachmentStoreConfig, HostedAttachment } from '../types/attachments';
+
+// Served by the attachment plugins in vite.config.ts (dev and preview servers)
+const LOCAL_UPLOAD_PATH = '/api/attachments';
+const S3_PRESIGN_PATH = '/api/attachments-presign';
+
+/**
+ * Reads the blob store settings from the environment; null when re-hosting is turned off
+ */
+export const getAttachmentStoreConfig = (): AttachmentStoreConfig | null => {
+  const env = import.meta.env;
+
+  switch (env.VITE_ATTACHMENT_STORE) {
+    case 'local':
+      // Issue links must work for everyone reading the issue, which the app's own origin rarely does
+      if (!env.VITE_ATTACHMENT_PUBLIC_URL) {
+        console.warn('VITE_ATTACHMENT_STORE is "local" but VITE_ATTACHMENT_PUBLIC_URL is missing');
+        return null;
+      }
+      return { kind: 'local', publicUrl: env.VITE_ATTACHMENT_PUBLIC_URL };
+    case 's3': {
+      const bucket = env.VITE_S3_BUCKET;
+      if (!bucket) {
+        console.warn('VITE_ATTACHMENT_STORE is "s3" but VITE_S3_BUCKET is missing');
+        return null;
+      }
+      // Path-style URLs work for MinIO and other S3-compatible stores as well as AWS
+      const endpoint = (env.VITE_S3_ENDPOINT || 'https://s3.amazonaws.com').replace(/\/+$/, '');
+      return { kind: 's3', publicUrl: env.VITE_ATTACHMENT_PUBLIC_URL || `${endpoint}/${bucket}` };
+    }
+    default:
+      return null;
+  }
+};
+
+export const isAttachmentStoreConfigured = (): boolean => getAttachmentStoreConfig() !== null;
+
+// S3 wants RFC 3986 encoding, which encodeURIComponent falls slightly short of
+const encodeKeySegment = (segment: string): string =>
+  encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string): string => key.split('/').map(encodeKeySegment).join('/');
+
+/**
+ * Uploads an object with a presigned PUT from the server, which keeps the S3 credentials
+ */
+const putS3Object = async (key: string, body: ArrayBuffer, contentType: string): Promise<void> => {
+  const presignResponse = await fetch(S3_PRESIGN_PATH, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ key }),
+  });
+  if (!presignResponse.ok) {
+    throw new Error(`Could not sign the S3 upload (${presignResponse.status}): ${await presignResponse.text()}`);
+  }
+
+  const { url } = await presignResponse.json();
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': contentType },
+    body,
+  });
+
+  if (!response.ok) {
+    throw new Error(`S3 upload failed (${response.status}): ${await response.text()}`);
+  }
+};
+
+/**
+ * Hands a file (or a URL for the dev server to download itself) to the local attachment store
+ */
+const putLocalObject = async (
+  key: string,
+  contentType: string,
+  content: { body: ArrayBuffer } | { sourceUrl: string }
+): Promise<void> => {
+  const query = 'sourceUrl' in content ? `?source=${encodeURIComponent(content.sourceUrl)}` : '';
+  const response = await fetch(`${LOCAL_UPLOAD_PATH}/${encodeKey(key)}${query}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': contentType },
+    body: 'body' in content ? content.body : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Local attachment store rejected the upload (${response.status}): ${await response.text()}`);
+  }
+};
+
+const sanitizeFileName = (name: string): string =>
+  name.replace(/[^\w.-]+/g, '_').replace(/^\.+/, '').slice(-100) || 'attachment';
+
+/**
+ * Stores one attachment, falling back to its original URL when that fails
+ */
+const rehostAttachment = async (
+  config: AttachmentStoreConfig,
+  source: AttachmentSource,
+  scope: string
+): Promise<HostedAttachment> => {
+  const fallback: HostedAttachment = {
+    name: source.name,
+    url: source.url || '',
+    contentType: source.contentType,
+    origin: source.origin,
+    rehosted: false,
+    originalUrl: source.url,
+  };
+
+  try {
+    // The dev server can download conversation attachments itself, which avoids CORS in the browser
+    const downloadOnServer = config.kind === 'local' && !source.file && !!source.url;
+    let body: ArrayBuffer | null = null;
+    if (source.file) {
+      body = await source.file.arrayBuffer();
+    } else if (!downloadOnServer && source.url) {
+      const response = await fetch(source.url);
+      if (!response.ok) throw new Error(`Download failed (${response.status})`);
+      body = await response.arrayBuffer();
+    }
+
+    // Content-addressed keys, so re-running the pipeline doesn't duplicate objects
+    const hash = await sha256Hex(body || source.url || source.name);
+    const key = `${scope}/${hash.slice(0, 16)}-${sanitizeFileName(source.name)}`;
+
+    if (config.kind === 's3') {
+      await putS3Object(key, body!, source.contentType);
+    } else {
+      await putLocalObject(key, source.contentType, downloadOnServer ? { sourceUrl: source.url! } : { body: body! });
+    }
+
+    return { ...fallback, url: `${config.publicUrl.replace(/\/+$/, '')}/${encodeKey(key)}`, rehosted: true };
+  } catch (error) {
+    console.warn(`Could not re-host attachment ${source.name}:`, error);
+    return { ...fallback, error: `upload failed: ${error instanceof Error ? error.message : 'unknown error'}` };
+  }
+};
+
+/**
+ * Collects every attachment posted in the conversation
+ */
+export const getConversationAttachments = (conversation: ProcessedConversation): AttachmentSource[] => {
+  return conversation.messages.flatMap(message =>
+    (message.attachments || []).map(attachment => ({
+      name: attachment.name,
+      url: attachment.url,
+      contentType: attachment.contentType || 'application/octet-stream',
+      origin: 'conversation' as const,
+    }))
+  );
+};
+
+/**
+ * Copies conversation attachments and uploaded screenshots into the configured blob store.
+ * Without a store, attachments keep their original links and uploads are reported as not hosted
+ */
+export const rehostAttachments = async (
+  sources: AttachmentSource[],
+  conversation: Pick<ProcessedConversation, 'id' | 'provider'>
+): Promise<HostedAttachment[]> => {
+  const config = getAttachmentStoreConfig();
+  const scope = `${conversation.provider || 'intercom'}/${sanitizeFileName(conversation.id)}`;
+
+  if (!config) {
+    return sources.map(source => ({
+      name: source.name,
+      url: source.url || '',
+      contentType: source.contentType,
+      origin: source.origin,
+      rehosted: false,
+      originalUrl: source.url,
+      error: source.url ? undefined : 'not uploaded: no attachment store is configured',
+    }));
+  }
+
+  console.log(`Re-hosting ${sources.length} attachments to the ${config.kind} store...`);
+  // Sequential to stay gentle on the store and the support platform's CDN
+  const hosted: HostedAttachment[] = [];
+  for (const source of sources) {
+    hosted.push(await rehostAttachment(config, source, scope));
+  }
+  return hosted;
+};
+
+/**
+ * Markdown for the Evidence section: images are embedded, other files linked
+ */
+export const formatAttachmentsMarkdown = (attachments: Array<Pick<HostedAttachment, 'name' | 'url'> & Partial<HostedAttachment>>): string => {
+  return attachments
+    .map(attachment => {
+      if (!attachment.url) {
+        return `- ${attachment.name} (${attachment.error || 'not uploaded'})`;
+      }
+      const note = attachment.rehosted === false ? ' (original link, may expire)' : '';
+      const isImage = attachment.contentType?.startsWith('image/') || /\.(png|jpe?g|gif|webp)$/i.test(attachment.name);
+      return isImage
+        ? `![${attachment.name}](${attachment.url})${note}`
+        : `- [${attachment.name}](${attachment.url})${note}`;
+    })
+    .join('\n');
+};
@@ -0,0 +1,128 @@
+import type {
+  AttributeMappingConfig,
+  AttributeOperator,
+  MappedIssueField,
+} from '../types/attributeMapping';
+import type { EnrichedField } from '../types/conversation';
+
+const STORAGE_KEY = 'attribute-mapping-config';
+
+// Mirrors the attributes our own Intercom workspace uses
+export const DEFAULT_ATTRIBUTE_MAPPING: AttributeMappingConfig = {
+  rules: [
+    { id: 'query-type', kind: 'tag', attribute: 'Query Type', template: 'Query: {value}' },
+    { id: 'ai-summary', kind: 'tag', attribute: 'AI Issue summary', template: 'AI Summary Available' },
+    { id: 'brand', kind: 'tag', attribute: 'Brand', template: 'Brand: {value}' },
+    { id: 'cx-rating', kind: 'priority', attribute: 'Customer Experience (CX) rating', operator: 'lte', value: '2', priority: 'high' },
+  ],
+  hiddenAttributes: [],
+};
+
+export interface AttributeMappingResult {
+  tags: string[];
+  priority?: 'low' | 'medium' | 'high';
+  customAttributes: Record<string, unknown>;
+  issueFields: Partial<Record<MappedIssueField, EnrichedField>>;
+}
+
+/**
+ * Loads the mapping config saved from the settings screen, or the defaults
+ */
+export const loadAttributeMapping = (): AttributeMappingConfig => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        rules: Array.isArray(parsed.rules) ? parsed.rules : DEFAULT_ATTRIBUTE_MAPPING.rules,
+        hiddenAttributes: Array.isArray(parsed.hiddenAttributes) ? parsed.hiddenAttributes : [],
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load attribute mapping config:', error);
+  }
+  return DEFAULT_ATTRIBUTE_MAPPING;
+};
+
+/**
+ * Persists the mapping config
+ */
+export const saveAttributeMapping = (config: AttributeMappingConfig): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+/**
+ * Resets the mapping config to the defaults
+ */
+export const resetAttributeMapping = (): AttributeMappingConfig => {
+  localStorage.removeItem(STORAGE_KEY);
+  return DEFAULT_ATTRIBUTE_MAPPING;
+};
+
+const isSet = (value: unknown): boolean =>
+  value !== undefined && value !== null && String(value).trim() !== '';
+
+const matchesOperator = (actual: unknown, operator: AttributeOperator, expected?: string): boolean => {
+  if (!isSet(actual)) return false;
+
+  const actualText = String(actual).toLowerCase();
+  const expectedText = (expected || '').toLowerCase();
+
+  switch (operator) {
+    case 'present':
+      return true;
+    case 'equals':
+      return actualText === expectedText;
+    case 'contains':
+      return actualText.includes(expectedText);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Applies the mapping rules to a conversation's custom attributes
+ */
+export const applyAttributeMapping = (
+  attributes: Record<string, unknown>,
+  config: AttributeMappingConfig = loadAttributeMapping()
+): AttributeMappingResult => {
+  const result: AttributeMappingResult = {
+    tags: [],
+    customAttributes: Object.fromEntries(
+      Object.entries(attributes).filter(([key]) => !config.hiddenAttributes.includes(key))
+    ),
+    issueFields: {},
+  };
+
+  for (const rule of config.rules) {
+    const value = attributes[rule.attribute];
+
+    switch (rule.kind) {
+      case 'tag':
+        if (isSet(value)) {
+          result.tags.push(rule.template.replace('{value}', String(value)));
+        }
+        break;
+      case 'priority':
+        if (!result.priority && matchesOperator(value, rule.operator, rule.value)) {
+          result.priority = rule.priority;
+        }
+        break;
+      case 'issue_field':
+        if (isSet(value) && !result.issueFields[rule.field]) {
+          result.issueFields[rule.field] = {
+            value: String(value),
+            source: `custom attribute "${rule.attribute}"`,
+          };
+        }
+        break;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,225 @@
+import { getLLMProvider } from './llmProviders';
+import { createConversationRedactor, type Redactor } from './redaction';
+import { renderPrompt } from './promptRegistry';
+import { formatMessageForAnalysis, MESSAGE_SEPARATOR } from './intercomApi';
+import { htmlToMarkdown } from '../utils/htmlToMarkdown';
+import { estimateTokens } from '../utils/tokens';
+import type { ConversationMessage, ProcessedConversation } from '../types/conversation';
+
+// Errors and failures the customer reports
+const ERROR_PATTERN = /\b(errors?|exceptions?|failed|failing|fails|crash(es|ed)?|broken|not working|doesn't work|does not work|timed? ?out|stack ?trace|status code|HTTP [45]\d\d|[45]\d\d error)\b/i;
+// Agents acknowledging a bug or handing the conversation on
+const ESCALATION_PATTERN = /\b(escalat\w*|engineering|engineers?|bug|logging (this|it)|log a ticket|filed|known issue|investigat\w*|workaround|product team)\b/i;
+
+// Most recent messages are kept verbatim: they hold the current state of the problem
+const RECENT_MESSAGES_KEPT = 2;
+// Share of the thread budget for verbatim messages; the rest is left for summaries
+const VERBATIM_BUDGET_SHARE = 0.75;
+// Largest share of the thread budget one message can take, so a pasted log can't crowd out the rest
+const MAX_MESSAGE_BUDGET_SHARE = 0.25;
+// Largest run of messages summarized in one call
+const CHUNK_TOKENS = 2000;
+const SUMMARY_MAX_TOKENS = 300;
+
+interface ChunkSummary {
+  // Indexes of the first and last message summarized
+  first: number;
+  last: number;
+  text: string;
+}
+
+export interface CondensedThread {
+  thread: string;
+  verbatimMessages: number;
+  condensedMessages: number;
+  chunks: number;
+  promptVersion: string;
+}
+
+/**
+ * Whether a message reports an error or carries escalation language
+ */
+export const isHighSignalMessage = (message: ConversationMessage): boolean => {
+  const text = htmlToMarkdown(message.body);
+  return ERROR_PATTERN.test(text) || ESCALATION_PATTERN.test(text) || !!message.attachments?.length;
+};
+
+/**
+ * Cuts a message down to `maxTokens`, keeping its start and end
+ */
+const truncateMessage = (text: string, maxTokens: number): string => {
+  const tokens = estimateTokens(text);
+  if (tokens <= maxTokens) return text;
+  // About four characters per token, split between the start and the end
+  const keptChars = Math.max(0, maxTokens * 2 - 20);
+  return `${text.slice(0, keptChars)}\n[... about ${tokens - maxTokens} tokens truncated ...]\n${text.slice(-keptChars)}`;
+};
+
+/**
+ * Picks the messages kept word for word: the customer's first report, the latest messages,
+ * then errors and escalations in thread order while they fit the budget
+ */
+const selectVerbatimMessages = (messages: ConversationMessage[], formatted: string[], budget: number): Set<number> => {
+  const kept = new Set<number>();
+  let used = 0;
+  const keep = (index: number) => {
+    if (index < 0 || kept.has(index)) return;
+    kept.add(index);
+    used += estimateTokens(formatted[index]);
+  };
+
+  keep(messages.findIndex(message => message.author.type === 'customer'));
+  for (let index = Math.max(0, messages.length - RECENT_MESSAGES_KEPT); index < messages.length; index++) {
+    keep(index);
+  }
+
+  messages.forEach((message, index) => {
+    if (!kept.has(index) && isHighSignalMessage(message) && used + estimateTokens(formatted[index]) <= budget) {
+      keep(index);
+    }
+  });
+
+  return kept;
+};
+
+/**
+ * Splits the messages that aren't kept verbatim into runs of consecutive messages, each small enough
+ * to summarize in one call
+ */
+const buildChunks = (formatted: string[], kept: Set<number>): number[][] => {
+  const chunks: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+
+  formatted.forEach((text, index) => {
+    const tokens = estimateTokens(text);
+    if (kept.has(index) || (current.length > 0 && currentTokens + tokens > CHUNK_TOKENS)) {
+      if (current.length > 0) chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    if (!kept.has(index)) {
+      current.push(index);
+      currentTokens += tokens;
+    }
+  });
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+};
+
+/**
+ * Summarizes one run of messages; falls back to a truncated excerpt when the model call fails
+ */
+const summarizeChunk = async (conversationId: string, redactor: Redactor, texts: string[]): Promise<string> => {
+  try {
+    const prompt = renderPrompt('condensation');
+    const response = await getLLMProvider('condensation').complete({
+      messages: [
+        {
+          role: 'system',
+          content: prompt.text,
+        },
+        {
+          role: 'user',
+          content: redactor.redact(texts.join(MESSAGE_SEPARATOR)),
+        },
+      ],
+      temperature: 0,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      conversationId,
+      promptVersion: prompt.tag,
+    });
+    return redactor.restore(response.content.trim());
+  } catch (error) {
+    console.warn('Failed to summarize messages, keeping an excerpt instead:', error);
+    return texts.map(text => `- ${text.replace(/\s+/g, ' ').slice(0, 200)}...`).join('\n');
+  }
+};
+
+const formatSummary = ({ first, last, text }: ChunkSummary): string => {
+  const range = first === last ? `message ${first + 1}` : `messages ${first + 1}-${last + 1}`;
+  return `[Condensed: summary of ${range}]\n${text}`;
+};
+
+/**
+ * Groups consecutive summaries to summarize together, at least two to a group so each round shrinks the list
+ */
+const groupSummaries = (summaries: ChunkSummary[]): ChunkSummary[][] => {
+  const groups: ChunkSummary[][] = [];
+  let current: ChunkSummary[] = [];
+  let currentTokens = 0;
+
+  summaries.forEach(summary => {
+    const tokens = estimateTokens(formatSummary(summary));
+    if (current.length >= 2 && currentTokens + tokens > CHUNK_TOKENS) {
+      groups.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(summary);
+    currentTokens += tokens;
+  });
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+};
+
+/**
+ * Map-reduce over a long thread: high-signal messages stay verbatim and the runs between them are
+ * replaced by model-written summaries, which are summarized together again while the thread is still
+ * over `budget` tokens. Messages longer than a share of the budget are truncated first
+ */
+export const condenseThread = async (conversation: ProcessedConversation, budget: number): Promise<CondensedThread> => {
+  const { messages } = conversation;
+  const formatted = messages.map((message, index) =>
+    truncateMessage(formatMessageForAnalysis(message, index), Math.floor(budget * MAX_MESSAGE_BUDGET_SHARE)));
+  const kept = selectVerbatimMessages(messages, formatted, budget * VERBATIM_BUDGET_SHARE);
+  const chunks = buildChunks(formatted, kept);
+  const redactor = createConversationRedactor(conversation);
+
+  console.log(`Condensing ${messages.length - kept.size} of ${messages.length} messages in ${chunks.length} chunks...`);
+  // Sequential, so long threads don't trip provider rate limits
+  let summaries: ChunkSummary[] = [];
+  for (const chunk of chunks) {
+    summaries.push({
+      first: chunk[0],
+      last: chunk[chunk.length - 1],
+      text: await summarizeChunk(conversation.id, redactor, chunk.map(index => formatted[index])),
+    });
+  }
+
+  // A summary sits where its first message was; verbatim messages inside its range keep their place
+  const assemble = () => {
+    const summaryAt = new Map(summaries.map(summary => [summary.first, formatSummary(summary)]));
+    const parts: string[] = [];
+    formatted.forEach((text, index) => {
+      if (kept.has(index)) parts.push(text);
+      else if (summaryAt.has(index)) parts.push(summaryAt.get(index)!);
+    });
+    return parts.join(MESSAGE_SEPARATOR);
+  };
+
+  let thread = assemble();
+  while (summaries.length > 1 && estimateTokens(thread) > budget) {
+    console.log(`Condensed thread still over budget, summarizing ${summaries.length} summaries again...`);
+    const reduced: ChunkSummary[] = [];
+    for (const group of groupSummaries(summaries)) {
+      reduced.push(group.length === 1 ? group[0] : {
+        first: group[0].first,
+        last: group[group.length - 1].last,
+        text: await summarizeChunk(conversation.id, redactor, group.map(formatSummary)),
+      });
+    }
+    summaries = reduced;
+    thread = assemble();
+  }
+
+  return {
+    thread,
+    verbatimMessages: kept.size,
+    condensedMessages: messages.length - kept.size,
+    chunks: chunks.length,
+    promptVersion: renderPrompt('condensation').tag,
+  };
+};
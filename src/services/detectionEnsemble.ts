@@ -0,0 +1,158 @@
+import { createLLMProvider, getLLMProviderConfig, getLLMProviderLabel } from './llmProviders';
+import { completeStructured } from './structuredOutput';
+import { bugDetectionResultSchema } from './llmSchemas';
+import type { BugDetectionResult } from './llmApi';
+import type { ApiResponse } from '../types/conversation';
+import type { LLMCompletionRequest } from '../types/llm';
+import type { BugDetectionEnsembleConfig, BugDetectionEnsembleResult, BugDetectionEnsembleSettings, BugDetectionVote } from '../types/ensemble';
+
+// Repeated samples at the detection default of 0.2 would mostly agree by construction
+const DEFAULT_ENSEMBLE_TEMPERATURE = 0.7;
+const MAX_SAMPLES = 10;
+// Up to 10 samples per model would otherwise all hit the provider at once and trip its rate limits
+const MAX_CONCURRENT_RUNS = 3;
+
+/**
+ * Reads VITE_BUG_DETECTION_ENSEMBLE; null when detection should run once on the configured model
+ */
+export const getBugDetectionEnsemble = (): BugDetectionEnsembleConfig | null => {
+  const raw = import.meta.env.VITE_BUG_DETECTION_ENSEMBLE;
+  if (!raw) return null;
+
+  let settings: BugDetectionEnsembleSettings;
+  try {
+    settings = JSON.parse(raw);
+  } catch (error) {
+    console.error('Failed to parse VITE_BUG_DETECTION_ENSEMBLE:', error);
+    return null;
+  }
+
+  const samples = Math.min(MAX_SAMPLES, Math.max(1, Math.round(Number(settings.samples) || 1)));
+  const members = [
+    getLLMProviderConfig('bugDetection'),
+    ...(settings.models || []).map(model => getLLMProviderConfig('bugDetection', model)),
+  ];
+  if (members.length * samples < 2) return null;
+
+  return {
+    members,
+    samples,
+    temperature: typeof settings.temperature === 'number' ? settings.temperature : DEFAULT_ENSEMBLE_TEMPERATURE,
+  };
+};
+
+// Most common value, ties going to the preferred one
+const mostCommon = <T>(values: T[], preferred: T): T => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts).reduce(
+    (best, [value, count]) => (count > best[1] ? [value, count] : best),
+    [preferred, counts.get(preferred) || 0] as [T, number]
+  )[0];
+};
+
+/**
+ * Combines the runs into one result. The verdict is the majority vote; its confidence is the summed
+ * confidence of the majority divided by all votes, so a split vote lowers it even when every model
+ * printed a high number. The reasoning comes from the most confident run in the majority
+ */
+const aggregateVotes = (runs: Array<{ vote: BugDetectionVote; result: BugDetectionResult }>): BugDetectionResult => {
+  const bugRuns = runs.filter(run => run.vote.isBug);
+  const otherRuns = runs.filter(run => !run.vote.isBug);
+  const sumConfidence = (group: typeof runs) => group.reduce((sum, run) => sum + run.vote.confidence, 0);
+
+  // Ties go to the side that is more sure of itself, then to filing the bug
+  const isBug = bugRuns.length !== otherRuns.length
+    ? bugRuns.length > otherRuns.length
+    : sumConfidence(bugRuns) >= sumConfidence(otherRuns);
+  const majority = isBug ? bugRuns : otherRuns;
+  const representative = majority.reduce((best, run) => (run.vote.confidence > best.vote.confidence ? run : best));
+
+  const ensemble: BugDetectionEnsembleResult = {
+    votes: runs.map(run => run.vote),
+    failures: [],
+    bugVotes: bugRuns.length,
+    reportedConfidence: sumConfidence(runs) / runs.length,
+    disagreement: bugRuns.length > 0 && otherRuns.length > 0
+      || new Set(runs.map(run => run.vote.bugType)).size > 1,
+  };
+
+  return {
+    ...representative.result,
+    isBug,
+    confidence: sumConfidence(majority) / runs.length,
+    bugType: mostCommon(majority.map(run => run.vote.bugType), representative.vote.bugType),
+    severity: mostCommon(majority.map(run => run.vote.severity), representative.vote.severity),
+    ensemble,
+  };
+};
+
+/**
+ * Runs bug detection on every ensemble member, each several times, and aggregates the votes.
+ * Runs that fail are reported but don't vote; detection only fails when every run does
+ */
+export const runBugDetectionEnsemble = async (
+  ensemble: BugDetectionEnsembleConfig,
+  request: LLMCompletionRequest
+): Promise<ApiResponse<BugDetectionResult>> => {
+  const runs = ensemble.members.flatMap(config =>
+    Array.from({ length: ensemble.samples }, (_, index) => ({ config, sample: index + 1 }))
+  );
+  console.log(`Running bug detection ensemble: ${ensemble.members.length} models × ${ensemble.samples} samples`);
+
+  const runDetection = async ({ config, sample }: typeof runs[number]): Promise<ApiResponse<BugDetectionResult>> => {
+    try {
+      // Providers prefer their own temperature setting over the request's, so the ensemble one goes on the config
+      return await completeStructured(
+        'bugDetection',
+        { ...request, temperature: ensemble.temperature, sample: sample > 1 ? sample : undefined },
+        bugDetectionResultSchema,
+        undefined,
+        createLLMProvider({ ...config, temperature: ensemble.temperature }, 'bugDetection')
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          code: 'DETECTION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to detect bug',
+          details: error,
+        },
+      };
+    }
+  };
+
+  // A few workers take the next run as they finish, keeping responses in run order
+  const responses: Array<ApiResponse<BugDetectionResult>> = new Array(runs.length);
+  let nextRun = 0;
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_RUNS, runs.length) }, async () => {
+    while (nextRun < runs.length) {
+      const index = nextRun++;
+      responses[index] = await runDetection(runs[index]);
+    }
+  }));
+
+  const votes: Array<{ vote: BugDetectionVote; result: BugDetectionResult }> = [];
+  const failures: BugDetectionEnsembleResult['failures'] = [];
+  responses.forEach((response, index) => {
+    const model = getLLMProviderLabel(runs[index].config);
+    const sample = runs[index].sample;
+    if (response.success && response.data) {
+      const { isBug, confidence, bugType, severity } = response.data;
+      votes.push({ vote: { model, sample, isBug, confidence, bugType, severity }, result: response.data });
+    } else {
+      failures.push({ model, sample, error: response.error?.message || 'Bug detection failed' });
+    }
+  });
+
+  if (votes.length === 0) {
+    console.error('Every bug detection ensemble run failed:', failures);
+    return responses[0];
+  }
+  if (failures.length > 0) {
+    console.warn(`${failures.length} of ${runs.length} bug detection runs failed and were left out of the vote:`, failures);
+  }
+
+  const result = aggregateVotes(votes);
+  return { success: true, data: { ...result, ensemble: { ...result.ensemble, failures } } };
+};
@@ -0,0 +1,335 @@
+import { z } from 'zod';
+import { detectBugFromConversation, prepareConversationForAnalysis, type BugDetectionResult } from './llmApi';
+import { getLLMProviderConfig, getLLMProviderLabel } from './llmProviders';
+import { formatPromptTag, getActivePromptVersion } from './promptRegistry';
+import { isHighSignalMessage } from './conversationCondenser';
+import { htmlToMarkdown } from '../utils/htmlToMarkdown';
+import { withDetectedLanguage } from '../utils/language';
+import sampleDataset from './fixtures/bug-detection-dataset.json';
+import type { ApiResponse, ProcessedConversation } from '../types/conversation';
+import type {
+  CalibrationBucket,
+  ConfusionMatrix,
+  EvaluationCaseChange,
+  EvaluationCaseResult,
+  EvaluationDataset,
+  EvaluationDetectorId,
+  EvaluationMetricName,
+  EvaluationMetrics,
+  EvaluationRun,
+  EvaluationRunDiff,
+} from '../types/evaluation';
+
+const STORAGE_KEY = 'evaluation-runs';
+const MAX_STORED_RUNS = 20;
+const CALIBRATION_BUCKETS = 5;
+
+// Keyword stand-in: requests and conversations the customer confirms are fixed
+const FEATURE_PATTERN = /\b(feature request|would (love|like) (a|to see)|any plans|please add|roadmap)\b/i;
+const RESOLVED_PATTERN = /\b(that (fixed|solved) it|works now|working again|all good now)\b/i;
+const HIGH_SEVERITY_PATTERN = /\b(crash(es|ed)?|blocks?|blocking|data loss|several customers|all users|outage)\b/i;
+
+const labelSchema = z.object({
+  isBug: z.boolean(),
+  bugType: z.enum(['bug', 'feature', 'question', 'resolved']),
+  severity: z.enum(['low', 'medium', 'high']).optional(),
+});
+
+// Fixtures only need the fields that matter for detection; the rest gets neutral defaults
+const messageSchema = z.object({
+  id: z.string().optional(),
+  author: z.object({
+    name: z.string(),
+    email: z.string().optional(),
+    type: z.enum(['customer', 'admin', 'bot']),
+  }),
+  body: z.string(),
+  createdAt: z.string().default('1970-01-01T00:00:00.000Z'),
+});
+
+const conversationSchema = z.object({
+  id: z.string(),
+  title: z.string().default(''),
+  customerName: z.string().default('Customer'),
+  customerEmail: z.string().default(''),
+  createdAt: z.string().default('1970-01-01T00:00:00.000Z'),
+  updatedAt: z.string().default('1970-01-01T00:00:00.000Z'),
+  status: z.enum(['open', 'closed']).default('closed'),
+  messages: z.array(messageSchema).min(1),
+  tags: z.array(z.string()).default([]),
+  priority: z.enum(['low', 'medium', 'high']).default('medium'),
+  customAttributes: z.record(z.unknown()).optional(),
+}).passthrough();
+
+const datasetSchema = z.object({
+  name: z.string().default('Untitled dataset'),
+  cases: z.array(z.object({
+    id: z.string(),
+    conversation: conversationSchema,
+    expected: labelSchema,
+    note: z.string().optional(),
+  })).min(1),
+});
+
+export const EVALUATION_DETECTORS: Record<EvaluationDetectorId, { name: string; description: string }> = {
+  configured: {
+    name: 'Configured provider',
+    description: 'The bug detection step as configured, including condensation and the active prompt',
+  },
+  keyword: {
+    name: 'Keyword stand-in',
+    description: 'Error and escalation keywords, no model calls. A baseline that runs offline',
+  },
+};
+
+/**
+ * Validates a labeled dataset and fills in the conversation fields fixtures may leave out
+ */
+export const parseEvaluationDataset = (json: unknown): ApiResponse<EvaluationDataset> => {
+  const result = datasetSchema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      error: {
+        code: 'INVALID_DATASET',
+        message: `Invalid dataset: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).slice(0, 3).join('; ')}`,
+        details: result.error.issues,
+      },
+    };
+  }
+
+  const cases = result.data.cases.map(testCase => {
+    const { messages, ...fields } = testCase.conversation;
+    const conversation = {
+      ...fields,
+      messages: messages.map((message, index) => ({ ...message, id: message.id || `${testCase.id}-${index + 1}` })),
+      timeline: [],
+    } as unknown as ProcessedConversation;
+    return { ...testCase, conversation: withDetectedLanguage(conversation) } as EvaluationDataset['cases'][number];
+  });
+
+  return {
+    success: true,
+    data: { name: result.data.name, cases },
+  };
+};
+
+/**
+ * The labeled conversations bundled with the app
+ */
+export const getSampleDataset = (): EvaluationDataset => {
+  const parsed = parseEvaluationDataset(sampleDataset);
+  if (!parsed.success || !parsed.data) {
+    throw new Error(parsed.error?.message || 'Sample dataset is invalid');
+  }
+  return parsed.data;
+};
+
+/**
+ * Offline baseline: calls a conversation a bug when it reports errors or escalations and
+ * isn't a feature request or fixed during the conversation
+ */
+const detectWithKeywords = (conversation: ProcessedConversation): BugDetectionResult => {
+  const text = conversation.messages.map(message => htmlToMarkdown(message.body)).join('\n');
+  const signals = conversation.messages.filter(isHighSignalMessage).length;
+  const bugType: BugDetectionResult['bugType'] = FEATURE_PATTERN.test(text)
+    ? 'feature'
+    : RESOLVED_PATTERN.test(text)
+      ? 'resolved'
+      : signals > 0 ? 'bug' : 'question';
+  const isBug = bugType === 'bug';
+
+  return {
+    isBug,
+    confidence: isBug ? Math.min(0.95, 0.5 + signals * 0.15) : 0.6,
+    reasoning: `${signals} message(s) with error or escalation keywords`,
+    bugType,
+    severity: !isBug ? 'low' : conversation.priority === 'high' || HIGH_SEVERITY_PATTERN.test(text) ? 'high' : 'medium',
+    keyIndicators: [],
+    agentEscalation: '',
+    initialAnalysis: { title: '', description: '', customerImpact: '' },
+  };
+};
+
+const detect = async (detector: EvaluationDetectorId, conversation: ProcessedConversation): Promise<ApiResponse<BugDetectionResult>> => {
+  if (detector === 'keyword') {
+    return { success: true, data: detectWithKeywords(conversation) };
+  }
+  const { conversationData } = await prepareConversationForAnalysis(conversation);
+  return detectBugFromConversation(conversation, conversationData);
+};
+
+const ratio = (numerator: number, denominator: number): number => denominator === 0 ? 0 : numerator / denominator;
+
+/**
+ * Precision, recall and F1 with bug as the positive class, plus a confusion matrix and confidence
+ * calibration. Cases the detector failed on are counted as errors and left out of the rest
+ */
+export const computeEvaluationMetrics = (results: EvaluationCaseResult[]): EvaluationMetrics => {
+  const classified = results.filter(result => result.predicted);
+  const confusion: ConfusionMatrix = { truePositive: 0, falsePositive: 0, trueNegative: 0, falseNegative: 0 };
+  classified.forEach(({ expected, predicted }) => {
+    if (predicted!.isBug) {
+      if (expected.isBug) confusion.truePositive++;
+      else confusion.falsePositive++;
+    } else if (expected.isBug) {
+      confusion.falseNegative++;
+    } else {
+      confusion.trueNegative++;
+    }
+  });
+
+  const precision = ratio(confusion.truePositive, confusion.truePositive + confusion.falsePositive);
+  const recall = ratio(confusion.truePositive, confusion.truePositive + confusion.falseNegative);
+  const withSeverity = classified.filter(result => result.expected.severity);
+
+  const calibration: CalibrationBucket[] = Array.from({ length: CALIBRATION_BUCKETS }, (_, index) => {
+    const min = index / CALIBRATION_BUCKETS;
+    const max = (index + 1) / CALIBRATION_BUCKETS;
+    const inBucket = classified.filter(({ predicted }) =>
+      predicted!.confidence >= min && (predicted!.confidence < max || (index === CALIBRATION_BUCKETS - 1 && predicted!.confidence <= max))
+    );
+    return {
+      min,
+      max,
+      count: inBucket.length,
+      meanConfidence: ratio(inBucket.reduce((sum, { predicted }) => sum + predicted!.confidence, 0), inBucket.length),
+      accuracy: ratio(inBucket.filter(({ expected, predicted }) => predicted!.isBug === expected.isBug).length, inBucket.length),
+    };
+  });
+
+  return {
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    accuracy: ratio(confusion.truePositive + confusion.trueNegative, classified.length),
+    confusion,
+    bugTypeAccuracy: ratio(classified.filter(({ expected, predicted }) => predicted!.bugType === expected.bugType).length, classified.length),
+    severityAccuracy: ratio(withSeverity.filter(({ expected, predicted }) => predicted!.severity === expected.severity).length, withSeverity.length),
+    calibration,
+    expectedCalibrationError: calibration.reduce(
+      (sum, bucket) => sum + ratio(bucket.count, classified.length) * Math.abs(bucket.accuracy - bucket.meanConfidence),
+      0
+    ),
+    errors: results.length - classified.length,
+  };
+};
+
+/**
+ * Runs a detector over every case, one at a time so the provider's rate limits aren't tripped
+ */
+export const runEvaluation = async (
+  dataset: EvaluationDataset,
+  detector: EvaluationDetectorId,
+  onProgress?: (completed: number, total: number) => void
+): Promise<EvaluationRun> => {
+  const startedAt = new Date().toISOString();
+  const results: EvaluationCaseResult[] = [];
+  console.log(`Evaluating ${dataset.cases.length} cases from "${dataset.name}" with the ${detector} detector...`);
+
+  for (const testCase of dataset.cases) {
+    const started = Date.now();
+    let response: ApiResponse<BugDetectionResult>;
+    try {
+      response = await detect(detector, testCase.conversation);
+    } catch (error) {
+      response = {
+        success: false,
+        error: { code: 'DETECTION_ERROR', message: error instanceof Error ? error.message : 'Failed to detect bug' },
+      };
+    }
+
+    results.push({
+      caseId: testCase.id,
+      expected: testCase.expected,
+      predicted: response.success && response.data
+        ? {
+          isBug: response.data.isBug,
+          bugType: response.data.bugType,
+          severity: response.data.severity,
+          confidence: response.data.confidence,
+        }
+        : undefined,
+      error: response.success ? undefined : response.error?.message,
+      durationMs: Date.now() - started,
+    });
+    onProgress?.(results.length, dataset.cases.length);
+  }
+
+  return {
+    id: `eval-${Date.now()}`,
+    datasetName: dataset.name,
+    detector,
+    model: detector === 'keyword' ? 'Keywords' : getLLMProviderLabel(getLLMProviderConfig('bugDetection')),
+    promptVersion: detector === 'keyword' ? '' : formatPromptTag('bugDetection', getActivePromptVersion('bugDetection')),
+    startedAt,
+    completedAt: new Date().toISOString(),
+    results,
+    metrics: computeEvaluationMetrics(results),
+  };
+};
+
+/**
+ * Saved runs, newest first
+ */
+export const loadEvaluationRuns = (): EvaluationRun[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed : [];
+    }
+  } catch (error) {
+    console.error('Failed to load evaluation runs:', error);
+  }
+  return [];
+};
+
+/**
+ * Keeps a run for later comparison, dropping the oldest beyond the limit
+ */
+export const saveEvaluationRun = (run: EvaluationRun): EvaluationRun[] => {
+  const runs = [run, ...loadEvaluationRuns().filter(saved => saved.id !== run.id)].slice(0, MAX_STORED_RUNS);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  return runs;
+};
+
+/**
+ * The latest run on the same dataset with the same detector before the given one, so the keyword
+ * stand-in is never compared with a model
+ */
+export const findPreviousRun = (runs: EvaluationRun[], run: EvaluationRun): EvaluationRun | undefined =>
+  runs.find(saved =>
+    saved.id !== run.id
+    && saved.datasetName === run.datasetName
+    && saved.detector === run.detector
+    && saved.startedAt < run.startedAt
+  );
+
+const DIFF_METRICS: EvaluationMetricName[] = ['precision', 'recall', 'f1', 'accuracy', 'bugTypeAccuracy', 'severityAccuracy', 'expectedCalibrationError'];
+
+/**
+ * Metric changes between two runs and the cases whose prediction changed
+ */
+export const diffEvaluationRuns = (previous: EvaluationRun, current: EvaluationRun): EvaluationRunDiff => {
+  const metricDeltas = Object.fromEntries(
+    DIFF_METRICS.map(name => [name, current.metrics[name] - previous.metrics[name]])
+  ) as Record<EvaluationMetricName, number>;
+
+  const before = new Map(previous.results.map(result => [result.caseId, result.predicted]));
+  const changedCases: EvaluationCaseChange[] = current.results
+    .filter(result => before.has(result.caseId))
+    .filter(({ caseId, predicted }) => {
+      const old = before.get(caseId);
+      return old?.isBug !== predicted?.isBug || old?.bugType !== predicted?.bugType || old?.severity !== predicted?.severity;
+    })
+    .map(({ caseId, expected, predicted }) => ({
+      caseId,
+      expected,
+      before: before.get(caseId),
+      after: predicted,
+      fixed: before.get(caseId)?.isBug !== expected.isBug && predicted?.isBug === expected.isBug,
+    }));
+
+  return { previousRunId: previous.id, metricDeltas, changedCases };
+};
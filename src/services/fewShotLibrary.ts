@@ -0,0 +1,176 @@
+import { createConversationRedactor, type Redactor } from './redaction';
+import { htmlToMarkdown } from '../utils/htmlToMarkdown';
+import { calculateJaccardSimilarity, extractKeywords } from '../utils/similarity';
+import type { ProcessedConversation } from '../types/conversation';
+import type { FewShotExample, FewShotReference, FewShotSettings, TriageOutcome } from '../types/fewShot';
+import type { BugDetectionResult } from './llmApi';
+
+const STORAGE_KEY = 'few-shot-examples';
+const SETTINGS_STORAGE_KEY = 'few-shot-settings';
+const MAX_LIBRARY_SIZE = 200;
+// About 300 tokens, so three examples stay small next to the conversation itself
+const EXCERPT_MAX_CHARS = 1200;
+const MESSAGE_MAX_CHARS = 400;
+// Below this, an example shares little more than common support vocabulary
+const MIN_SIMILARITY = 0.05;
+
+export const TRIAGE_OUTCOME_LABELS: Record<TriageOutcome, string> = {
+  filed_bug: 'Filed as bug',
+  duplicate: 'Closed as duplicate',
+  not_a_bug: 'Not a bug',
+};
+
+const DEFAULT_SETTINGS: FewShotSettings = { enabled: true, maxExamples: 3 };
+
+/**
+ * Loads whether examples are used and how many
+ */
+export const loadFewShotSettings = (): FewShotSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+    }
+  } catch (error) {
+    console.error('Failed to load few-shot settings:', error);
+  }
+  return DEFAULT_SETTINGS;
+};
+
+/**
+ * Persists the few-shot settings
+ */
+export const saveFewShotSettings = (settings: FewShotSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Every example in the library, newest first
+ */
+export const loadFewShotExamples = (): FewShotExample[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed : [];
+    }
+  } catch (error) {
+    console.error('Failed to load few-shot examples:', error);
+  }
+  return [];
+};
+
+const saveFewShotExamples = (examples: FewShotExample[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(examples.slice(0, MAX_LIBRARY_SIZE)));
+};
+
+// Placeholders lose their numbers so they are never mapped back to another conversation's values
+const redactForLibrary = (redactor: Redactor, text: string): string =>
+  redactor.redact(text).replace(/\[([A-Z]+)_\d+\]/g, '[$1]');
+
+/**
+ * Redacted opening of the thread: customer and agent messages in order, each shortened, until the excerpt is full
+ */
+export const buildExampleExcerpt = (conversation: ProcessedConversation): string => {
+  const redactor = createConversationRedactor(conversation);
+  let excerpt = '';
+
+  for (const message of conversation.messages) {
+    const body = htmlToMarkdown(message.body).replace(/\s+/g, ' ').trim();
+    if (!body) continue;
+
+    const line = `${message.author.type === 'customer' ? 'CUSTOMER' : 'AGENT'}: ${body.length > MESSAGE_MAX_CHARS ? `${body.slice(0, MESSAGE_MAX_CHARS)}…` : body}`;
+    if (excerpt && excerpt.length + line.length > EXCERPT_MAX_CHARS) break;
+    excerpt += `${excerpt ? '\n' : ''}${line}`;
+  }
+
+  return redactForLibrary(redactor, excerpt.slice(0, EXCERPT_MAX_CHARS));
+};
+
+/**
+ * Adds a triaged conversation to the library, replacing an earlier example of the same conversation
+ */
+export const promoteToFewShotLibrary = ({ conversation, result, outcome, rationale, issue }: {
+  conversation: ProcessedConversation;
+  result: BugDetectionResult;
+  outcome: TriageOutcome;
+  rationale: string;
+  issue?: { number: number; html_url?: string };
+}): FewShotExample => {
+  // Intercom titles are often the customer's first message, so they get the same treatment as the excerpt
+  const redactor = createConversationRedactor(conversation);
+  const example: FewShotExample = {
+    id: `example-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    conversationId: conversation.id,
+    title: redactForLibrary(redactor, conversation.title),
+    excerpt: buildExampleExcerpt(conversation),
+    outcome,
+    // Duplicates are bugs filed before; a TSE overruling a bug verdict leaves it as a question
+    bugType: outcome !== 'not_a_bug' ? 'bug' : result.bugType === 'bug' ? 'question' : result.bugType,
+    severity: result.severity,
+    rationale: redactForLibrary(redactor, rationale.trim()),
+    issueNumber: issue?.number,
+    issueUrl: issue?.html_url,
+    createdAt: new Date().toISOString(),
+  };
+
+  saveFewShotExamples([example, ...loadFewShotExamples().filter(existing => existing.conversationId !== conversation.id)]);
+  return example;
+};
+
+export const removeFewShotExample = (id: string): void => {
+  saveFewShotExamples(loadFewShotExamples().filter(example => example.id !== id));
+};
+
+// Speaker labels and redaction placeholders appear in every excerpt, so they would count as shared words
+const getKeywordText = (title: string, excerpt: string): string =>
+  extractKeywords(`${title}\n${excerpt}`.replace(/^(CUSTOMER|AGENT): /gm, '').replace(/\[[A-Z]+\]/g, ''), Infinity).join(' ');
+
+/**
+ * The library examples most similar to a conversation, by keyword overlap between its title and excerpt and
+ * theirs; comparing excerpts keeps long threads from diluting the score.
+ * The conversation's own example is never returned, so re-analyzing it can't just copy its outcome
+ */
+export const selectFewShotExamples = (conversation: ProcessedConversation): Array<FewShotExample & { similarity: number }> => {
+  const settings = loadFewShotSettings();
+  if (!settings.enabled || settings.maxExamples <= 0) return [];
+
+  const examples = loadFewShotExamples().filter(example => example.conversationId !== conversation.id);
+  if (examples.length === 0) return [];
+
+  const keywords = getKeywordText(
+    redactForLibrary(createConversationRedactor(conversation), conversation.title),
+    buildExampleExcerpt(conversation)
+  );
+
+  return examples
+    .map(example => ({
+      ...example,
+      similarity: calculateJaccardSimilarity(keywords, getKeywordText(example.title, example.excerpt)),
+    }))
+    .filter(example => example.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, settings.maxExamples);
+};
+
+/**
+ * Prompt section presenting the examples; empty when there are none
+ */
+export const formatFewShotExamples = (examples: FewShotExample[]): string => {
+  if (examples.length === 0) return '';
+
+  return `PAST TRIAGE DECISIONS
+Similar conversations TSEs have already triaged, with the final outcome. Use them to calibrate your judgment; they are not facts about this conversation.
+
+${examples.map((example, index) => `Example ${index + 1}: ${TRIAGE_OUTCOME_LABELS[example.outcome]} (bugType: ${example.bugType}, severity: ${example.severity})
+"""
+${example.excerpt}
+"""
+Why: ${example.rationale}`).join('\n\n')}`;
+};
+
+/**
+ * What a detection result keeps about the examples it was given
+ */
+export const toFewShotReferences = (examples: Array<FewShotExample & { similarity: number }>): FewShotReference[] =>
+  examples.map(({ id, title, outcome, similarity }) => ({ id, title, outcome, similarity }));
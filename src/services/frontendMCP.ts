@@ -1,12 +1,16 @@
-import OpenAI from 'openai';
 import { GitHubSearchService } from './githubSearch';
 import { WebLLMService } from './webLLMService';
+import { createConversationRedactor } from './redaction';
+import { createLLMProvider, getLLMProviderConfig } from './llmProviders';
+import { renderPrompt } from './promptRegistry';
+import { htmlToMarkdown } from '../utils/htmlToMarkdown';
 // import { calculateSemanticSimilarity } from '../utils/similarity'; // Temporarily disabled for testing
 import type { ProcessedConversation, GitHubIssueTemplate, EnhancedIssueContext } from '../types/conversation';
 import type { MCPConfig, AIAnalyzedIssue, MCPTool } from '../types/mcp';
+import type { LLMProvider } from '../types/llm';
 
 export class FrontendMCPClient {
-  private openai: OpenAI | null = null;
+  private llm: LLMProvider | null = null;
   private webllm: WebLLMService | null = null;
   private githubService: GitHubSearchService;
   private tools: Map<string, MCPTool> = new Map();
@@ -18,15 +22,22 @@ export class FrontendMCPClient {
     this.registerTools();
   }
 
+  // Shown next to duplicate analysis results
+  get modelLabel(): string {
+    return this.config.useLocalAI ? 'WebLLM (Local)' : this.llm?.label || 'AI';
+  }
+
   private async initializeAI() {
     if (this.config.useLocalAI) {
       this.webllm = new WebLLMService();
       await this.webllm.initialize();
     } else {
-      this.openai = new OpenAI({
-        apiKey: this.config.openaiKey,
-        dangerouslyAllowBrowser: true
-      });
+      const llmConfig = getLLMProviderConfig('duplicateAnalysis');
+      // A key entered in the duplicate detection setup wins over VITE_OPENAI_API_KEY
+      this.llm = createLLMProvider(
+        llmConfig.kind === 'openai' && this.config.openaiKey ? { ...llmConfig, apiKey: this.config.openaiKey } : llmConfig,
+        'duplicateAnalysis'
+      );
     }
   }
 
@@ -112,24 +123,42 @@ For each similar issue found, provide:
 - reasoning: Why you think this issue is similar
 - suggested_action: 'reference', 'merge', 'update_existing', or 'create_new'`;
 
-    const userPrompt = this.buildAnalysisPrompt(conversation, template, context);
+    // Everything below reaches the LLM or GitHub search, so redact it up front
+    const redactor = createConversationRedactor(conversation);
+    const redactedTemplate: GitHubIssueTemplate = {
+      ...template,
+      title: redactor.redact(template.title),
+      body: redactor.redact(template.body),
+    };
+    const redactedContext: EnhancedIssueContext = {
+      ...context,
+      errorMessages: redactor.redact(context.errorMessages),
+      additionalSteps: redactor.redact(context.additionalSteps),
+      technicalDetails: redactor.redact(context.technicalDetails),
+    };
+    const userPrompt = redactor.redact(this.buildAnalysisPrompt(conversation, redactedTemplate, redactedContext));
+    console.log(`🛡️ Redacted ${redactor.entries.length} sensitive values before analysis`);
 
+    let results: AIAnalyzedIssue[];
     if (this.config.useLocalAI && this.webllm) {
       console.log('🤖 Using WebLLM for analysis...');
-      return this.webllm.analyzeWithTools(systemPrompt, userPrompt, this.tools);
-    } else if (this.openai) {
-      console.log('🤖 Using OpenAI for analysis...');
-      return this.analyzeWithOpenAI(systemPrompt, userPrompt, template, context);
+      results = await this.webllm.analyzeWithTools(systemPrompt, userPrompt, this.tools);
+    } else if (this.llm) {
+      console.log(`🤖 Using ${this.llm.label} for analysis...`);
+      results = await this.analyzeWithLLM(systemPrompt, userPrompt, redactedTemplate, redactedContext, conversation.id);
     } else {
       throw new Error('No AI service initialized');
     }
+
+    return results.map(result => ({ ...result, reasoning: redactor.restore(result.reasoning) }));
   }
 
-  private async analyzeWithOpenAI(
+  private async analyzeWithLLM(
     systemPrompt: string, 
     userPrompt: string,
     template: GitHubIssueTemplate,
-    context: EnhancedIssueContext
+    context: EnhancedIssueContext,
+    conversationId?: string
   ): Promise<AIAnalyzedIssue[]> {
     // First, let's do our own search to get results
     const searchQueries = this.generateSearchQueries(template, context);
@@ -179,7 +208,8 @@ For each similar issue found, provide:
             body: issue.body || '',
             labels: issue.labels
           },
-          !this.config.useLocalAI // Use AI if we have OpenAI configured
+          !this.config.useLocalAI, // Use AI if a cloud or local model server is configured
+          conversationId
         );
 
         let relationshipType: 'duplicate' | 'related' | 'dependency' | 'follow-up' = 'related';
@@ -198,7 +228,8 @@ For each similar issue found, provide:
           similarity_score: semanticAnalysis.score,
           relationship_type: relationshipType,
           reasoning: semanticAnalysis.reasoning,
-          suggested_action: suggestedAction
+          suggested_action: suggestedAction,
+          prompt_version: semanticAnalysis.promptVersion
         });
 
         console.log(`📊 Issue #${issue.number}: ${Math.round(semanticAnalysis.score * 100)}% similar - ${semanticAnalysis.reasoning}`);
@@ -451,7 +482,7 @@ CUSTOMER CONVERSATION CONTEXT:
 
 CONVERSATION SUMMARY:
 ${conversation.messages.slice(0, 5).map(m => 
-  `${m.author.type.toUpperCase()}: ${m.body.substring(0, 300)}`
+  `${m.author.type.toUpperCase()}: ${htmlToMarkdown(m.body).substring(0, 300)}`
 ).join('\n\n')}
 
 PROPOSED GITHUB ISSUE:
@@ -508,11 +539,12 @@ TASK:
   private async calculateSemanticSimilarity(
     newIssue: { title: string; body: string; errorMessages?: string; appId?: string },
     existingIssue: { title: string; body: string; labels?: any[] },
-    useAI: boolean = true
-  ): Promise<{ score: number; reasoning: string }> {
+    useAI: boolean = true,
+    conversationId?: string
+  ): Promise<{ score: number; reasoning: string; promptVersion?: string }> {
     
     // If AI is not available, fall back to basic similarity
-    if (!useAI || !this.openai) {
+    if (!useAI || !this.llm) {
       const basicScore = this.calculateBasicSimilarity(existingIssue, 
         { title: newIssue.title, body: newIssue.body, labels: [], priority: 'medium' },
         { errorMessages: newIssue.errorMessages || '', screenshots: [], additionalSteps: '', technicalDetails: '', browserInfo: '', appId: newIssue.appId || '', customerImpact: 'medium' }
@@ -524,55 +556,25 @@ TASK:
     }
 
     try {
-      const prompt = `Analyze the semantic similarity between these two GitHub issues and provide a similarity score from 0-1:
-
-NEW ISSUE:
-Title: ${newIssue.title}
-Description: ${newIssue.body.substring(0, 500)}
-Error Messages: ${newIssue.errorMessages || 'None'}
-App ID: ${newIssue.appId || 'Not specified'}
-
-EXISTING ISSUE:
-Title: ${existingIssue.title}
-Description: ${(existingIssue.body || '').substring(0, 500)}
-Labels: ${existingIssue.labels?.map(l => l.name).join(', ') || 'None'}
-
-Consider these aspects:
-1. **Root Cause Similarity**: Do they have the same underlying technical problem?
-   - "Internal Server Error" vs "500 Error" vs "Backend Failure" (HIGH similarity)
-   - "Authentication Failed" vs "Login Broken" vs "Can't Sign In" (HIGH similarity)
-   - "Widget not loading" vs "Messenger not showing" vs "Chat not displaying" (HIGH similarity)
-
-2. **Symptom Similarity**: Do users experience similar issues?
-   - Same functionality affected, same user impact
-   - Similar error patterns or behaviors
-
-3. **Context Match**: 
-   - Same App ID (if specified) = high relevance
-   - Similar technical components (API, authentication, UI widgets)
-   - Similar user workflows affected
-
-4. **Different Wordings, Same Problem**: 
-   - Technical vs non-technical descriptions of same issue
-   - Different error messages for same root cause
-   - Vendor-specific vs generic terminology
-
-Respond with ONLY a JSON object:
-{
-  "similarity_score": 0.0-1.0,
-  "reasoning": "Brief explanation of why they are/aren't similar",
-  "relationship_type": "duplicate|related|different",
-  "confidence": 0.0-1.0
-}`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4',
-        messages: [{ role: 'user', content: prompt }],
+      const prompt = renderPrompt('duplicateSimilarity', {
+        newTitle: newIssue.title,
+        newDescription: newIssue.body.substring(0, 500),
+        newErrorMessages: newIssue.errorMessages || 'None',
+        newAppId: newIssue.appId || 'Not specified',
+        existingTitle: existingIssue.title,
+        existingDescription: (existingIssue.body || '').substring(0, 500),
+        existingLabels: existingIssue.labels?.map(l => l.name).join(', ') || 'None',
+      });
+
+      const response = await this.llm.complete({
+        messages: [{ role: 'user', content: prompt.text }],
         temperature: 0.1,
-        max_tokens: 300
+        maxTokens: 300,
+        conversationId,
+        promptVersion: prompt.tag
       });
 
-      const content = response.choices[0]?.message?.content;
+      const content = response.content;
       if (!content) {
         throw new Error('No response from AI');
       }
@@ -580,7 +582,8 @@ Respond with ONLY a JSON object:
       const result = JSON.parse(content);
       return {
         score: result.similarity_score,
-        reasoning: result.reasoning
+        reasoning: result.reasoning,
+        promptVersion: prompt.tag
       };
 
     } catch (error) {
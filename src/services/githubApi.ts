@@ -59,6 +59,11 @@ export interface GitHubIssueData {
   labels?: string[];
   assignees?: string[];
   milestone?: number;
+  // Overrides VITE_GITHUB_OWNER/VITE_GITHUB_REPO, e.g. with the workspace's default target
+  repository?: {
+    owner: string;
+    repo: string;
+  };
 }
 
 export interface CreatedGitHubIssue {
@@ -111,8 +116,8 @@ export const validateGitHubConfiguration = (): { isValid: boolean; missingVars:
  */
 export const createGitHubIssue = async (issueData: GitHubIssueData): Promise<ApiResponse<CreatedGitHubIssue>> => {
   try {
-    const owner = import.meta.env.VITE_GITHUB_OWNER;
-    const repo = import.meta.env.VITE_GITHUB_REPO;
+    const owner = issueData.repository?.owner || import.meta.env.VITE_GITHUB_OWNER;
+    const repo = issueData.repository?.repo || import.meta.env.VITE_GITHUB_REPO;
     
     if (!owner || !repo) {
       return {
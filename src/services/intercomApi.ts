@@ -1,65 +1,111 @@
-import axios, { type AxiosResponse } from 'axios';
-import type { IntercomConversation, ProcessedConversation, ApiResponse } from '../types/conversation';
-
-// Use proxy in development, direct API in production
-const INTERCOM_API_BASE_URL = import.meta.env.DEV 
-  ? '/api/intercom' 
-  : 'https://api.intercom.io';
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import { getIntercomWorkspace, getIntercomWorkspaces, getWorkspaceBaseUrl } from './intercomWorkspaces';
+import { applyAttributeMapping } from './attributeMapping';
+import { escapeHtml, htmlToMarkdown } from '../utils/htmlToMarkdown';
+import type {
+  IntercomConversation,
+  ProcessedConversation,
+  ApiResponse,
+  IntercomSearchFilters,
+  IntercomSearchResponse,
+  BulkImportResult,
+  TimelineEvent,
+  TimelineEventKind,
+  IntercomContact,
+  IntercomCompany,
+  ContactEnrichment,
+  IntercomWriteBackResult,
+  IntercomTicket,
+  IntercomReference,
+  IntercomSourceType,
+  ConversationMessage,
+} from '../types/conversation';
+import type { IntercomWorkspace } from '../types/workspace';
 
 const INTERCOM_API_VERSION = '2.10';
 
-// Create axios instance with default config
-const intercomClient = axios.create({
-  baseURL: INTERCOM_API_BASE_URL,
-  timeout: 10000,
-  headers: {
-    'Intercom-Version': INTERCOM_API_VERSION,
-    'Accept': 'application/json',
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add authorization header
-intercomClient.interceptors.request.use(
-  (config) => {
-    const token = import.meta.env.VITE_testworkspace;
-    if (token) {
-      config.headers.Authorization = `Bearer ${token}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
+// Tag applied to conversations once a GitHub issue has been filed from them
+const DEFAULT_WRITE_BACK_TAG = 'github-filed';
 
-// Response interceptor for error handling
-intercomClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    console.error('API Error:', error.response?.data || error.message);
-    
-    if (error.response?.status === 401) {
-      throw new Error('Invalid Intercom access token. Please check your environment variables.');
-    }
-    if (error.response?.status === 404) {
-      throw new Error('Conversation not found. Please check the conversation ID.');
-    }
-    if (error.response?.status === 429) {
-      throw new Error('Rate limit exceeded. Please try again in a few moments.');
-    }
-    if (error.code === 'ECONNABORTED') {
-      throw new Error('Request timeout. Please try again.');
+// Search pagination limits
+const SEARCH_PAGE_SIZE = 50;
+const DEFAULT_MAX_SEARCH_RESULTS = 50;
+
+// One axios instance per workspace, created on first use
+const intercomClients = new Map<string, AxiosInstance>();
+
+/**
+ * Creates an axios instance bound to a workspace's region and access token
+ */
+const createIntercomClient = (workspace: IntercomWorkspace): AxiosInstance => {
+  const client = axios.create({
+    baseURL: getWorkspaceBaseUrl(workspace),
+    timeout: 10000,
+    headers: {
+      'Intercom-Version': INTERCOM_API_VERSION,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    },
+  });
+
+  // Add authorization header
+  client.interceptors.request.use(
+    (config) => {
+      config.headers.Authorization = `Bearer ${workspace.accessToken}`;
+      return config;
+    },
+    (error) => {
+      return Promise.reject(error);
     }
-    
-    // Handle CORS errors in development
-    if (error.code === 'ERR_NETWORK' && import.meta.env.DEV) {
-      throw new Error('Network error. Make sure your development proxy is running.');
+  );
+
+  // Response interceptor for error handling
+  client.interceptors.response.use(
+    (response) => response,
+    (error) => {
+      console.error('API Error:', error.response?.data || error.message);
+      
+      if (error.response?.status === 401) {
+        throw new Error(`Invalid Intercom access token for workspace "${workspace.name}". Please check your environment variables.`);
+      }
+      if (error.response?.status === 404) {
+        throw new Error('Conversation not found. Please check the conversation ID.');
+      }
+      if (error.response?.status === 429) {
+        throw new Error('Rate limit exceeded. Please try again in a few moments.');
+      }
+      if (error.code === 'ECONNABORTED') {
+        throw new Error('Request timeout. Please try again.');
+      }
+      
+      // Handle CORS errors in development
+      if (error.code === 'ERR_NETWORK' && import.meta.env.DEV) {
+        throw new Error('Network error. Make sure your development proxy is running.');
+      }
+      
+      throw new Error(error.response?.data?.message || error.message || 'An unexpected error occurred');
     }
-    
-    throw new Error(error.response?.data?.message || error.message || 'An unexpected error occurred');
+  );
+
+  return client;
+};
+
+/**
+ * Returns the client for a workspace, defaulting to the first configured workspace
+ */
+const getIntercomClient = (workspaceId?: string): AxiosInstance => {
+  const workspace = getIntercomWorkspace(workspaceId);
+  if (!workspace) {
+    throw new Error(workspaceId && getIntercomWorkspaces().length > 0
+      ? `Unknown Intercom workspace "${workspaceId}". Please check VITE_INTERCOM_WORKSPACES.`
+      : 'No Intercom workspace configured. Please check your environment variables.');
   }
-);
+
+  if (!intercomClients.has(workspace.id)) {
+    intercomClients.set(workspace.id, createIntercomClient(workspace));
+  }
+  return intercomClients.get(workspace.id);
+};
 
 /**
  * Validates conversation ID format
@@ -68,10 +114,112 @@ export const validateConversationId = (id: string): boolean => {
   return /^\d+$/.test(id.trim());
 };
 
+/**
+ * Extracts the conversation or ticket ID from an Intercom URL
+ */
+export const parseIntercomUrl = (url: string): IntercomReference | null => {
+  const ticketMatch = url.match(/\/tickets?\/(\d+)/);
+  if (ticketMatch) return { type: 'ticket', id: ticketMatch[1] };
+
+  const conversationMatch = url.match(/\/conversations?\/(\d+)/);
+  return conversationMatch ? { type: 'conversation', id: conversationMatch[1] } : null;
+};
+
+type IntercomConversationPart = IntercomConversation['conversation_parts']['conversation_parts'][number];
+
+/**
+ * Number of parts Intercom reports for the thread, which can exceed what it returned
+ */
+const getExpectedPartCount = (conversation: IntercomConversation): number => {
+  return conversation.conversation_parts?.total_count
+    ?? conversation.statistics?.count_conversation_parts
+    ?? conversation.conversation_parts?.conversation_parts?.length
+    ?? 0;
+};
+
+/**
+ * Pages past Intercom's part limit using the last part as a cursor. Stops as soon as
+ * a page adds nothing new, so a workspace that ignores the cursor can't loop forever.
+ */
+const fetchRemainingParts = async (
+  client: AxiosInstance,
+  conversationId: string,
+  fetchedParts: IntercomConversationPart[],
+  expectedCount: number
+): Promise<IntercomConversationPart[]> => {
+  const parts = [...fetchedParts];
+  const seenIds = new Set(parts.map(part => part.id));
+
+  while (parts.length < expectedCount && parts.length > 0) {
+    const response: AxiosResponse<IntercomConversation> = await client.get(
+      `/conversations/${conversationId}`,
+      { params: { starting_after: parts[parts.length - 1].id } }
+    );
+
+    const newParts = (response.data.conversation_parts?.conversation_parts || [])
+      .filter(part => !seenIds.has(part.id));
+
+    if (newParts.length === 0) break;
+
+    newParts.forEach(part => seenIds.add(part.id));
+    parts.push(...newParts);
+  }
+
+  return parts;
+};
+
+/**
+ * Fetches a conversation and, when Intercom truncated it, the rest of its parts
+ */
+const fetchFullConversation = async (
+  client: AxiosInstance,
+  conversationId: string
+): Promise<{ conversation: IntercomConversation; missingPartCount: number }> => {
+  const response: AxiosResponse<IntercomConversation> = await client.get(
+    `/conversations/${conversationId}`
+  );
+
+  const conversation = response.data;
+  const fetchedParts = conversation.conversation_parts?.conversation_parts || [];
+  const expectedCount = getExpectedPartCount(conversation);
+
+  if (fetchedParts.length >= expectedCount) {
+    return { conversation, missingPartCount: 0 };
+  }
+
+  console.log(`Conversation ${conversationId} truncated (${fetchedParts.length}/${expectedCount} parts), fetching the rest...`);
+
+  let allParts = fetchedParts;
+  try {
+    allParts = await fetchRemainingParts(client, conversationId, fetchedParts, expectedCount);
+  } catch (error) {
+    console.error(`Failed to fetch remaining parts for conversation ${conversationId}:`, error);
+  }
+
+  const missingPartCount = Math.max(0, expectedCount - allParts.length);
+  if (missingPartCount > 0) {
+    console.warn(`Conversation ${conversationId} is missing ${missingPartCount} parts`);
+  }
+
+  return {
+    conversation: {
+      ...conversation,
+      conversation_parts: {
+        ...conversation.conversation_parts,
+        conversation_parts: allParts,
+      },
+    },
+    missingPartCount,
+  };
+};
+
 /**
  * Fetches conversation data from Intercom API
  */
-export const fetchConversation = async (conversationId: string): Promise<ApiResponse<ProcessedConversation>> => {
+export const fetchConversation = async (
+  conversationId: string,
+  workspaceId?: string
+): Promise<ApiResponse<ProcessedConversation>> => {
   try {
     if (!validateConversationId(conversationId)) {
       return {
@@ -85,13 +233,11 @@ export const fetchConversation = async (conversationId: string): Promise<ApiResp
 
     console.log(`Fetching conversation ${conversationId}...`);
     
-    const response: AxiosResponse<IntercomConversation> = await intercomClient.get(
-      `/conversations/${conversationId.trim()}`
-    );
+    const { conversation, missingPartCount } = await fetchFullConversation(getIntercomClient(workspaceId), conversationId.trim());
 
-    console.log('Conversation fetched successfully:', response.data.id);
+    console.log('Conversation fetched successfully:', conversation.id);
     
-    const processedConversation = processConversationData(response.data);
+    const processedConversation = processConversationData(conversation, missingPartCount, workspaceId);
 
     return {
       success: true,
@@ -111,10 +257,350 @@ export const fetchConversation = async (conversationId: string): Promise<ApiResp
   }
 };
 
+type SearchFilter = { field: string; operator: string; value: string | number | string[] };
+
+/**
+ * Resolves tag names to Intercom tag IDs (search only accepts tag_ids)
+ */
+const resolveTagIds = async (client: AxiosInstance, tagNames: string[]): Promise<string[]> => {
+  const response: AxiosResponse<{ data: Array<{ id: string; name: string }> }> = await client.get('/tags');
+  const wanted = tagNames.map(name => name.trim().toLowerCase());
+
+  const tagIds = response.data.data
+    .filter(tag => wanted.includes(tag.name.toLowerCase()))
+    .map(tag => tag.id);
+
+  if (tagIds.length === 0) {
+    throw new Error(`No Intercom tags found matching: ${tagNames.join(', ')}`);
+  }
+  return tagIds;
+};
+
+/**
+ * Builds the Intercom search query from the bulk import filters
+ */
+const buildSearchQuery = async (client: AxiosInstance, filters: IntercomSearchFilters) => {
+  const conditions: SearchFilter[] = [];
+
+  if (filters.tags?.length) {
+    const tagIds = await resolveTagIds(client, filters.tags);
+    conditions.push({ field: 'tag_ids', operator: 'IN', value: tagIds });
+  }
+  if (filters.state) {
+    conditions.push({ field: 'state', operator: '=', value: filters.state });
+  }
+  if (filters.createdAfter) {
+    conditions.push({ field: 'created_at', operator: '>', value: Math.floor(new Date(filters.createdAfter).getTime() / 1000) });
+  }
+  if (filters.createdBefore) {
+    conditions.push({ field: 'created_at', operator: '<', value: Math.floor(new Date(filters.createdBefore).getTime() / 1000) });
+  }
+  if (filters.teamAssigneeId) {
+    conditions.push({ field: 'team_assignee_id', operator: '=', value: filters.teamAssigneeId.trim() });
+  }
+
+  // Intercom rejects an empty query, so default to everything updated since the epoch
+  if (conditions.length === 0) {
+    return { field: 'updated_at', operator: '>', value: 0 };
+  }
+  return conditions.length === 1 ? conditions[0] : { operator: 'AND', value: conditions };
+};
+
+/**
+ * Searches Intercom conversations and pages through the results, fetching each
+ * full conversation (search results omit conversation parts)
+ */
+export const searchConversations = async (
+  filters: IntercomSearchFilters,
+  workspaceId?: string
+): Promise<ApiResponse<BulkImportResult>> => {
+  try {
+    const client = getIntercomClient(workspaceId);
+    const maxResults = filters.maxResults || DEFAULT_MAX_SEARCH_RESULTS;
+    const query = await buildSearchQuery(client, filters);
+
+    console.log('Searching Intercom conversations...', filters);
+
+    const matchedIds: string[] = [];
+    let totalMatched = 0;
+    let startingAfter: string | undefined;
+
+    do {
+      const response: AxiosResponse<IntercomSearchResponse> = await client.post('/conversations/search', {
+        query,
+        pagination: {
+          per_page: Math.min(SEARCH_PAGE_SIZE, maxResults),
+          ...(startingAfter && { starting_after: startingAfter }),
+        },
+      });
+
+      totalMatched = response.data.total_count;
+      matchedIds.push(...response.data.conversations.map(conversation => conversation.id));
+      startingAfter = response.data.pages?.next?.starting_after;
+    } while (startingAfter && matchedIds.length < maxResults);
+
+    console.log(`Search matched ${totalMatched} conversations, importing ${Math.min(matchedIds.length, maxResults)}`);
+
+    const conversations: ProcessedConversation[] = [];
+    const failedIds: string[] = [];
+
+    // Fetch sequentially to stay well inside Intercom's rate limits
+    for (const id of matchedIds.slice(0, maxResults)) {
+      try {
+        const { conversation, missingPartCount } = await fetchFullConversation(client, id);
+        conversations.push(processConversationData(conversation, missingPartCount, workspaceId));
+      } catch (error) {
+        console.error(`Failed to import conversation ${id}:`, error);
+        failedIds.push(id);
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        conversations,
+        totalMatched,
+        failedIds,
+      },
+    };
+  } catch (error) {
+    console.error('Error searching conversations:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'SEARCH_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to search conversations',
+        details: error,
+      },
+    };
+  }
+};
+
+/**
+ * Maps an Intercom part_type onto our timeline event kinds
+ */
+const getTimelineEventKind = (part: Pick<IntercomConversationPart, 'part_type' | 'tags'>): TimelineEventKind => {
+  if (part.tags?.length || part.part_type.includes('tag')) return 'tag_change';
+
+  switch (part.part_type) {
+    case 'comment':
+      return 'comment';
+    case 'note':
+    case 'note_and_reopen':
+      return 'note';
+    case 'assignment':
+    case 'default_assigned':
+    case 'away_mode_assignment':
+    case 'assign_and_reopen':
+    case 'assign_and_unsnooze':
+      return 'assignment';
+    case 'snoozed':
+      return 'snooze';
+    case 'open':
+    case 'unsnoozed':
+    case 'timer_unsnooze':
+      return 'reopen';
+    case 'close':
+      return 'close';
+    default:
+      return 'other';
+  }
+};
+
+const getAuthorType = (type: string) =>
+  type === 'admin' ? 'admin' as const : type === 'bot' ? 'bot' as const : 'customer' as const;
+
+/**
+ * Builds the full typed timeline, keeping notes, assignments and state changes
+ */
+const buildTimeline = (rawConversation: IntercomConversation): TimelineEvent[] => {
+  const timeline: TimelineEvent[] = [{
+    id: 'source',
+    kind: 'comment',
+    partType: rawConversation.source.type,
+    author: {
+      name: rawConversation.source.author.name || 'Unknown',
+      type: getAuthorType(rawConversation.source.author.type),
+    },
+    body: rawConversation.source.body || undefined,
+    createdAt: new Date(rawConversation.created_at * 1000).toISOString(),
+  }];
+
+  (rawConversation.conversation_parts?.conversation_parts || []).forEach(part => {
+    timeline.push({
+      id: part.id,
+      kind: getTimelineEventKind(part),
+      partType: part.part_type,
+      author: {
+        name: part.author.name || 'Unknown',
+        type: getAuthorType(part.author.type),
+      },
+      body: part.body || undefined,
+      createdAt: new Date(part.created_at * 1000).toISOString(),
+      assignedTo: part.assigned_to ? part.assigned_to.name || part.assigned_to.id : undefined,
+      tags: part.tags?.map(tag => tag.name),
+    });
+  });
+
+  return timeline;
+};
+
+type IntercomTicketPart = NonNullable<IntercomTicket['ticket_parts']>['ticket_parts'][number];
+
+/**
+ * Builds the timeline for ticket parts, recording ticket state transitions
+ */
+const buildTicketTimeline = (ticket: IntercomTicket): TimelineEvent[] => {
+  return (ticket.ticket_parts?.ticket_parts || []).map((part: IntercomTicketPart) => {
+    const isStateChange = !!part.ticket_state && part.previous_ticket_state !== part.ticket_state;
+    return {
+      id: part.id,
+      kind: isStateChange ? 'state_change' as const : getTimelineEventKind(part),
+      partType: part.part_type,
+      author: {
+        name: part.author.name || 'Unknown',
+        type: getAuthorType(part.author.type),
+      },
+      body: isStateChange
+        ? `${part.previous_ticket_state || 'new'} → ${part.ticket_state}`
+        : part.body || undefined,
+      createdAt: new Date(part.created_at * 1000).toISOString(),
+    };
+  });
+};
+
+// Company custom attributes that commonly hold the customer's App ID
+const APP_ID_ATTRIBUTES = ['app_id', 'App ID', 'appId', 'workspace_id'];
+
+/**
+ * Derives template environment fields from an Intercom contact and its companies
+ */
+const buildContactEnrichment = (contact: IntercomContact, companies: IntercomCompany[]): ContactEnrichment => {
+  const enrichment: ContactEnrichment = {
+    contactId: contact.id,
+    companies: companies.map(company => ({
+      id: company.id,
+      name: company.name,
+      plan: company.plan?.name,
+    })),
+  };
+
+  if (contact.browser) {
+    enrichment.browser = {
+      value: [contact.browser, contact.browser_version].filter(Boolean).join(' '),
+      source: 'Intercom contact · browser',
+    };
+  } else if (contact.ios_app_version || contact.android_app_version) {
+    enrichment.browser = {
+      value: contact.ios_app_version ? `iOS app ${contact.ios_app_version}` : `Android app ${contact.android_app_version}`,
+      source: 'Intercom contact · mobile app version',
+    };
+  }
+
+  if (contact.os) {
+    enrichment.operatingSystem = { value: contact.os, source: 'Intercom contact · os' };
+  } else if (contact.ios_os_version || contact.android_os_version) {
+    enrichment.operatingSystem = {
+      value: contact.ios_os_version ? `iOS ${contact.ios_os_version}` : `Android ${contact.android_os_version}`,
+      source: 'Intercom contact · mobile os version',
+    };
+  }
+
+  if (contact.ios_device || contact.android_device) {
+    enrichment.device = {
+      value: contact.ios_device || contact.android_device,
+      source: `Intercom contact · ${contact.ios_device ? 'ios_device' : 'android_device'}`,
+    };
+  } else if (contact.os) {
+    // The web SDK only reports an OS string, so infer the device class from it
+    const isMobile = /ios|iphone|ipad|android/i.test(contact.os);
+    enrichment.device = {
+      value: isMobile ? (/ipad|tablet/i.test(contact.os) ? 'tablet' : 'phone') : 'desktop',
+      source: 'Inferred from Intercom contact os',
+    };
+  }
+
+  if (contact.location?.country) {
+    enrichment.location = {
+      value: [contact.location.city, contact.location.region, contact.location.country].filter(Boolean).join(', '),
+      source: 'Intercom contact · location',
+    };
+  }
+
+  if (contact.last_seen_at) {
+    enrichment.lastSeenAt = {
+      value: new Date(contact.last_seen_at * 1000).toISOString(),
+      source: 'Intercom contact · last_seen_at',
+    };
+  }
+
+  for (const company of companies) {
+    const attribute = APP_ID_ATTRIBUTES.find(key => company.custom_attributes?.[key]);
+    if (attribute) {
+      enrichment.appId = {
+        value: String(company.custom_attributes[attribute]),
+        source: `Intercom company "${company.name}" · ${attribute}`,
+      };
+      break;
+    }
+    if (company.company_id && /^\d+$/.test(company.company_id)) {
+      enrichment.appId = {
+        value: company.company_id,
+        source: `Intercom company "${company.name}" · company_id`,
+      };
+      break;
+    }
+  }
+
+  return enrichment;
+};
+
+/**
+ * Fetches the conversation's contact and companies to pre-fill environment fields
+ */
+export const fetchContactEnrichment = async (
+  contactId: string,
+  workspaceId?: string
+): Promise<ApiResponse<ContactEnrichment>> => {
+  try {
+    const client = getIntercomClient(workspaceId);
+    console.log(`Fetching contact ${contactId} for enrichment...`);
+
+    const [contactResponse, companiesResponse]: [
+      AxiosResponse<IntercomContact>,
+      AxiosResponse<{ data: IntercomCompany[] }>
+    ] = await Promise.all([
+      client.get(`/contacts/${contactId}`),
+      client.get(`/contacts/${contactId}/companies`),
+    ]);
+
+    return {
+      success: true,
+      data: buildContactEnrichment(contactResponse.data, companiesResponse.data.data || []),
+    };
+  } catch (error) {
+    console.error('Error fetching contact enrichment:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'ENRICHMENT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch contact details',
+        details: error,
+      },
+    };
+  }
+};
+
 /**
  * Processes raw Intercom conversation data into our application format
  */
-const processConversationData = (rawConversation: IntercomConversation): ProcessedConversation => {
+export const processConversationData = (
+  rawConversation: IntercomConversation,
+  missingPartCount = 0,
+  workspaceId?: string
+): ProcessedConversation => {
   // Extract customer information from conversation parts (find first user type)
   let customer = rawConversation.contacts?.[0];
   
@@ -180,28 +666,16 @@ const processConversationData = (rawConversation: IntercomConversation): Process
   // Extract tags and custom attributes
   const tags = rawConversation.tags?.tags?.map((tag: any) => tag.name) || [];
   
-  // Add useful custom attributes as tags for context
-  const customAttributes = rawConversation.custom_attributes || {};
-  const additionalTags = [];
-  
-  if (customAttributes['Query Type']) {
-    additionalTags.push(`Query: ${customAttributes['Query Type']}`);
-  }
-  if (customAttributes['AI Issue summary']) {
-    additionalTags.push('AI Summary Available');
-  }
-  if (customAttributes['Brand']) {
-    additionalTags.push(`Brand: ${customAttributes['Brand']}`);
-  }
-  
-  const allTags = [...tags, ...additionalTags];
+  // Derive tags, priority and issue fields from the configured attribute mapping rules
+  const mapping = applyAttributeMapping(rawConversation.custom_attributes || {});
+  const allTags = [...tags, ...mapping.tags];
 
   // Determine priority
   let priority: 'low' | 'medium' | 'high' = 'medium';
   if (rawConversation.priority === 'priority') {
     priority = 'high';
-  } else if (customAttributes['Customer Experience (CX) rating'] && customAttributes['Customer Experience (CX) rating'] <= 2) {
-    priority = 'high';
+  } else if (mapping.priority) {
+    priority = mapping.priority;
   } else if (allTags.some((tag: string) => tag.toLowerCase().includes('urgent') || tag.toLowerCase().includes('critical'))) {
     priority = 'high';
   } else if (allTags.some((tag: string) => tag.toLowerCase().includes('low'))) {
@@ -210,36 +684,328 @@ const processConversationData = (rawConversation: IntercomConversation): Process
 
   return {
     id: rawConversation.id,
+    workspaceId: getIntercomWorkspace(workspaceId)?.id,
     title: rawConversation.source.subject || rawConversation.title || 'Untitled Conversation',
     customerName: customer?.name || 'Unknown Customer',
     customerEmail: customer?.email || '',
+    contactId: rawConversation.contacts?.[0]?.id,
     createdAt: new Date(rawConversation.created_at * 1000).toISOString(),
     updatedAt: new Date(rawConversation.updated_at * 1000).toISOString(),
     status: rawConversation.state === 'closed' ? 'closed' : 'open',
     messages,
+    timeline: buildTimeline(rawConversation),
     tags: allTags,
     priority,
-    customAttributes,
+    customAttributes: mapping.customAttributes,
+    issueFields: mapping.issueFields,
+    isPartialThread: missingPartCount > 0,
+    missingPartCount,
   };
 };
 
+// Ticket attributes that hold the category and the affected feature, first match wins
+const TICKET_CATEGORY_ATTRIBUTES = ['Category', 'category', 'Issue category'];
+const TICKET_FEATURE_ATTRIBUTES = ['Affected feature', 'affected_feature', 'Feature', 'Product area'];
+
+const findTicketAttribute = (attributes: Record<string, unknown>, names: string[]): string | undefined => {
+  const name = names.find(candidate => attributes[candidate] !== undefined && attributes[candidate] !== null && attributes[candidate] !== '');
+  return name ? String(attributes[name]) : undefined;
+};
+
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }) =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
 /**
- * Formats conversation data for LLM analysis
+ * Processes a raw Intercom ticket into our application format, folding in the
+ * thread of its linked conversation when there is one
+ */
+export const processTicketData = (
+  ticket: IntercomTicket,
+  linkedConversation: ProcessedConversation | null,
+  contact: IntercomContact | null,
+  workspaceId?: string
+): ProcessedConversation => {
+  const {
+    _default_title_: defaultTitle,
+    _default_description_: defaultDescription,
+    ...attributes
+  } = ticket.ticket_attributes || {};
+
+  const customerName = linkedConversation?.customerName || contact?.name || 'Unknown Customer';
+  const customerEmail = linkedConversation?.customerEmail || contact?.email || '';
+  const createdAt = new Date(ticket.created_at * 1000).toISOString();
+
+  const messages: ConversationMessage[] = [...(linkedConversation?.messages || [])];
+  if (defaultDescription) {
+    messages.push({
+      id: 'ticket-description',
+      author: { name: customerName, email: customerEmail, type: 'customer' },
+      body: String(defaultDescription),
+      createdAt,
+    });
+  }
+  (ticket.ticket_parts?.ticket_parts || [])
+    .filter(part => part.body && part.part_type === 'comment')
+    .forEach(part => {
+      messages.push({
+        id: part.id,
+        author: {
+          name: part.author.name || 'Unknown',
+          email: part.author.email || '',
+          type: getAuthorType(part.author.type),
+        },
+        body: part.body,
+        createdAt: new Date(part.created_at * 1000).toISOString(),
+        attachments: part.attachments?.map(attachment => ({
+          name: attachment.name,
+          url: attachment.url,
+          contentType: attachment.content_type,
+        })),
+      });
+    });
+
+  // Ticket attributes run through the same mapping rules as conversation custom attributes
+  const mapping = applyAttributeMapping(attributes);
+  const tags = Array.from(new Set([...(linkedConversation?.tags || []), ...mapping.tags]));
+
+  return {
+    id: ticket.id,
+    workspaceId: getIntercomWorkspace(workspaceId)?.id,
+    sourceType: 'ticket',
+    ticket: {
+      ticketNumber: ticket.ticket_id,
+      typeName: ticket.ticket_type?.name || 'Ticket',
+      category: findTicketAttribute(attributes, TICKET_CATEGORY_ATTRIBUTES) || ticket.category,
+      state: ticket.ticket_state,
+      affectedFeature: findTicketAttribute(attributes, TICKET_FEATURE_ATTRIBUTES),
+      linkedConversationIds: (ticket.linked_objects?.data || [])
+        .filter(linked => linked.type === 'conversation')
+        .map(linked => linked.id),
+    },
+    title: (defaultTitle && String(defaultTitle)) || linkedConversation?.title || ticket.ticket_type?.name || 'Untitled Ticket',
+    customerName,
+    customerEmail,
+    contactId: ticket.contacts?.contacts?.[0]?.id || linkedConversation?.contactId,
+    createdAt,
+    updatedAt: new Date(ticket.updated_at * 1000).toISOString(),
+    status: ticket.ticket_state === 'resolved' ? 'closed' : 'open',
+    messages: messages.sort(byCreatedAt),
+    timeline: [...(linkedConversation?.timeline || []), ...buildTicketTimeline(ticket)].sort(byCreatedAt),
+    tags,
+    priority: mapping.priority || linkedConversation?.priority || 'medium',
+    customAttributes: { ...linkedConversation?.customAttributes, ...mapping.customAttributes },
+    issueFields: { ...linkedConversation?.issueFields, ...mapping.issueFields },
+    isPartialThread: linkedConversation?.isPartialThread,
+    missingPartCount: linkedConversation?.missingPartCount,
+  };
+};
+
+/**
+ * Fetches an Intercom ticket, its linked conversation and its contact
  */
-export const formatConversationForAnalysis = (conversation: ProcessedConversation): string => {
-  const formattedMessages = conversation.messages
-    .map((message, index) => {
-      const timestamp = new Date(message.createdAt).toLocaleString();
-      const authorType = message.author.type.toUpperCase();
-      // Strip HTML tags for cleaner analysis
-      const cleanBody = message.body.replace(/<[^>]*>/g, '');
-      return `
-Message ${index + 1} [${timestamp}] - ${authorType}: ${message.author.name}
+export const fetchTicket = async (
+  ticketId: string,
+  workspaceId?: string
+): Promise<ApiResponse<ProcessedConversation>> => {
+  try {
+    if (!validateConversationId(ticketId)) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_ID',
+          message: 'Ticket ID must be a numeric value',
+        },
+      };
+    }
+
+    console.log(`Fetching ticket ${ticketId}...`);
+
+    const client = getIntercomClient(workspaceId);
+    const response: AxiosResponse<IntercomTicket> = await client.get(`/tickets/${ticketId.trim()}`);
+    const ticket = response.data;
+
+    // The customer's messages usually live in the conversation the ticket was raised from
+    let linkedConversation: ProcessedConversation | null = null;
+    const linkedConversationId = ticket.linked_objects?.data?.find(linked => linked.type === 'conversation')?.id;
+    if (linkedConversationId) {
+      try {
+        const { conversation, missingPartCount } = await fetchFullConversation(client, linkedConversationId);
+        linkedConversation = processConversationData(conversation, missingPartCount, workspaceId);
+      } catch (error) {
+        console.warn(`Could not fetch conversation ${linkedConversationId} linked to ticket ${ticketId}:`, error);
+      }
+    }
+
+    let contact: IntercomContact | null = null;
+    const contactId = ticket.contacts?.contacts?.[0]?.id;
+    if (!linkedConversation && contactId) {
+      try {
+        const contactResponse: AxiosResponse<IntercomContact> = await client.get(`/contacts/${contactId}`);
+        contact = contactResponse.data;
+      } catch (error) {
+        console.warn(`Could not fetch contact ${contactId} for ticket ${ticketId}:`, error);
+      }
+    }
+
+    console.log('Ticket fetched successfully:', ticket.id);
+
+    return {
+      success: true,
+      data: processTicketData(ticket, linkedConversation, contact, workspaceId),
+    };
+  } catch (error) {
+    console.error('Error fetching ticket:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch ticket',
+        details: error,
+      },
+    };
+  }
+};
+
+/**
+ * Resolves the admin that write-back actions are attributed to in a workspace
+ */
+const getWriteBackAdminId = async (client: AxiosInstance, workspaceId?: string): Promise<string> => {
+  const configuredAdminId = getIntercomWorkspace(workspaceId)?.adminId;
+  if (configuredAdminId) return configuredAdminId;
+
+  // Fall back to the admin that owns the access token
+  const response: AxiosResponse<{ type: 'admin'; id: string }> = await client.get('/me');
+  return response.data.id;
+};
+
+/**
+ * Posts the GitHub issue link as an internal note and tags the conversation
+ */
+export const writeBackIssueToConversation = async (
+  conversationId: string,
+  issue: { number: number; html_url: string; title: string },
+  workspaceId?: string,
+  sourceType: IntercomSourceType = 'conversation',
+  tagName: string = import.meta.env.VITE_INTERCOM_WRITEBACK_TAG || DEFAULT_WRITE_BACK_TAG
+): Promise<ApiResponse<IntercomWriteBackResult>> => {
+  const result: IntercomWriteBackResult = {
+    notePosted: false,
+    tagApplied: null,
+    errors: [],
+  };
+
+  try {
+    const client = getIntercomClient(workspaceId);
+    const adminId = await getWriteBackAdminId(client, workspaceId);
+    const resourcePath = sourceType === 'ticket' ? `/tickets/${conversationId}` : `/conversations/${conversationId}`;
+
+    console.log(`Writing issue #${issue.number} back to conversation ${conversationId}...`);
+
+    try {
+      await client.post(`${resourcePath}/reply`, {
+        message_type: 'note',
+        type: 'admin',
+        admin_id: adminId,
+        body: `<p>GitHub issue <a href="${escapeHtml(issue.html_url)}">#${issue.number}</a> filed: ${escapeHtml(issue.title)}</p>`,
+      });
+      result.notePosted = true;
+    } catch (error) {
+      result.errors.push(`Note: ${error instanceof Error ? error.message : 'Failed to post note'}`);
+    }
+
+    if (tagName) {
+      try {
+        // Creating a tag that already exists returns the existing one
+        const tagResponse: AxiosResponse<{ id: string; name: string }> = await client.post('/tags', { name: tagName });
+        await client.post(`${resourcePath}/tags`, {
+          id: tagResponse.data.id,
+          admin_id: adminId,
+        });
+        result.tagApplied = tagResponse.data.name;
+      } catch (error) {
+        result.errors.push(`Tag: ${error instanceof Error ? error.message : 'Failed to apply tag'}`);
+      }
+    }
+
+    if (!result.notePosted && !result.tagApplied) {
+      return {
+        success: false,
+        error: {
+          code: 'WRITE_BACK_ERROR',
+          message: result.errors.join('; ') || 'Failed to update Intercom conversation',
+          details: result,
+        },
+      };
+    }
+
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    console.error('Error writing back to Intercom:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'WRITE_BACK_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update Intercom conversation',
+        details: error,
+      },
+    };
+  }
+};
+
+// Between messages of the formatted thread
+export const MESSAGE_SEPARATOR = '\n\n---\n\n';
+
+/**
+ * Formats one message of the thread for LLM analysis
+ */
+export const formatMessageForAnalysis = (message: ConversationMessage, index: number): string => {
+  const timestamp = new Date(message.createdAt).toLocaleString();
+  const authorType = message.author.type.toUpperCase();
+  // Convert HTML to Markdown so links, code and quoted errors survive
+  const cleanBody = htmlToMarkdown(message.body);
+  return `
+Message ${index + 1} (id ${message.id}) [${timestamp}] - ${authorType}: ${message.author.name}
 ${cleanBody}
 ${message.attachments?.length ? `Attachments: ${message.attachments.map(a => a.name).join(', ')}` : ''}
-      `.trim();
+  `.trim();
+};
+
+/**
+ * Formats conversation data for LLM analysis
+ */
+export const formatConversationForAnalysis = (
+  conversation: ProcessedConversation,
+  // Replaces the message thread, e.g. with a condensed version of a long conversation
+  thread?: string
+): string => {
+  const formattedMessages = thread ?? conversation.messages
+    .map((message, index) => formatMessageForAnalysis(message, index))
+    .join(MESSAGE_SEPARATOR);
+
+  // Internal notes are kept verbatim since agents write escalation decisions there
+  const internalEventsText = conversation.timeline
+    .filter(event => event.kind !== 'comment' && event.kind !== 'other')
+    .map(event => {
+      const timestamp = new Date(event.createdAt).toLocaleString();
+      switch (event.kind) {
+        case 'note':
+          return `[${timestamp}] INTERNAL NOTE by ${event.author.name}: ${htmlToMarkdown(event.body)}`;
+        case 'assignment':
+          return `[${timestamp}] ASSIGNED to ${event.assignedTo || 'unassigned'} by ${event.author.name}`;
+        case 'state_change':
+          return `[${timestamp}] TICKET STATE ${event.body} by ${event.author.name}`;
+        case 'tag_change':
+          return `[${timestamp}] TAGGED ${event.tags?.join(', ') || event.partType} by ${event.author.name}`;
+        default:
+          return `[${timestamp}] ${event.kind.toUpperCase()} by ${event.author.name}`;
+      }
     })
-    .join('\n\n---\n\n');
+    .join('\n');
 
   // Include custom attributes that are useful for issue creation
   const customAttributesText = conversation.customAttributes ? Object.entries(conversation.customAttributes)
@@ -247,6 +1013,15 @@ ${message.attachments?.length ? `Attachments: ${message.attachments.map(a => a.n
     .map(([key, value]) => `- ${key}: ${value}`)
     .join('\n') : '';
 
+  const ticketText = conversation.ticket ? `
+
+TICKET DETAILS:
+- Ticket: #${conversation.ticket.ticketNumber} (${conversation.ticket.typeName})
+- Category: ${conversation.ticket.category}
+- State: ${conversation.ticket.state}
+- Affected Feature: ${conversation.ticket.affectedFeature || 'Not specified'}
+- Linked Conversations: ${conversation.ticket.linkedConversationIds.join(', ') || 'None'}` : '';
+
   return `
 CONVERSATION DETAILS:
 - ID: ${conversation.id}
@@ -256,12 +1031,16 @@ CONVERSATION DETAILS:
 - Priority: ${conversation.priority}
 - Tags: ${conversation.tags.join(', ') || 'None'}
 - Created: ${new Date(conversation.createdAt).toLocaleString()}
-- Updated: ${new Date(conversation.updatedAt).toLocaleString()}
+- Updated: ${new Date(conversation.updatedAt).toLocaleString()}${conversation.isPartialThread ? `
+- WARNING: Partial thread, ${conversation.missingPartCount} most recent parts could not be fetched` : ''}${ticketText}
 
 CUSTOM ATTRIBUTES:
 ${customAttributesText || 'None'}
 
 CONVERSATION THREAD:
 ${formattedMessages}
+
+INTERNAL NOTES & EVENTS:
+${internalEventsText || 'None'}
   `.trim();
 }; 
\ No newline at end of file
@@ -0,0 +1,123 @@
+import type { IntercomWorkspace, IntercomRegion } from '../types/workspace';
+import type { IntercomSourceType } from '../types/conversation';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const INTERCOM_REGION_HOSTS: Record<IntercomRegion, string> = {
+  us: 'https://api.intercom.io',
+  eu: 'https://api.eu.intercom.io',
+  au: 'https://api.au.intercom.io',
+};
+
+// Development proxies configured in vite.config.ts
+const INTERCOM_REGION_PROXIES: Record<IntercomRegion, string> = {
+  us: '/api/intercom',
+  eu: '/api/intercom-eu',
+  au: '/api/intercom-au',
+};
+
+const isRegion = (value: unknown): value is IntercomRegion =>
+  value === 'us' || value === 'eu' || value === 'au';
+
+/**
+ * Reads the workspace profiles from VITE_INTERCOM_WORKSPACES (a JSON array),
+ * falling back to a single workspace built from the legacy environment variables
+ */
+const loadWorkspaces = (): IntercomWorkspace[] => {
+  const raw = import.meta.env.VITE_INTERCOM_WORKSPACES;
+
+  if (raw) {
+    try {
+      const parsed: Array<Partial<IntercomWorkspace>> = JSON.parse(raw);
+      return parsed
+        .filter(workspace => workspace.id && workspace.accessToken)
+        .map(workspace => ({
+          id: workspace.id,
+          name: workspace.name || workspace.id,
+          appIds: workspace.appIds || [],
+          accessToken: workspace.accessToken,
+          region: isRegion(workspace.region) ? workspace.region : 'us',
+          adminId: workspace.adminId ? String(workspace.adminId) : undefined,
+          githubTarget: workspace.githubTarget,
+        }));
+    } catch (error) {
+      console.error('Failed to parse VITE_INTERCOM_WORKSPACES:', error);
+    }
+  }
+
+  const accessToken = import.meta.env.VITE_INTERCOM_ACCESS_TOKEN || import.meta.env.VITE_testworkspace;
+  if (!accessToken) return [];
+
+  const owner = import.meta.env.VITE_GITHUB_OWNER;
+  const repo = import.meta.env.VITE_GITHUB_REPO;
+
+  return [{
+    id: DEFAULT_WORKSPACE_ID,
+    name: 'Default',
+    appIds: [],
+    accessToken,
+    region: isRegion(import.meta.env.VITE_INTERCOM_REGION) ? import.meta.env.VITE_INTERCOM_REGION : 'us',
+    adminId: import.meta.env.VITE_INTERCOM_ADMIN_ID || undefined,
+    githubTarget: owner && repo ? { owner, repo } : undefined,
+  }];
+};
+
+const workspaces = loadWorkspaces();
+
+/**
+ * Returns every configured Intercom workspace
+ */
+export const getIntercomWorkspaces = (): IntercomWorkspace[] => workspaces;
+
+/**
+ * Looks up a workspace by ID; without an ID, the first configured one.
+ * Undefined for an ID no profile has, so a request never goes out with another workspace's token
+ */
+export const getIntercomWorkspace = (workspaceId?: string | null): IntercomWorkspace | undefined => {
+  if (!workspaceId) return workspaces[0];
+  return workspaces.find(workspace => workspace.id === workspaceId);
+};
+
+/**
+ * Extracts the app ID segment from an Intercom URL (/a/apps/<appId>/ or /a/inbox/<appId>/)
+ */
+export const extractAppId = (url: string): string | null => {
+  const match = url.match(/\/a\/(?:apps|inbox)\/([a-z0-9]+)/i);
+  return match ? match[1] : null;
+};
+
+/**
+ * Resolves the workspace a pasted conversation URL belongs to. Undefined when the URL names an app no
+ * profile lists, unless the only workspace is one without app IDs (the legacy single-workspace setup)
+ */
+export const resolveWorkspaceFromUrl = (url: string): IntercomWorkspace | undefined => {
+  const appId = extractAppId(url);
+  if (!appId) return getIntercomWorkspace();
+
+  const matched = workspaces.find(workspace => workspace.appIds.includes(appId));
+  if (matched) return matched;
+  return workspaces.length === 1 && workspaces[0].appIds.length === 0 ? workspaces[0] : undefined;
+};
+
+/**
+ * API base URL for a workspace's region, through the dev proxy when running locally
+ */
+export const getWorkspaceBaseUrl = (workspace: IntercomWorkspace): string => {
+  return import.meta.env.DEV
+    ? INTERCOM_REGION_PROXIES[workspace.region]
+    : INTERCOM_REGION_HOSTS[workspace.region];
+};
+
+/**
+ * Builds the inbox link for a conversation (or ticket) in the given workspace
+ */
+export const buildConversationUrl = (
+  workspace: IntercomWorkspace | undefined,
+  conversationId: string,
+  sourceType: IntercomSourceType = 'conversation'
+): string => {
+  const appId = workspace?.appIds[0];
+  return appId
+    ? `https://app.intercom.com/a/apps/${appId}/inbox/${sourceType}/${conversationId}`
+    : `https://app.intercom.io/inbox/${sourceType}/${conversationId}`;
+};
@@ -1,61 +1,48 @@
-import axios from 'axios';
-import type { ProcessedConversation, ConversationAnalysis, ApiResponse } from '../types/conversation';
-
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-
-// Create axios instance for OpenAI
-const openaiClient = axios.create({
-  baseURL: OPENAI_API_URL,
-  timeout: 30000,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
-
-// Add authorization header
-openaiClient.interceptors.request.use(
-  (config) => {
-    const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    if (apiKey) {
-      config.headers.Authorization = `Bearer ${apiKey}`;
-    }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Response interceptor for error handling
-openaiClient.interceptors.response.use(
-  (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      throw new Error('Invalid OpenAI API key. Please check your environment variables.');
-    }
-    if (error.response?.status === 429) {
-      throw new Error('OpenAI API rate limit exceeded. Please try again in a moment.');
-    }
-    if (error.code === 'ECONNABORTED') {
-      throw new Error('Request timeout. The analysis is taking too long.');
-    }
-    throw new Error(error.response?.data?.error?.message || 'Failed to analyze conversation');
-  }
-);
+import { getIntercomWorkspaces } from './intercomWorkspaces';
+import { getLLMProviderConfig, getMissingLLMVariables } from './llmProviders';
+import { completeStructured, extractPartialJsonString, streamStructured } from './structuredOutput';
+import { renderPrompt } from './promptRegistry';
+import { bugDetectionResultSchema, issueGenerationResultSchema, translationResultSchema } from './llmSchemas';
+import { createConversationRedactor } from './redaction';
+import { formatAttachmentsMarkdown } from './attachmentStore';
+import { formatConversationForAnalysis } from './intercomApi';
+import { condenseThread } from './conversationCondenser';
+import { getBugDetectionEnsemble, runBugDetectionEnsemble } from './detectionEnsemble';
+import { formatFewShotExamples, selectFewShotExamples, toFewShotReferences } from './fewShotLibrary';
+import { estimateTokens, getContextWindow } from '../utils/tokens';
+import { formatOriginalLanguageSection, getTranslatableTexts } from '../utils/language';
+import { formatEvidenceMarkdown, resolveEvidenceCitations } from '../utils/evidence';
+import type { ProcessedConversation, ConversationAnalysis, ApiResponse, ConversationTranslation, IssueDraft, EvidenceCitation } from '../types/conversation';
+import type { ConversationCondensation, LLMCompletionRequest } from '../types/llm';
+import type { BugDetectionEnsembleResult } from '../types/ensemble';
+import type { FewShotReference } from '../types/fewShot';
+
+const BUG_DETECTION_MAX_TOKENS = 1000;
+// Room for the conversation context block and formatting around the thread
+const PROMPT_OVERHEAD_TOKENS = 300;
+const TRANSLATION_MAX_TOKENS = 3000;
+// Source text per translation call; translations can run longer than the source, so this leaves headroom
+const TRANSLATION_BATCH_TOKENS = 1200;
 
 /**
  * Validates API configuration
  */
 export const validateApiConfiguration = (): { isValid: boolean; missingVars: string[] } => {
   const requiredVars = [
-    'VITE_INTERCOM_ACCESS_TOKEN',
-    'VITE_OPENAI_API_KEY',
     'VITE_GITHUB_TOKEN',
     'VITE_GITHUB_OWNER',
     'VITE_GITHUB_REPO'
   ];
   
-  const missingVars = requiredVars.filter(varName => !import.meta.env[varName]);
+  const missingVars = [
+    ...getMissingLLMVariables(),
+    ...requiredVars.filter(varName => !import.meta.env[varName]),
+  ];
+
+  // Either VITE_INTERCOM_WORKSPACES or the single-workspace token is enough
+  if (getIntercomWorkspaces().length === 0) {
+    missingVars.unshift('VITE_INTERCOM_ACCESS_TOKEN');
+  }
   
   return {
     isValid: missingVars.length === 0,
@@ -64,129 +51,47 @@ export const validateApiConfiguration = (): { isValid: boolean; missingVars: str
 };
 
 /**
- * Creates the system prompt for bug detection and initial analysis
+ * Formats the conversation for bug detection, condensing long threads so the prompt fits
+ * the bug detection model's context window
  */
-const createBugDetectionPrompt = (): string => {
-  return `You are an expert Technical Support Engineer at Intercom who analyzes customer conversations to determine if they require GitHub issue creation.
-
-Your primary task is to determine if a conversation represents a genuine bug/technical issue that needs engineering attention, or if it's a general inquiry, feature request, or resolved issue.
-
-CRITICAL ANALYSIS CRITERIA:
-
-**STRONG BUG INDICATORS:**
-- Agent explicitly mentions "logging this as a bug", "creating a ticket", "escalating to engineering"
-- Customer reports functionality that is "not working", "broken", "failing"
-- Error messages, error codes, or system failures mentioned
-- Unexpected behavior vs. documented functionality
-- Agent acknowledges the issue and suggests internal follow-up
-- Tags indicating "bug", "issue", "error", "broken"
-- Agent apologizes for the issue and mentions internal investigation
-
-**NOT A BUG INDICATORS:**
-- General "how to" questions
-- Feature requests or suggestions for improvements
-- Questions about pricing, billing, or account management
-- Issues resolved through explanation or user education
-- Agent successfully helps customer with existing functionality
-- Customer satisfaction achieved without identifying system problems
-
-**ANALYSIS PROCESS:**
-1. Examine agent responses for escalation language
-2. Look for customer reports of non-functioning features
-3. Check conversation tags and custom attributes for issue indicators
-4. Assess if the agent treated this as a technical problem requiring internal action
-5. Determine if this needs engineering investigation vs. customer education
-
-Return your response as a JSON object:
-{
-  "isBug": true/false,
-  "confidence": 0.0-1.0,
-  "reasoning": "Detailed explanation of why this is/isn't a bug",
-  "bugType": "bug|feature|question|resolved",
-  "severity": "low|medium|high",
-  "keyIndicators": ["list", "of", "indicators", "found"],
-  "agentEscalation": "Did the agent indicate this needs internal follow-up?",
-  "initialAnalysis": {
-    "title": "Brief issue title if bug",
-    "description": "What is the core problem?",
-    "customerImpact": "How is this affecting the customer?"
+export const prepareConversationForAnalysis = async (
+  conversation: ProcessedConversation
+): Promise<{ conversationData: string; condensation?: ConversationCondensation }> => {
+  const conversationData = formatConversationForAnalysis(conversation);
+  const config = getLLMProviderConfig('bugDetection');
+  const contextWindow = getContextWindow(config);
+  const budget = contextWindow
+    - estimateTokens(renderPrompt('bugDetection').text)
+    - estimateTokens(formatFewShotExamples(selectFewShotExamples(conversation)))
+    - (config.maxTokens ?? BUG_DETECTION_MAX_TOKENS)
+    - estimateTokens(JSON.stringify(conversation.customAttributes || {}))
+    - PROMPT_OVERHEAD_TOKENS;
+
+  const originalTokens = estimateTokens(conversationData);
+  if (originalTokens <= budget) {
+    return { conversationData };
   }
-}
-
-If isBug is false, provide clear reasoning and stop analysis there.
-If isBug is true, provide initial analysis for the GitHub issue creation process.`;
-};
-
-/**
- * Enhanced system prompt for full GitHub issue generation (after bug confirmation)
- */
-const createIssueGenerationPrompt = (): string => {
-  return `You are an expert Technical Support Engineer creating a GitHub issue from a confirmed bug report.
-
-You have additional context provided by the TSE including screenshots, reproduction steps, and technical details.
-
-Create a GitHub issue following this EXACT template:
-
-## Description of the issue
-A concise description of what the problem is. What was the customer trying to achieve, and what actually occurred?
-
-## Issue details
-
-**APP ID:**
-*Please provide the App ID (numbers), not the code.*
-
-**1. What is the error message?**
-*Please write the full error message received by the customer. If there is no error message, write 'N/A'*
-
-**2. Is the issue affecting all teammates or just the customer who reported the issue?**
-
-**3. When did the issue first occur? Is it happening every time or intermittently? Have they experienced this before, or is this the first time?**
-*Please include timestamp when possible.*
-
-**4. What device was the customer was using when they received the error?**
-e.g. desktop, phone, tablet
 
-**5. Which browser (and version) or app version were they using?**
-
-**6. What operating system and version were they on?**
-
-## Evidence
-**Screenshots URLs** (*Please use Droplr. to get the screenshots URLs):*
-**[Optional] Replication steps video URL** (*Please add a video showing the issue and make sure your video includes audio*):*
-
-## Links
-*Please add any relevant links to support this investigation.*
-
-* Link to the user affected:
-* Link to the affected conversation:
-* Link to the affected page in Intercom:
-
-## Steps to reproduce
-Make sure to try and reproduce all issues in the **region** matching that of the impacted customer. As well as the reproduction video, please also describe the steps taken to reproduce the issue.
-*If you can't reproduce the issue yourself, please note reproduction steps that the customer is doing in order to reproduce the issue.*
-
-**1. One:**
-**2. Two:**
-**3. Three:**
-
-If the issue is happening on the customer's website, please provide:
-
-**1. Website:**
-**2. Login credentials:**
-
-Use the enhanced information provided by the TSE to fill in as many details as possible.
+  // Everything but the thread is kept as is
+  const threadBudget = budget - estimateTokens(formatConversationForAnalysis(conversation, ''));
+  const condensed = await condenseThread(conversation, threadBudget);
+  const condensedData = formatConversationForAnalysis(conversation, condensed.thread);
+  const condensation: ConversationCondensation = {
+    totalMessages: conversation.messages.length,
+    verbatimMessages: condensed.verbatimMessages,
+    condensedMessages: condensed.condensedMessages,
+    chunks: condensed.chunks,
+    promptVersion: condensed.promptVersion,
+    originalTokens,
+    condensedTokens: estimateTokens(condensedData),
+    contextWindow,
+  };
+  console.log(`Condensed conversation ${conversation.id} from ~${originalTokens} to ~${condensation.condensedTokens} tokens`);
+  if (condensation.condensedTokens > budget) {
+    console.warn(`Condensed conversation still exceeds the ~${budget} token budget; the model may truncate it`);
+  }
 
-Return as JSON:
-{
-  "issueTemplate": {
-    "title": "Clear, specific issue title",
-    "body": "Full template following exact format above",
-    "labels": ["appropriate", "labels"],
-    "priority": "low|medium|high"
-  },
-  "confidence": 0.8,
-  "summary": "Brief summary of the issue"
-}`;
+  return { conversationData: condensedData, condensation };
 };
 
 /**
@@ -199,25 +104,35 @@ export const detectBugFromConversation = async (
   try {
     console.log('Starting bug detection analysis...');
     
-    const userPrompt = `Analyze this Intercom conversation to determine if it represents a bug requiring GitHub issue creation.
+    const redactor = createConversationRedactor(conversation);
+    const examples = selectFewShotExamples(conversation);
+    const userPrompt = redactor.redact(`Analyze this Intercom conversation to determine if it represents a bug requiring GitHub issue creation.
 
 CONVERSATION DATA:
 ${conversationData}
 
 CONVERSATION CONTEXT:
 - Customer: ${conversation.customerName} (${conversation.customerEmail})
+- Language: ${conversation.language ? `${conversation.language.name}${conversation.isTranslated ? ' (machine-translated to English above)' : ''}` : 'Not detected'}
 - Status: ${conversation.status}
 - Tags: ${conversation.tags.join(', ') || 'None'}
 - Custom Attributes: ${JSON.stringify(conversation.customAttributes || {}, null, 2)}
 
-Focus on agent language, escalation signals, error reports, and technical issues that would require engineering investigation.`;
+Focus on agent language, escalation signals, error reports, and technical issues that would require engineering investigation.${conversation.isTranslated ? `
+Translation tends to soften tone: treat politeness formulas as neutral and weigh frustration, urgency and churn threats as the customer originally expressed them.` : ''}${examples.length > 0 ? `
 
-    const response = await openaiClient.post('', {
-      model: 'gpt-4',
+${formatFewShotExamples(examples)}` : ''}`);
+    console.log(`Redacted ${redactor.entries.length} sensitive values before bug detection`);
+    if (examples.length > 0) {
+      console.log(`Added ${examples.length} past triage decisions as examples`);
+    }
+
+    const systemPrompt = renderPrompt('bugDetection');
+    const request: LLMCompletionRequest = {
       messages: [
         {
           role: 'system',
-          content: createBugDetectionPrompt(),
+          content: systemPrompt.text,
         },
         {
           role: 'user',
@@ -225,53 +140,155 @@ Focus on agent language, escalation signals, error reports, and technical issues
         },
       ],
       temperature: 0.2,
-      max_tokens: 1000,
-    });
+      maxTokens: BUG_DETECTION_MAX_TOKENS,
+      conversationId: conversation.id,
+      promptVersion: systemPrompt.tag,
+    };
+    const ensemble = getBugDetectionEnsemble();
+    const response = ensemble
+      ? await runBugDetectionEnsemble(ensemble, request)
+      : await completeStructured('bugDetection', request, bugDetectionResultSchema);
+
+    if (!response.success || !response.data) {
+      console.error('Bug detection output failed validation:', response.error?.details);
+      return response;
+    }
+    console.log('Bug Detection Response:', response.data);
 
-    const aiResponse = response.data.choices[0].message.content;
-    console.log('Bug Detection Response:', aiResponse);
+    // Placeholders are mapped back so the TSE sees the real values, and so quotes match the thread
+    const result = redactor.restoreDeep(response.data);
+    return {
+      success: true,
+      data: {
+        ...result,
+        evidence: resolveEvidenceCitations(conversation.messages, result.evidence),
+        fewShotExamples: examples.length > 0 ? toFewShotReferences(examples) : undefined,
+        promptVersion: systemPrompt.tag,
+      },
+    };
 
-    try {
-      const detectionResult = JSON.parse(aiResponse);
-      
-      return {
-        success: true,
-        data: {
-          isBug: detectionResult.isBug || false,
-          confidence: detectionResult.confidence || 0.5,
-          reasoning: detectionResult.reasoning || 'Analysis completed',
-          bugType: detectionResult.bugType || 'question',
-          severity: detectionResult.severity || 'medium',
-          keyIndicators: detectionResult.keyIndicators || [],
-          agentEscalation: detectionResult.agentEscalation || 'Not indicated',
-          initialAnalysis: detectionResult.initialAnalysis || {
-            title: 'Issue from conversation',
-            description: 'No description available',
-            customerImpact: 'Unknown impact'
-          }
-        }
-      };
-    } catch (parseError) {
-      console.error('Failed to parse bug detection response:', parseError);
-      
+  } catch (error) {
+    console.error('Error during bug detection:', error);
+    
+    return {
+      success: false,
+      error: {
+        code: 'DETECTION_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to detect bug',
+        details: error,
+      },
+    };
+  }
+};
+
+/**
+ * Groups segments in thread order into batches of about TRANSLATION_BATCH_TOKENS
+ */
+const batchTranslationSegments = <T extends { id: string; text: string }>(segments: T[]): T[][] => {
+  const batches: T[][] = [];
+  let batchTokens = 0;
+  segments.forEach(segment => {
+    const tokens = estimateTokens(JSON.stringify(segment));
+    if (batches.length === 0 || batchTokens + tokens > TRANSLATION_BATCH_TOKENS) {
+      batches.push([]);
+      batchTokens = 0;
+    }
+    batches[batches.length - 1].push(segment);
+    batchTokens += tokens;
+  });
+  return batches;
+};
+
+/**
+ * Translates message and note bodies into English so non-English conversations can be analyzed
+ */
+export const translateConversation = async (
+  conversation: ProcessedConversation
+): Promise<ApiResponse<ConversationTranslation>> => {
+  try {
+    if (!conversation.language) {
       return {
         success: false,
         error: {
-          code: 'PARSE_ERROR',
-          message: 'Failed to parse bug detection results',
-          details: parseError,
+          code: 'NO_LANGUAGE',
+          message: 'The conversation language has not been detected',
         },
       };
     }
 
+    console.log(`Translating conversation ${conversation.id} from ${conversation.language.name}...`);
+
+    // Placeholders survive translation and are restored afterwards
+    const redactor = createConversationRedactor(conversation);
+    const texts = getTranslatableTexts(conversation);
+    const segments = Object.entries(texts).map(([id, text]) => ({ id, text: redactor.redact(text) }));
+
+    const systemPrompt = renderPrompt('translation', { language: conversation.language.name });
+    const batches = batchTranslationSegments(segments);
+    const translated: Record<string, string> = {};
+    const untranslatedIds: string[] = [];
+    let lastError: ApiResponse<unknown>['error'];
+
+    // One batch at a time, so a long thread neither overflows the output limit nor floods the provider
+    for (const [index, batch] of batches.entries()) {
+      const batchTokens = estimateTokens(JSON.stringify(batch));
+      const response = await completeStructured('translation', {
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt.text,
+          },
+          {
+            role: 'user',
+            content: JSON.stringify(batch),
+          },
+        ],
+        temperature: 0,
+        // A message too long to share a batch gets room for its whole translation
+        maxTokens: Math.max(TRANSLATION_MAX_TOKENS, batchTokens * 2),
+        conversationId: conversation.id,
+        promptVersion: systemPrompt.tag,
+        timeout: 60000,
+      }, translationResultSchema);
+
+      if (!response.success || !response.data) {
+        console.error(`Translation batch ${index + 1} of ${batches.length} failed validation:`, response.error?.details);
+        lastError = response.error;
+        untranslatedIds.push(...batch.map(segment => segment.id));
+        continue;
+      }
+
+      const batchIds = new Set(batch.map(segment => segment.id));
+      response.data.translations.forEach(({ id, text }) => {
+        if (batchIds.has(id) && text) translated[id] = redactor.restore(text);
+      });
+    }
+
+    if (Object.keys(translated).length === 0 && untranslatedIds.length > 0) {
+      return {
+        success: false,
+        error: lastError,
+      };
+    }
+    console.log(`Translated ${Object.keys(translated).length} of ${segments.length} segments in ${batches.length} batches`);
+
+    return {
+      success: true,
+      data: {
+        sourceLanguage: conversation.language,
+        texts: translated,
+        untranslatedIds: untranslatedIds.length > 0 ? untranslatedIds : undefined,
+        promptVersion: systemPrompt.tag,
+      },
+    };
   } catch (error) {
-    console.error('Error during bug detection:', error);
-    
+    console.error('Error during translation:', error);
+
     return {
       success: false,
       error: {
-        code: 'DETECTION_ERROR',
-        message: error instanceof Error ? error.message : 'Failed to detect bug',
+        code: 'TRANSLATION_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to translate conversation',
         details: error,
       },
     };
@@ -284,37 +301,46 @@ Focus on agent language, escalation signals, error reports, and technical issues
 export const generateEnhancedGitHubIssue = async (
   conversation: ProcessedConversation,
   conversationData: string,
-  enhancedContext: EnhancedIssueContext
+  enhancedContext: EnhancedIssueContext,
+  // The untranslated conversation, quoted in the issue when the customer didn't write in English
+  originalConversation?: ProcessedConversation,
+  // Streams the answer, reporting the title and body as they are written; the signal cancels it
+  stream?: { onDraft: (draft: IssueDraft) => void; signal?: AbortSignal; bypassCache?: boolean }
 ): Promise<ApiResponse<ConversationAnalysis>> => {
   try {
     console.log('Generating enhanced GitHub issue...');
     
-    const userPrompt = `Create a GitHub issue using the enhanced context provided by the TSE.
+    // The generated issue is headed for GitHub, so its placeholders are left in place
+    const redactor = createConversationRedactor(conversation);
+    const userPrompt = redactor.redact(`Create a GitHub issue using the enhanced context provided by the TSE.
 
 ORIGINAL CONVERSATION:
 ${conversationData}
 
 ENHANCED CONTEXT PROVIDED BY TSE:
-- Screenshots: ${enhancedContext.screenshots.length > 0 ? enhancedContext.screenshots.map(s => s.name).join(', ') : 'None'}
+- Screenshots and attachments (copy these Markdown lines unchanged into the Evidence section): ${enhancedContext.screenshots.length > 0 ? `\n${formatAttachmentsMarkdown(enhancedContext.screenshots)}` : 'None'}
+- Quotes from the conversation (copy these unchanged, with their authors and timestamps, into the Evidence section): ${enhancedContext.evidence?.length ? `\n${formatEvidenceMarkdown(enhancedContext.evidence)}` : 'None'}
 - Additional Steps: ${enhancedContext.additionalSteps || 'None provided'}
 - Technical Details: ${enhancedContext.technicalDetails || 'None provided'}
 - Error Messages: ${enhancedContext.errorMessages || 'None provided'}
 - Browser/Device Info: ${enhancedContext.browserInfo || 'None provided'}
 - App ID: ${enhancedContext.appId || 'Not provided'}
+- Ticket Category: ${enhancedContext.ticketCategory || 'Not a ticket'}
+- Affected Feature: ${enhancedContext.affectedFeature || 'Not provided'}
 
 CONVERSATION DETAILS:
 - Customer: ${conversation.customerName} (${conversation.customerEmail})
 - Conversation ID: ${conversation.id}
 - Created: ${conversation.createdAt}
 
-Use all available information to create a comprehensive GitHub issue.`;
+Use all available information to create a comprehensive GitHub issue.`);
 
-    const response = await openaiClient.post('', {
-      model: 'gpt-4',
+    const systemPrompt = renderPrompt('issueGeneration');
+    const request: LLMCompletionRequest = {
       messages: [
         {
           role: 'system',
-          content: createIssueGenerationPrompt(),
+          content: systemPrompt.text,
         },
         {
           role: 'user',
@@ -322,47 +348,58 @@ Use all available information to create a comprehensive GitHub issue.`;
         },
       ],
       temperature: 0.3,
-      max_tokens: 2000,
-    });
-
-    const aiResponse = response.data.choices[0].message.content;
-    console.log('Enhanced Issue Generation Response:', aiResponse);
-
-    try {
-      const issueResult = JSON.parse(aiResponse);
-      
-      const analysisResult: ConversationAnalysis = {
-        summary: issueResult.summary || 'Enhanced GitHub issue generated',
-        issueTemplate: {
-          title: issueResult.issueTemplate?.title || 'Issue from conversation',
-          body: issueResult.issueTemplate?.body || 'No description available',
-          labels: issueResult.issueTemplate?.labels || ['support', 'customer-issue'],
-          priority: issueResult.issueTemplate?.priority || 'medium',
-        },
-        confidence: issueResult.confidence || 0.8,
-        suggestedLabels: issueResult.issueTemplate?.labels || [],
-        customerImpact: enhancedContext.customerImpact || 'medium',
-        issueType: 'bug',
-      };
-      console.log('Enhanced GitHub issue generated:', analysisResult);
+      maxTokens: 2000,
+      signal: stream?.signal,
+      conversationId: conversation.id,
+      promptVersion: systemPrompt.tag,
+      bypassCache: stream?.bypassCache,
+    };
+    const response = stream
+      ? await streamStructured('issueGeneration', request, issueGenerationResultSchema, (content) => stream.onDraft({
+        title: extractPartialJsonString(content, 'title') || '',
+        body: extractPartialJsonString(content, 'body') || '',
+      }))
+      : await completeStructured('issueGeneration', request, issueGenerationResultSchema);
+
+    if (!response.success || !response.data) {
+      console.error('Issue generation output failed validation:', response.error?.details);
       return {
-        success: true,
-        data: analysisResult,
+        success: false,
+        error: response.error,
       };
-    } catch (parseError) {
-      console.error('Failed to parse issue generation response:', parseError);
-      
+    }
+    console.log('Enhanced Issue Generation Response:', response.data);
+
+    const issueResult = response.data;
+    const analysisResult: ConversationAnalysis = {
+      summary: issueResult.summary,
+      issueTemplate: {
+        ...issueResult.issueTemplate,
+        body: issueResult.issueTemplate.body + redactor.redact(formatOriginalLanguageSection(originalConversation)),
+      },
+      confidence: issueResult.confidence,
+      suggestedLabels: issueResult.issueTemplate.labels,
+      customerImpact: enhancedContext.customerImpact || 'medium',
+      issueType: 'bug',
+      promptVersion: systemPrompt.tag,
+    };
+    console.log('Enhanced GitHub issue generated:', analysisResult);
+    return {
+      success: true,
+      data: analysisResult,
+    };
+
+  } catch (error) {
+    if (stream?.signal?.aborted) {
+      console.log('Issue generation cancelled');
       return {
         success: false,
         error: {
-          code: 'PARSE_ERROR',
-          message: 'Failed to parse GitHub issue results',
-          details: parseError,
+          code: 'CANCELLED',
+          message: 'Issue generation was cancelled',
         },
       };
     }
-
-  } catch (error) {
     console.error('Error during enhanced issue generation:', error);
     
     return {
@@ -390,6 +427,16 @@ export interface BugDetectionResult {
     description: string;
     customerImpact: string;
   };
+  // Set when a long thread was condensed before detection
+  condensation?: ConversationCondensation;
+  // Registry version of the system prompt, e.g. "bugDetection@v2"
+  promptVersion?: string;
+  // Votes behind the result when detection ran as an ensemble (VITE_BUG_DETECTION_ENSEMBLE)
+  ensemble?: BugDetectionEnsembleResult;
+  // Quotes backing the key indicators, checked against the thread
+  evidence?: EvidenceCitation[];
+  // Past triage decisions added to the prompt as examples
+  fewShotExamples?: FewShotReference[];
 }
 
 export interface EnhancedIssueContext {
@@ -397,6 +444,9 @@ export interface EnhancedIssueContext {
     name: string;
     url: string;
     description?: string;
+    contentType?: string;
+    // False when the attachment store was unavailable and the original (expiring) link is kept
+    rehosted?: boolean;
   }>;
   additionalSteps: string;
   technicalDetails: string;
@@ -404,4 +454,7 @@ export interface EnhancedIssueContext {
   browserInfo: string;
   appId: string;
   customerImpact: 'low' | 'medium' | 'high';
+  ticketCategory?: string;
+  affectedFeature?: string;
+  evidence?: EvidenceCitation[];
 } 
\ No newline at end of file
@@ -0,0 +1,303 @@
+import { getCompletionUsage } from './llmUsage';
+import { sha256Hex } from '../utils/hash';
+import type { LLMCompletion, LLMCompletionRequest, LLMPipelineStep, LLMProviderConfig } from '../types/llm';
+import type { LLMCacheBackend, LLMCacheEntry, LLMCacheSettings, LLMCacheStats, LLMCacheStepStats } from '../types/llmCache';
+
+const SETTINGS_STORAGE_KEY = 'llm-cache-settings';
+const STATS_STORAGE_KEY = 'llm-cache-stats';
+const DB_NAME = 'llm-response-cache';
+const DB_STORE = 'responses';
+// Served by the LLM cache plugin in vite.config.ts (dev and preview servers)
+const SERVER_CACHE_PATH = '/api/llm-cache';
+
+// Conversations and prompts rarely change once analyzed; drafts are regenerated more often
+export const DEFAULT_CACHE_TTL_HOURS: Record<LLMPipelineStep, number> = {
+  bugDetection: 24 * 7,
+  translation: 24 * 30,
+  issueGeneration: 24,
+  duplicateAnalysis: 24 * 7,
+  condensation: 24 * 30,
+};
+
+interface ResponseCacheStore {
+  get(key: string): Promise<LLMCacheEntry | undefined>;
+  put(entry: LLMCacheEntry): Promise<void>;
+  count(): Promise<number>;
+  // Removes entries past their TTL, or every entry; returns how many were removed
+  clear(expiredOnly: boolean): Promise<number>;
+}
+
+/**
+ * Reads the cache backend from VITE_LLM_CACHE; null when caching is turned off
+ */
+export const getLLMCacheBackend = (): LLMCacheBackend | null => {
+  switch (import.meta.env.VITE_LLM_CACHE) {
+    case 'off':
+      return null;
+    case 'server':
+      return 'server';
+    default:
+      return typeof indexedDB === 'undefined' ? null : 'indexeddb';
+  }
+};
+
+const isExpired = (entry: LLMCacheEntry): boolean => new Date(entry.expiresAt).getTime() <= Date.now();
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again rather than caching the failure
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, send: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = send(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const indexedDBStore: ResponseCacheStore = {
+  get: (key) => runRequest<LLMCacheEntry | undefined>('readonly', store => store.get(key)),
+  put: async (entry) => {
+    await runRequest('readwrite', store => store.put(entry));
+  },
+  count: () => runRequest('readonly', store => store.count()),
+  clear: async (expiredOnly) => {
+    if (!expiredOnly) {
+      const entries = await runRequest('readonly', store => store.count());
+      await runRequest('readwrite', store => store.clear());
+      return entries;
+    }
+
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+      let removed = 0;
+      const request = db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(removed);
+          return;
+        }
+        if (isExpired(cursor.value)) {
+          cursor.delete();
+          removed++;
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+};
+
+const serverStore: ResponseCacheStore = {
+  get: async (key) => {
+    const response = await fetch(`${SERVER_CACHE_PATH}/${key}`);
+    if (response.status === 404) return undefined;
+    if (!response.ok) throw new Error(`LLM cache lookup failed (${response.status})`);
+    return response.json();
+  },
+  put: async (entry) => {
+    const response = await fetch(`${SERVER_CACHE_PATH}/${entry.key}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(entry),
+    });
+    if (!response.ok) throw new Error(`LLM cache write failed (${response.status})`);
+  },
+  count: async () => {
+    const response = await fetch(SERVER_CACHE_PATH);
+    if (!response.ok) throw new Error(`LLM cache stats failed (${response.status})`);
+    return (await response.json()).entries;
+  },
+  clear: async (expiredOnly) => {
+    const response = await fetch(`${SERVER_CACHE_PATH}${expiredOnly ? '?expired=1' : ''}`, { method: 'DELETE' });
+    if (!response.ok) throw new Error(`LLM cache clear failed (${response.status})`);
+    return (await response.json()).removed;
+  },
+};
+
+const getStore = (): ResponseCacheStore | null => {
+  const backend = getLLMCacheBackend();
+  if (!backend) return null;
+  return backend === 'server' ? serverStore : indexedDBStore;
+};
+
+/**
+ * Loads the bypass switch and per-step TTLs
+ */
+export const loadLLMCacheSettings = (): LLMCacheSettings => {
+  const defaults: LLMCacheSettings = { bypass: false, ttlHours: { ...DEFAULT_CACHE_TTL_HOURS } };
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return { ...defaults, ...parsed, ttlHours: { ...defaults.ttlHours, ...parsed.ttlHours } };
+    }
+  } catch (error) {
+    console.error('Failed to load LLM cache settings:', error);
+  }
+  return defaults;
+};
+
+/**
+ * Persists the bypass switch and per-step TTLs
+ */
+export const saveLLMCacheSettings = (settings: LLMCacheSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Hits, misses and bypassed calls per step since the stats were last reset
+ */
+export const loadLLMCacheStats = (): LLMCacheStats => {
+  try {
+    const saved = localStorage.getItem(STATS_STORAGE_KEY);
+    if (saved) {
+      return JSON.parse(saved);
+    }
+  } catch (error) {
+    console.error('Failed to load LLM cache stats:', error);
+  }
+  return { since: new Date().toISOString(), steps: {}, savedCost: 0 };
+};
+
+export const resetLLMCacheStats = (): void => {
+  localStorage.removeItem(STATS_STORAGE_KEY);
+};
+
+const countCacheResult = (step: LLMPipelineStep, result: keyof LLMCacheStepStats, savedCost = 0): void => {
+  try {
+    const stats = loadLLMCacheStats();
+    const stepStats = stats.steps[step] || { hits: 0, misses: 0, bypassed: 0 };
+    localStorage.setItem(STATS_STORAGE_KEY, JSON.stringify({
+      ...stats,
+      steps: { ...stats.steps, [step]: { ...stepStats, [result]: stepStats[result] + 1 } },
+      savedCost: stats.savedCost + savedCost,
+    }));
+  } catch (error) {
+    console.error('Failed to save LLM cache stats:', error);
+  }
+};
+
+/**
+ * Share of lookups answered from the cache, between 0 and 1
+ */
+export const getCacheHitRate = (stats: Pick<LLMCacheStepStats, 'hits' | 'misses'>): number =>
+  stats.hits + stats.misses ? stats.hits / (stats.hits + stats.misses) : 0;
+
+/**
+ * Cached answers currently stored; null when caching is off or the store can't be reached
+ */
+export const countLLMCacheEntries = async (): Promise<number | null> => {
+  const store = getStore();
+  if (!store) return null;
+
+  try {
+    return await store.count();
+  } catch (error) {
+    console.error('Failed to count LLM cache entries:', error);
+    return null;
+  }
+};
+
+/**
+ * Removes expired answers, or every cached answer. Returns how many were removed
+ */
+export const clearLLMCache = async (expiredOnly = false): Promise<number> => {
+  const store = getStore();
+  return store ? store.clear(expiredOnly) : 0;
+};
+
+/**
+ * Hash of everything that decides the answer: provider, model, prompt version, input and sampling settings
+ */
+export const getLLMCacheKey = (config: Pick<LLMProviderConfig, 'kind' | 'model' | 'baseUrl' | 'temperature' | 'maxTokens'>, request: LLMCompletionRequest): Promise<string> =>
+  sha256Hex(JSON.stringify({
+    provider: config.kind,
+    // Local servers with the same model name can still serve different weights
+    baseUrl: config.kind === 'local' ? config.baseUrl : undefined,
+    model: config.model,
+    promptVersion: request.promptVersion,
+    messages: request.messages,
+    temperature: config.temperature ?? request.temperature,
+    maxTokens: config.maxTokens ?? request.maxTokens,
+    responseFormat: request.responseFormat,
+    sample: request.sample,
+  }));
+
+let expiredPruned = false;
+
+/**
+ * Wraps a provider call so answers are reused until their step's TTL runs out. Cache failures fall through
+ * to the provider; replay lets a streaming call hand a cached answer to its callback
+ */
+export const withResponseCache = <Args extends unknown[]>(
+  step: LLMPipelineStep,
+  config: LLMProviderConfig,
+  call: (request: LLMCompletionRequest, ...rest: Args) => Promise<LLMCompletion>,
+  replay?: (completion: LLMCompletion, ...rest: Args) => void
+) => async (request: LLMCompletionRequest, ...rest: Args): Promise<LLMCompletion> => {
+  const store = getStore();
+  const settings = loadLLMCacheSettings();
+  const ttlHours = settings.ttlHours[step];
+  if (!store || !ttlHours) return call(request, ...rest);
+
+  let key: string;
+  try {
+    key = await getLLMCacheKey(config, request);
+  } catch (error) {
+    console.error('Failed to hash LLM request:', error);
+    return call(request, ...rest);
+  }
+
+  if (settings.bypass || request.bypassCache) {
+    countCacheResult(step, 'bypassed');
+  } else {
+    try {
+      const entry = await store.get(key);
+      if (entry && !isExpired(entry)) {
+        console.log(`[LLM Cache] Hit for ${step} (${key.slice(0, 12)})`);
+        countCacheResult(step, 'hits', getCompletionUsage(config, request, entry.completion).cost);
+        replay?.(entry.completion, ...rest);
+        return entry.completion;
+      }
+    } catch (error) {
+      console.error('LLM cache lookup failed:', error);
+    }
+    countCacheResult(step, 'misses');
+  }
+
+  const completion = await call(request, ...rest);
+  const now = Date.now();
+  store.put({
+    key,
+    step,
+    model: completion.model || config.model,
+    completion,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlHours * 60 * 60 * 1000).toISOString(),
+  })
+    .then(() => {
+      if (expiredPruned) return;
+      expiredPruned = true;
+      return store.clear(true).then(removed => {
+        if (removed) console.log(`[LLM Cache] Removed ${removed} expired answers`);
+      });
+    })
+    .catch(error => console.error('Failed to cache LLM answer:', error));
+
+  return completion;
+};
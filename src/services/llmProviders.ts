@@ -0,0 +1,503 @@
+import axios, { type AxiosInstance } from 'axios';
+import { withResponseCache } from './llmCache';
+import { withUsageRecording } from './llmUsage';
+import type {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMPipelineStep,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMProviderKind,
+  LLMStepSettings,
+} from '../types/llm';
+
+const DEFAULT_TIMEOUT = 30000;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const PROVIDER_NAMES: Record<LLMProviderKind, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local',
+};
+
+const DEFAULT_MODELS: Record<LLMProviderKind, string> = {
+  openai: 'gpt-4',
+  azure: '',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+};
+
+export const LLM_PIPELINE_STEPS: LLMPipelineStep[] = ['bugDetection', 'translation', 'issueGeneration', 'duplicateAnalysis', 'condensation'];
+
+export const LLM_PIPELINE_STEP_LABELS: Record<LLMPipelineStep, string> = {
+  bugDetection: 'Bug detection',
+  translation: 'Translation',
+  issueGeneration: 'Issue generation',
+  duplicateAnalysis: 'Duplicate analysis',
+  condensation: 'Condensation',
+};
+
+const isProviderKind = (value: unknown): value is LLMProviderKind =>
+  value === 'openai' || value === 'azure' || value === 'anthropic' || value === 'local';
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * Reads per-step overrides from VITE_LLM_STEPS, a JSON object keyed by pipeline step
+ */
+const loadStepSettings = (): Partial<Record<LLMPipelineStep, LLMStepSettings>> => {
+  const raw = import.meta.env.VITE_LLM_STEPS;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Failed to parse VITE_LLM_STEPS:', error);
+    return {};
+  }
+};
+
+const stepSettings = loadStepSettings();
+
+/**
+ * Base URL and credentials for a provider, from its environment variables
+ */
+const getProviderConnection = (kind: LLMProviderKind): Pick<LLMProviderConfig, 'baseUrl' | 'apiKey' | 'apiVersion'> => {
+  const env = import.meta.env;
+
+  switch (kind) {
+    case 'azure':
+      return {
+        baseUrl: (env.VITE_AZURE_OPENAI_ENDPOINT || '').replace(/\/+$/, ''),
+        apiKey: env.VITE_AZURE_OPENAI_API_KEY,
+        apiVersion: env.VITE_AZURE_OPENAI_API_VERSION || '2024-06-01',
+      };
+    case 'anthropic':
+      return {
+        baseUrl: env.VITE_ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+        apiKey: env.VITE_ANTHROPIC_API_KEY,
+      };
+    case 'local':
+      return {
+        baseUrl: env.VITE_LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: env.VITE_LOCAL_LLM_API_KEY,
+      };
+    default:
+      return {
+        baseUrl: env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: env.VITE_OPENAI_API_KEY,
+      };
+  }
+};
+
+/**
+ * Resolves the provider, model and limits for a pipeline step:
+ * VITE_LLM_STEPS first, then VITE_LLM_PROVIDER / VITE_LLM_MODEL, then the provider's defaults.
+ * Passing settings resolves them in place of the step's VITE_LLM_STEPS entry
+ */
+export const getLLMProviderConfig = (
+  step: LLMPipelineStep,
+  settings: LLMStepSettings = stepSettings[step] || {}
+): LLMProviderConfig => {
+  const env = import.meta.env;
+  const defaultKind = isProviderKind(env.VITE_LLM_PROVIDER) ? env.VITE_LLM_PROVIDER : 'openai';
+  const kind = isProviderKind(settings.provider) ? settings.provider : defaultKind;
+  // A global model only applies to steps that run on the global provider
+  const globalModel = kind === defaultKind ? env.VITE_LLM_MODEL : undefined;
+  const connection = getProviderConnection(kind);
+
+  return {
+    ...connection,
+    kind,
+    model: settings.model || globalModel || (kind === 'azure' ? env.VITE_AZURE_OPENAI_DEPLOYMENT : DEFAULT_MODELS[kind]) || '',
+    baseUrl: settings.baseUrl || connection.baseUrl,
+    temperature: toNumber(settings.temperature),
+    maxTokens: toNumber(settings.maxTokens),
+    timeout: toNumber(settings.timeout) ?? toNumber(env.VITE_LLM_TIMEOUT),
+    contextWindow: toNumber(settings.contextWindow) ?? (kind === defaultKind ? toNumber(env.VITE_LLM_CONTEXT_WINDOW) : undefined),
+  };
+};
+
+/**
+ * Environment variables the configured providers still need, across every pipeline step
+ */
+export const getMissingLLMVariables = (): string[] => {
+  const env = import.meta.env;
+  const missing = new Set<string>();
+
+  LLM_PIPELINE_STEPS.forEach(step => {
+    const config = getLLMProviderConfig(step);
+    switch (config.kind) {
+      case 'openai':
+        if (!env.VITE_OPENAI_API_KEY) missing.add('VITE_OPENAI_API_KEY');
+        break;
+      case 'azure':
+        if (!env.VITE_AZURE_OPENAI_ENDPOINT) missing.add('VITE_AZURE_OPENAI_ENDPOINT');
+        if (!env.VITE_AZURE_OPENAI_API_KEY) missing.add('VITE_AZURE_OPENAI_API_KEY');
+        if (!config.model) missing.add('VITE_AZURE_OPENAI_DEPLOYMENT');
+        break;
+      case 'anthropic':
+        if (!env.VITE_ANTHROPIC_API_KEY) missing.add('VITE_ANTHROPIC_API_KEY');
+        break;
+      default:
+        // Local servers usually need no key
+        break;
+    }
+  });
+
+  return Array.from(missing);
+};
+
+/**
+ * Readable message for a failed provider call, shared by buffered and streamed requests
+ */
+const getProviderErrorMessage = (
+  config: LLMProviderConfig,
+  { status, apiMessage, timedOut, cancelled }: { status?: number; apiMessage?: string; timedOut?: boolean; cancelled?: boolean }
+): string => {
+  const name = PROVIDER_NAMES[config.kind];
+  if (cancelled) {
+    return 'Request cancelled';
+  }
+  if (status === 401) {
+    return `Invalid ${name} API key. Please check your environment variables.`;
+  }
+  if (status === 429) {
+    return `${name} API rate limit exceeded. Please try again in a moment.`;
+  }
+  if (timedOut) {
+    return 'Request timeout. The analysis is taking too long.';
+  }
+  if (!status && config.kind === 'local') {
+    return `Could not reach the local model server at ${config.baseUrl}. Is it running, and does it allow requests from this origin?`;
+  }
+  return apiMessage || `${name} request failed`;
+};
+
+/**
+ * Axios instance for one provider, with errors translated into readable messages
+ */
+const createProviderClient = (config: LLMProviderConfig, headers: Record<string, string>): AxiosInstance => {
+  const client = axios.create({
+    baseURL: config.baseUrl,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+  });
+
+  client.interceptors.response.use(
+    (response) => response,
+    (error) => {
+      throw new Error(getProviderErrorMessage(config, {
+        status: error.response?.status,
+        apiMessage: error.response?.data?.error?.message,
+        timedOut: error.code === 'ECONNABORTED',
+        cancelled: axios.isCancel(error),
+      }));
+    }
+  );
+
+  return client;
+};
+
+/**
+ * POSTs a streaming request and passes the data of each server-sent event to onData.
+ * Uses fetch because axios can't read a response body as it arrives in the browser.
+ * The timeout restarts with every chunk, so long answers only fail when the server goes quiet
+ */
+const postStream = async (
+  config: LLMProviderConfig,
+  path: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  request: LLMCompletionRequest,
+  onData: (data: string) => void
+): Promise<void> => {
+  const controller = new AbortController();
+  const timeout = config.timeout ?? request.timeout ?? DEFAULT_TIMEOUT;
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+  };
+  const cancel = () => controller.abort();
+  const failure = () => new Error(getProviderErrorMessage(config, { timedOut, cancelled: request.signal?.aborted }));
+
+  if (request.signal?.aborted) throw failure();
+  request.signal?.addEventListener('abort', cancel);
+  restartTimer();
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch {
+      throw failure();
+    }
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => undefined);
+      throw new Error(getProviderErrorMessage(config, { status: response.status, apiMessage: data?.error?.message }));
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    const dispatch = (line: string) => {
+      if (line.startsWith('data:')) onData(line.slice(5).trim());
+    };
+
+    for (;;) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch {
+        throw failure();
+      }
+      if (chunk.done) break;
+
+      restartTimer();
+      buffer += decoder.decode(chunk.value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(dispatch);
+    }
+    dispatch(buffer);
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener('abort', cancel);
+  }
+};
+
+/**
+ * Parses one server-sent event payload; keep-alive comments and malformed lines are skipped
+ */
+const parseEvent = <T>(data: string): T | undefined => {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string } }>;
+  usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { model?: string; usage?: { input_tokens: number } };
+  delta?: { text?: string };
+  usage?: { output_tokens: number };
+  error?: { message?: string };
+}
+
+/**
+ * Chat Completions API, shared by OpenAI, Azure OpenAI and OpenAI-compatible local servers
+ */
+const createChatCompletionsProvider = (config: LLMProviderConfig): Pick<LLMProvider, 'complete' | 'stream'> => {
+  const headers: Record<string, string> = {};
+  if (config.kind === 'azure') {
+    headers['api-key'] = config.apiKey || '';
+  } else if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+  const client = createProviderClient(config, headers);
+
+  // Azure addresses the model by deployment in the path
+  const path = config.kind === 'azure'
+    ? `/openai/deployments/${encodeURIComponent(config.model)}/chat/completions?api-version=${config.apiVersion}`
+    : '/chat/completions';
+
+  // Older models (such as the original gpt-4) reject JSON mode; remembered after the first refusal
+  let jsonModeSupported = true;
+
+  const buildBody = (request: LLMCompletionRequest, jsonMode: boolean) => ({
+    ...(config.kind === 'azure' ? {} : { model: config.model }),
+    messages: request.messages,
+    temperature: config.temperature ?? request.temperature,
+    max_tokens: config.maxTokens ?? request.maxTokens,
+    ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+  });
+
+  const withJsonModeFallback = async (request: LLMCompletionRequest, send: (jsonMode: boolean) => Promise<LLMCompletion>) => {
+    const jsonMode = request.responseFormat === 'json' && jsonModeSupported;
+    try {
+      return await send(jsonMode);
+    } catch (error) {
+      if (!jsonMode || !(error instanceof Error) || !error.message.includes('response_format')) throw error;
+      console.log(`${getLLMProviderLabel(config)} does not support JSON mode; relying on the prompt instead`);
+      jsonModeSupported = false;
+      return send(false);
+    }
+  };
+
+  return {
+    complete: (request) => withJsonModeFallback(request, async (jsonMode) => {
+      const response = await client.post(path, buildBody(request, jsonMode), {
+        timeout: config.timeout ?? request.timeout ?? DEFAULT_TIMEOUT,
+        signal: request.signal,
+      });
+
+      const usage = response.data.usage;
+      return {
+        content: response.data.choices?.[0]?.message?.content || '',
+        model: response.data.model || config.model,
+        usage: usage ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens } : undefined,
+      };
+    }),
+
+    stream: (request, onContent) => withJsonModeFallback(request, async (jsonMode) => {
+      const completion: LLMCompletion = { content: '', model: config.model };
+      await postStream(config, path, headers, {
+        ...buildBody(request, jsonMode),
+        stream: true,
+        // Only OpenAI reports usage at the end of a stream
+        ...(config.kind === 'openai' ? { stream_options: { include_usage: true } } : {}),
+      }, request, (data) => {
+        const chunk = parseEvent<ChatCompletionChunk>(data);
+        if (!chunk) return;
+        if (chunk.model) completion.model = chunk.model;
+        if (chunk.usage) {
+          completion.usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          completion.content += delta;
+          onContent(completion.content);
+        }
+      });
+      return completion;
+    }),
+  };
+};
+
+/**
+ * Anthropic Messages API; system prompts go in their own field.
+ * There is no JSON mode, so structured output relies on the prompt and validation
+ */
+const createAnthropicProvider = (config: LLMProviderConfig): Pick<LLMProvider, 'complete' | 'stream'> => {
+  const headers = {
+    'x-api-key': config.apiKey || '',
+    'anthropic-version': ANTHROPIC_VERSION,
+    // Required for calls made straight from the browser
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+  const client = createProviderClient(config, headers);
+
+  const buildBody = (request: LLMCompletionRequest) => {
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    return {
+      model: config.model,
+      system: system || undefined,
+      messages: request.messages.filter(message => message.role !== 'system'),
+      temperature: config.temperature ?? request.temperature,
+      // Anthropic requires an explicit limit
+      max_tokens: config.maxTokens ?? request.maxTokens ?? 1024,
+    };
+  };
+
+  return {
+    complete: async (request) => {
+      const response = await client.post('/v1/messages', buildBody(request), {
+        timeout: config.timeout ?? request.timeout ?? DEFAULT_TIMEOUT,
+        signal: request.signal,
+      });
+
+      const blocks: Array<{ type: string; text?: string }> = response.data.content || [];
+      const usage = response.data.usage;
+      return {
+        content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+        model: response.data.model || config.model,
+        usage: usage ? { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens } : undefined,
+      };
+    },
+
+    stream: async (request, onContent) => {
+      const completion: LLMCompletion = { content: '', model: config.model };
+      let inputTokens = 0;
+      await postStream(config, '/v1/messages', headers, { ...buildBody(request), stream: true }, request, (data) => {
+        const event = parseEvent<AnthropicStreamEvent>(data);
+        switch (event?.type) {
+          case 'message_start':
+            completion.model = event.message?.model || completion.model;
+            inputTokens = event.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_delta':
+            if (event.delta?.text) {
+              completion.content += event.delta.text;
+              onContent(completion.content);
+            }
+            break;
+          case 'message_delta':
+            if (event.usage) completion.usage = { inputTokens, outputTokens: event.usage.output_tokens };
+            break;
+          case 'error':
+            throw new Error(event.error?.message || 'Anthropic stream failed');
+          default:
+            break;
+        }
+      });
+      return completion;
+    },
+  };
+};
+
+/**
+ * Provider and model for display, e.g. "Local llama3.1"
+ */
+export const getLLMProviderLabel = (config: Pick<LLMProviderConfig, 'kind' | 'model'>): string =>
+  `${PROVIDER_NAMES[config.kind]} ${config.model}`.trim();
+
+/**
+ * Builds a provider from an explicit configuration; every call is recorded against the step for the usage dashboard
+ */
+export const createLLMProvider = (config: LLMProviderConfig, step: LLMPipelineStep): LLMProvider => {
+  const { complete, stream } = config.kind === 'anthropic'
+    ? createAnthropicProvider(config)
+    : createChatCompletionsProvider(config);
+
+  return {
+    kind: config.kind,
+    model: config.model,
+    label: getLLMProviderLabel(config),
+    // Cache hits never reach the provider, so they aren't recorded as usage
+    complete: withResponseCache(step, config, withUsageRecording(step, config, false, complete)),
+    stream: withResponseCache(
+      step,
+      config,
+      withUsageRecording(step, config, true, stream),
+      (completion, onContent) => onContent(completion.content)
+    ),
+  };
+};
+
+const providers = new Map<LLMPipelineStep, LLMProvider>();
+
+/**
+ * Returns the provider configured for a pipeline step
+ */
+export const getLLMProvider = (step: LLMPipelineStep): LLMProvider => {
+  let provider = providers.get(step);
+  if (!provider) {
+    provider = createLLMProvider(getLLMProviderConfig(step), step);
+    providers.set(step, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { BugDetectionResult } from './llmApi';
+import type { ConversationAnalysis } from '../types/conversation';
+
+// zod only infers required fields under strictNullChecks, which tsconfig.app.json leaves off,
+// so the schemas are cast to the interfaces they validate
+
+export const bugDetectionResultSchema = z.object({
+  isBug: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().min(1),
+  bugType: z.enum(['bug', 'feature', 'question', 'resolved']),
+  severity: z.enum(['low', 'medium', 'high']),
+  keyIndicators: z.array(z.string()),
+  // Prompt versions written before citations existed don't ask for them
+  evidence: z.array(z.object({
+    indicator: z.string(),
+    messageId: z.coerce.string(),
+    quote: z.string().min(1),
+  })).default([]),
+  agentEscalation: z.string(),
+  // Left empty by the model when the conversation isn't a bug
+  initialAnalysis: z.object({
+    title: z.string(),
+    description: z.string(),
+    customerImpact: z.string(),
+  }),
+}) as unknown as z.ZodType<BugDetectionResult>;
+
+// The model writes these fields; customer impact and issue type come from the TSE's context
+export const issueGenerationResultSchema = z.object({
+  summary: z.string().min(1),
+  issueTemplate: z.object({
+    title: z.string().min(1),
+    body: z.string().min(1),
+    labels: z.array(z.string()),
+    priority: z.enum(['low', 'medium', 'high']),
+  }),
+  confidence: z.number().min(0).max(1),
+}) as unknown as z.ZodType<Pick<ConversationAnalysis, 'summary' | 'issueTemplate' | 'confidence'>>;
+
+export const translationResultSchema = z.object({
+  translations: z.array(z.object({
+    id: z.string(),
+    text: z.string(),
+  })),
+}) as unknown as z.ZodType<{ translations: Array<{ id: string; text: string }> }>;
@@ -0,0 +1,220 @@
+import { estimateTokens } from '../utils/tokens';
+import type { LLMCompletion, LLMCompletionRequest, LLMPipelineStep, LLMProviderConfig } from '../types/llm';
+import type { LLMUsageRecord, ModelPricing, UsageTotals } from '../types/usage';
+
+const STORAGE_KEY = 'llm-usage-records';
+// Oldest records are dropped beyond this, to stay well inside the localStorage quota
+const MAX_RECORDS = 5000;
+
+// List prices in USD per million tokens, matched in order so more specific names come first.
+// Azure deployments are priced by the model name they were given
+const MODEL_PRICING: Array<{ pattern: RegExp; pricing: ModelPricing }> = [
+  { pattern: /gpt-4o-mini/, pricing: { input: 0.15, output: 0.6 } },
+  { pattern: /gpt-4o/, pricing: { input: 2.5, output: 10 } },
+  { pattern: /gpt-4\.1-nano/, pricing: { input: 0.1, output: 0.4 } },
+  { pattern: /gpt-4\.1-mini/, pricing: { input: 0.4, output: 1.6 } },
+  { pattern: /gpt-4\.1/, pricing: { input: 2, output: 8 } },
+  { pattern: /gpt-4-turbo/, pricing: { input: 10, output: 30 } },
+  { pattern: /gpt-4-32k/, pricing: { input: 60, output: 120 } },
+  { pattern: /gpt-4/, pricing: { input: 30, output: 60 } },
+  { pattern: /gpt-3\.5-turbo/, pricing: { input: 0.5, output: 1.5 } },
+  { pattern: /claude-3-haiku/, pricing: { input: 0.25, output: 1.25 } },
+  { pattern: /claude-3-5-haiku|claude-haiku/, pricing: { input: 0.8, output: 4 } },
+  { pattern: /claude-3-opus|claude-opus/, pricing: { input: 15, output: 75 } },
+  { pattern: /sonnet/, pricing: { input: 3, output: 15 } },
+];
+
+/**
+ * Reads price overrides from VITE_LLM_PRICING, a JSON object of model name to { input, output }
+ */
+const loadPricingOverrides = (): Record<string, ModelPricing> => {
+  const raw = import.meta.env.VITE_LLM_PRICING;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Failed to parse VITE_LLM_PRICING:', error);
+    return {};
+  }
+};
+
+const pricingOverrides = loadPricingOverrides();
+
+/**
+ * Price per million tokens for a model; local models are free and unknown models are priced at zero
+ */
+export const getModelPricing = (config: Pick<LLMProviderConfig, 'kind' | 'model'>): ModelPricing => {
+  if (pricingOverrides[config.model]) return pricingOverrides[config.model];
+  if (config.kind === 'local') return { input: 0, output: 0 };
+  const model = config.model.toLowerCase();
+  return MODEL_PRICING.find(({ pattern }) => pattern.test(model))?.pricing || { input: 0, output: 0 };
+};
+
+/**
+ * Recorded model calls, oldest first
+ */
+export const loadUsageRecords = (): LLMUsageRecord[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed : [];
+    }
+  } catch (error) {
+    console.error('Failed to load LLM usage:', error);
+  }
+  return [];
+};
+
+const saveUsageRecords = (records: LLMUsageRecord[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records.slice(-MAX_RECORDS)));
+  } catch (error) {
+    // Accounting must never break the call it accounts for
+    console.error('Failed to save LLM usage:', error);
+  }
+};
+
+/**
+ * Tokens and estimated cost of a completion. Token counts are estimated from the text when the provider didn't report them
+ */
+export const getCompletionUsage = (
+  config: Pick<LLMProviderConfig, 'kind' | 'model'>,
+  request: LLMCompletionRequest,
+  completion: LLMCompletion
+): Pick<LLMUsageRecord, 'inputTokens' | 'outputTokens' | 'estimatedTokens' | 'cost'> => {
+  const inputTokens = completion.usage?.inputTokens ?? estimateTokens(request.messages.map(message => message.content).join('\n'));
+  const outputTokens = completion.usage?.outputTokens ?? estimateTokens(completion.content);
+  const pricing = getModelPricing({ kind: config.kind, model: completion.model || config.model });
+
+  return {
+    inputTokens,
+    outputTokens,
+    estimatedTokens: !completion.usage,
+    cost: (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000,
+  };
+};
+
+/**
+ * Records one model call; failed calls are kept for the call count but not priced
+ */
+export const recordLLMUsage = ({ step, config, request, completion, latencyMs, streamed, error }: {
+  step: LLMPipelineStep;
+  config: Pick<LLMProviderConfig, 'kind' | 'model'>;
+  request: LLMCompletionRequest;
+  completion?: LLMCompletion;
+  latencyMs: number;
+  streamed: boolean;
+  error?: string;
+}): LLMUsageRecord => {
+  const record: LLMUsageRecord = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: new Date().toISOString(),
+    step,
+    provider: config.kind,
+    model: completion?.model || config.model,
+    conversationId: request.conversationId,
+    ...(completion
+      ? getCompletionUsage(config, request, completion)
+      : { inputTokens: 0, outputTokens: 0, estimatedTokens: false, cost: 0 }),
+    latencyMs,
+    streamed,
+    error,
+  };
+  saveUsageRecords([...loadUsageRecords(), record]);
+  return record;
+};
+
+/**
+ * Adds records exported from another browser, skipping ones already present. Returns how many were added
+ */
+export const importUsageRecords = (json: unknown): number => {
+  if (!Array.isArray(json)) {
+    throw new Error('Expected an array of usage records');
+  }
+
+  const records = loadUsageRecords();
+  const known = new Set(records.map(record => record.id));
+  const added = (json as LLMUsageRecord[]).filter(record =>
+    record && typeof record.id === 'string' && typeof record.timestamp === 'string' && typeof record.cost === 'number' && !known.has(record.id)
+  );
+  saveUsageRecords([...records, ...added].sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+  return added.length;
+};
+
+/**
+ * Deletes every recorded call
+ */
+export const clearUsageRecords = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Calls, tokens, cost and latency across a set of records
+ */
+export const summarizeUsage = (records: LLMUsageRecord[]): UsageTotals => {
+  const totals = records.reduce((sum, record) => ({
+    calls: sum.calls + 1,
+    failedCalls: sum.failedCalls + (record.error ? 1 : 0),
+    inputTokens: sum.inputTokens + record.inputTokens,
+    outputTokens: sum.outputTokens + record.outputTokens,
+    cost: sum.cost + record.cost,
+    averageLatencyMs: sum.averageLatencyMs + record.latencyMs,
+  }), { calls: 0, failedCalls: 0, inputTokens: 0, outputTokens: 0, cost: 0, averageLatencyMs: 0 });
+
+  return { ...totals, averageLatencyMs: totals.calls ? totals.averageLatencyMs / totals.calls : 0 };
+};
+
+/**
+ * Totals per group, e.g. per pipeline step or per conversation, most expensive first
+ */
+export const groupUsage = (
+  records: LLMUsageRecord[],
+  getKey: (record: LLMUsageRecord) => string | undefined
+): Array<{ key: string } & UsageTotals> => {
+  const groups = new Map<string, LLMUsageRecord[]>();
+  records.forEach(record => {
+    const key = getKey(record);
+    if (key === undefined) return;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+
+  return Array.from(groups, ([key, group]) => ({ key, ...summarizeUsage(group) }))
+    .sort((a, b) => b.cost - a.cost);
+};
+
+/**
+ * Local calendar day of a record, e.g. "2024-06-10"
+ */
+export const getUsageDay = (record: Pick<LLMUsageRecord, 'timestamp'>): string => {
+  const date = new Date(record.timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Wraps a provider call so every completion, streamed or not, is recorded against its pipeline step
+ */
+export const withUsageRecording = <Args extends unknown[]>(
+  step: LLMPipelineStep,
+  config: Pick<LLMProviderConfig, 'kind' | 'model'>,
+  streamed: boolean,
+  call: (request: LLMCompletionRequest, ...rest: Args) => Promise<LLMCompletion>
+) => async (request: LLMCompletionRequest, ...rest: Args): Promise<LLMCompletion> => {
+  const started = Date.now();
+  try {
+    const completion = await call(request, ...rest);
+    recordLLMUsage({ step, config, request, completion, latencyMs: Date.now() - started, streamed });
+    return completion;
+  } catch (error) {
+    recordLLMUsage({
+      step,
+      config,
+      request,
+      latencyMs: Date.now() - started,
+      streamed,
+      error: error instanceof Error ? error.message : 'Request failed',
+    });
+    throw error;
+  }
+};
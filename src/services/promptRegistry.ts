@@ -0,0 +1,180 @@
+import {
+  DEFAULT_BUG_DETECTION_PROMPT,
+  DEFAULT_CONDENSATION_PROMPT,
+  DEFAULT_DUPLICATE_SIMILARITY_PROMPT,
+  DEFAULT_ISSUE_GENERATION_PROMPT,
+  DEFAULT_TRANSLATION_PROMPT,
+} from './defaultPrompts';
+import { fnv1aHex } from '../utils/hash';
+import type { PromptDefinition, PromptId, PromptRegistryConfig, PromptVersion, RenderedPrompt } from '../types/prompts';
+
+const STORAGE_KEY = 'prompt-registry-config';
+
+const BUILT_IN_VERSION = 1;
+
+export const PROMPT_DEFINITIONS: Record<PromptId, PromptDefinition> = {
+  bugDetection: {
+    id: 'bugDetection',
+    name: 'Bug detection',
+    description: 'System prompt deciding whether a conversation is a bug and drafting the initial analysis',
+    variables: [],
+    defaultTemplate: DEFAULT_BUG_DETECTION_PROMPT,
+  },
+  issueGeneration: {
+    id: 'issueGeneration',
+    name: 'Issue generation',
+    description: 'System prompt writing the full GitHub issue from the TSE\'s enhanced context',
+    variables: [],
+    defaultTemplate: DEFAULT_ISSUE_GENERATION_PROMPT,
+  },
+  duplicateSimilarity: {
+    id: 'duplicateSimilarity',
+    name: 'Duplicate similarity',
+    description: 'Scores how similar an existing GitHub issue is to the new one',
+    variables: ['newTitle', 'newDescription', 'newErrorMessages', 'newAppId', 'existingTitle', 'existingDescription', 'existingLabels'],
+    defaultTemplate: DEFAULT_DUPLICATE_SIMILARITY_PROMPT,
+  },
+  translation: {
+    id: 'translation',
+    name: 'Translation',
+    description: 'System prompt translating non-English conversations into English',
+    variables: ['language'],
+    defaultTemplate: DEFAULT_TRANSLATION_PROMPT,
+  },
+  condensation: {
+    id: 'condensation',
+    name: 'Thread condensation',
+    description: 'System prompt summarizing runs of messages in long conversations',
+    variables: [],
+    defaultTemplate: DEFAULT_CONDENSATION_PROMPT,
+  },
+};
+
+export const PROMPT_IDS = Object.keys(PROMPT_DEFINITIONS) as PromptId[];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Loads the prompt versions saved from the settings screen
+ */
+export const loadPromptRegistry = (): PromptRegistryConfig => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return { prompts: parsed.prompts && typeof parsed.prompts === 'object' ? parsed.prompts : {} };
+    }
+  } catch (error) {
+    console.error('Failed to load prompt registry:', error);
+  }
+  return { prompts: {} };
+};
+
+/**
+ * Persists the prompt versions
+ */
+export const savePromptRegistry = (config: PromptRegistryConfig): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+/**
+ * Short hash identifying the current built-in template of a prompt
+ */
+export const getBuiltInHash = (id: PromptId): string => fnv1aHex(PROMPT_DEFINITIONS[id].defaultTemplate);
+
+/**
+ * Whether a custom version was saved against an older built-in template, and so misses its later changes.
+ * Versions saved before hashes were recorded can't be told apart and are not flagged
+ */
+export const isBasedOnOutdatedBuiltIn = (id: PromptId, version: PromptVersion): boolean => {
+  if (version.version === BUILT_IN_VERSION || !version.builtInHash) return false;
+  return version.builtInHash !== getBuiltInHash(id);
+};
+
+/**
+ * Every version of a prompt, oldest first, starting with the built-in template
+ */
+export const getPromptVersions = (id: PromptId, config: PromptRegistryConfig = loadPromptRegistry()): PromptVersion[] => {
+  const builtIn: PromptVersion = {
+    version: BUILT_IN_VERSION,
+    template: PROMPT_DEFINITIONS[id].defaultTemplate,
+    createdAt: '',
+    note: 'Built-in',
+  };
+  return [builtIn, ...(config.prompts[id]?.versions || [])];
+};
+
+/**
+ * The version currently used for a prompt; falls back to the built-in one when the saved version is gone
+ */
+export const getActivePromptVersion = (id: PromptId, config: PromptRegistryConfig = loadPromptRegistry()): PromptVersion => {
+  const versions = getPromptVersions(id, config);
+  const activeVersion = config.prompts[id]?.activeVersion ?? BUILT_IN_VERSION;
+  return versions.find(version => version.version === activeVersion) || versions[0];
+};
+
+/**
+ * Adds an edited template as the newest version of a prompt and makes it active
+ */
+export const addPromptVersion = (
+  config: PromptRegistryConfig,
+  id: PromptId,
+  template: string,
+  note?: string
+): PromptRegistryConfig => {
+  const versions = getPromptVersions(id, config);
+  const version: PromptVersion = {
+    version: versions[versions.length - 1].version + 1,
+    template,
+    createdAt: new Date().toISOString(),
+    note: note?.trim() || undefined,
+    builtInHash: getBuiltInHash(id),
+  };
+  return {
+    prompts: {
+      ...config.prompts,
+      [id]: { versions: [...(config.prompts[id]?.versions || []), version], activeVersion: version.version },
+    },
+  };
+};
+
+/**
+ * Switches a prompt to one of its existing versions
+ */
+export const setActivePromptVersion = (config: PromptRegistryConfig, id: PromptId, version: number): PromptRegistryConfig => ({
+  prompts: {
+    ...config.prompts,
+    [id]: { versions: config.prompts[id]?.versions || [], activeVersion: version },
+  },
+});
+
+/**
+ * Variables used in a template that the prompt doesn't provide
+ */
+export const findUnknownVariables = (id: PromptId, template: string): string[] => {
+  const known = new Set(PROMPT_DEFINITIONS[id].variables);
+  const used = Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return Array.from(new Set(used.filter(name => !known.has(name))));
+};
+
+export const formatPromptTag = (id: PromptId, version: PromptVersion): string =>
+  version.version === BUILT_IN_VERSION
+    ? `${id}@v${BUILT_IN_VERSION}-${getBuiltInHash(id)}`
+    : `${id}@v${version.version}`;
+
+/**
+ * Fills in the active version of a prompt. Unknown variables are left empty
+ */
+export const renderPrompt = (id: PromptId, variables: Record<string, string> = {}): RenderedPrompt => {
+  const activeVersion = getActivePromptVersion(id);
+  const { version, template } = activeVersion;
+  const text = template.replace(VARIABLE_PATTERN, (_, name: string) => {
+    if (!(name in variables)) {
+      console.warn(`Prompt ${id} v${version} uses unknown variable {{${name}}}`);
+      return '';
+    }
+    return variables[name];
+  });
+
+  return { id, version, text, tag: formatPromptTag(id, activeVersion) };
+};
@@ -0,0 +1,259 @@
+import type { RedactionConfig, RedactionDetector, RedactionEntry } from '../types/redaction';
+import type { ProcessedConversation } from '../types/conversation';
+
+const STORAGE_KEY = 'redaction-config';
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  enabled: true,
+  detectors: {
+    secret: true,
+    email: true,
+    card: true,
+    phone: true,
+    name: true,
+    custom: true,
+  },
+  customTerms: [],
+};
+
+export const DETECTOR_ORDER: RedactionDetector[] = ['secret', 'email', 'card', 'phone', 'name', 'custom'];
+
+export const DETECTOR_LABELS: Record<RedactionDetector, string> = {
+  secret: 'API keys & tokens',
+  email: 'Email addresses',
+  card: 'Card numbers',
+  phone: 'Phone numbers',
+  name: 'Customer names',
+  custom: 'Custom terms',
+};
+
+const PLACEHOLDER_PREFIX: Record<RedactionDetector, string> = {
+  secret: 'SECRET',
+  email: 'EMAIL',
+  card: 'CARD',
+  phone: 'PHONE',
+  name: 'NAME',
+  custom: 'REDACTED',
+};
+
+const PLACEHOLDER_PATTERN = /\[(?:SECRET|EMAIL|CARD|PHONE|NAME|REDACTED)_\d+\]/g;
+
+// Values that are already placeholders are never matched again
+const SECRET_PATTERNS = [
+  /\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}\b/g,
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\bgh[pousr]_[A-Za-z0-9]{30,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{30,}/g,
+  /\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  /\bAKIA[0-9A-Z]{16}\b/g,
+  /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g,
+  /(?<=\bBearer\s+)(?!\[)[A-Za-z0-9._~+/-]{12,}=*/gi,
+  /(?<=\b(?:api[_-]?key|access[_-]?token|auth[_-]?token|client[_-]?secret|secret|password|passwd|token)["']?\s*[:=]\s*["']?)(?!\[)[^\s"',;]{6,}/gi,
+];
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+const CARD_PATTERNS = [
+  // Card brands start with 3-6; the lookbehind skips IDs inside URLs
+  /(?<![/#=\w])[3-6](?:[ -]?\d){11,17}\d\b/g,
+  // Fragments such as "card ending in 4242" or "last 4 digits: 4242"
+  /(?<=\b(?:ending(?: in)?|last (?:4|four)(?: digits)?)\s*[:#-]?\s*)\d{4}\b/gi,
+];
+
+// Lookarounds keep IP addresses and version strings from matching
+const PHONE_PATTERN = /(?<![\w+])(?<!\d\.)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}[\s.-]\d{2,4}[\s.-]?\d{2,4}(?!\.?\d)/g;
+
+// Author names Intercom falls back to when a contact has no name
+const IGNORED_NAMES = ['unknown', 'unknown customer', 'customer', 'user', 'lead'];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const passesLuhnCheck = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const isValidMatch = (detector: RedactionDetector, match: string): boolean => {
+  const digits = match.replace(/\D/g, '');
+  switch (detector) {
+    case 'card':
+      return digits.length === 4 || (digits.length >= 13 && passesLuhnCheck(digits));
+    case 'phone':
+      return digits.length >= 9 && digits.length <= 15;
+    default:
+      return true;
+  }
+};
+
+// Name parts that are also everyday words; on their own they are only matched right after a greeting
+const COMMON_WORD_NAMES = new Set([
+  'will', 'may', 'june', 'april', 'august', 'mark', 'bill', 'grace', 'hope', 'joy', 'faith', 'rose',
+  'dawn', 'summer', 'page', 'chase', 'drew', 'rich', 'guy', 'max', 'art', 'pat', 'ray', 'sue', 'don',
+]);
+
+const GREETING_LOOKBEHIND = '(?<=\\b(?:[Hh]i|[Hh]ello|[Hh]ey|[Dd]ear|[Tt]hanks|[Tt]hank you),?\\s+)';
+
+const toWholeWordPattern = (term: string, flags: string, prefix = ''): RegExp =>
+  new RegExp(`${prefix}(?<![\\p{L}\\d_])${escapeRegExp(term)}(?![\\p{L}\\d_])`, flags);
+
+// Whole terms match in any case, longest first
+const buildTermPatterns = (terms: string[]): RegExp[] =>
+  Array.from(new Set(terms.map(term => term.trim()).filter(term => term && !IGNORED_NAMES.includes(term.toLowerCase()))))
+    .sort((a, b) => b.length - a.length)
+    .map(term => toWholeWordPattern(term, 'giu'));
+
+/**
+ * Full names match in any case. Single parts, to catch "Hi Jane" when the full name is "Jane Doe", only match
+ * capitalized, and parts that are also common words ("Will May") only right after a greeting
+ */
+const buildNamePatterns = (names: string[]): RegExp[] => {
+  const parts = new Set<string>();
+  names
+    .map(name => name.trim())
+    .filter(name => name && !IGNORED_NAMES.includes(name.toLowerCase()))
+    .forEach(name => name.split(/\s+/)
+      .filter(part => part.length >= 3)
+      .forEach(part => parts.add(part.charAt(0).toLocaleUpperCase() + part.slice(1))));
+
+  return [
+    ...buildTermPatterns(names.filter(name => /\s/.test(name.trim()))),
+    ...Array.from(parts)
+      .sort((a, b) => b.length - a.length)
+      .map(part => COMMON_WORD_NAMES.has(part.toLowerCase())
+        ? toWholeWordPattern(part, 'gu', GREETING_LOOKBEHIND)
+        : toWholeWordPattern(part, 'gu')),
+  ];
+};
+
+/**
+ * Loads the redaction config saved from the issue template, or the defaults
+ */
+export const loadRedactionConfig = (): RedactionConfig => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      return {
+        enabled: parsed.enabled !== false,
+        detectors: { ...DEFAULT_REDACTION_CONFIG.detectors, ...parsed.detectors },
+        customTerms: Array.isArray(parsed.customTerms) ? parsed.customTerms : [],
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load redaction config:', error);
+  }
+  return DEFAULT_REDACTION_CONFIG;
+};
+
+/**
+ * Persists the redaction config
+ */
+export const saveRedactionConfig = (config: RedactionConfig): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+/**
+ * Replaces sensitive values with numbered placeholders and remembers the originals,
+ * so LLM output that quotes a placeholder can be mapped back for the TSE.
+ */
+export class Redactor {
+  private entriesByOriginal = new Map<string, RedactionEntry>();
+  private entriesByPlaceholder = new Map<string, RedactionEntry>();
+  private counters: Partial<Record<RedactionDetector, number>> = {};
+  private namePatterns: RegExp[];
+  private customPatterns: RegExp[];
+
+  constructor(private config: RedactionConfig = loadRedactionConfig(), names: string[] = []) {
+    this.namePatterns = buildNamePatterns(names);
+    this.customPatterns = buildTermPatterns(config.customTerms);
+  }
+
+  get entries(): RedactionEntry[] {
+    return Array.from(this.entriesByPlaceholder.values());
+  }
+
+  redact(text: string): string {
+    if (!text || !this.config.enabled) return text;
+
+    return DETECTOR_ORDER
+      .filter(detector => this.config.detectors[detector])
+      .reduce((result, detector) => this.getPatterns(detector).reduce(
+        (current, pattern) => current.replace(pattern, match =>
+          isValidMatch(detector, match) ? this.getPlaceholder(detector, match) : match
+        ),
+        result
+      ), text);
+  }
+
+  restore(text: string): string {
+    if (!text) return text;
+    return text.replace(PLACEHOLDER_PATTERN, placeholder =>
+      this.entriesByPlaceholder.get(placeholder)?.original ?? placeholder
+    );
+  }
+
+  /**
+   * Restores placeholders in every string of a parsed LLM response
+   */
+  restoreDeep<T>(value: T): T {
+    if (typeof value === 'string') return this.restore(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.restoreDeep(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.restoreDeep(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  private getPatterns(detector: RedactionDetector): RegExp[] {
+    switch (detector) {
+      case 'secret': return SECRET_PATTERNS;
+      case 'email': return [EMAIL_PATTERN];
+      case 'card': return CARD_PATTERNS;
+      case 'phone': return [PHONE_PATTERN];
+      case 'name': return this.namePatterns;
+      case 'custom': return this.customPatterns;
+    }
+  }
+
+  private getPlaceholder(detector: RedactionDetector, original: string): string {
+    const key = `${detector}:${original.toLowerCase()}`;
+    const existing = this.entriesByOriginal.get(key);
+    if (existing) return existing.placeholder;
+
+    const count = (this.counters[detector] || 0) + 1;
+    this.counters[detector] = count;
+
+    const entry: RedactionEntry = {
+      placeholder: `[${PLACEHOLDER_PREFIX[detector]}_${count}]`,
+      original,
+      detector,
+    };
+    this.entriesByOriginal.set(key, entry);
+    this.entriesByPlaceholder.set(entry.placeholder, entry);
+    return entry.placeholder;
+  }
+}
+
+/**
+ * Creates a redactor that also knows the names of the customers in the conversation
+ */
+export const createConversationRedactor = (
+  conversation: Pick<ProcessedConversation, 'customerName' | 'messages'>,
+  config: RedactionConfig = loadRedactionConfig()
+): Redactor => {
+  const customerNames = conversation.messages
+    .filter(message => message.author.type === 'customer')
+    .map(message => message.author.name);
+
+  return new Redactor(config, [conversation.customerName, ...customerNames]);
+};
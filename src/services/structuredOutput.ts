@@ -0,0 +1,152 @@
+import type { z } from 'zod';
+import { getLLMProvider } from './llmProviders';
+import type { ApiResponse } from '../types/conversation';
+import type { LLMCompletion, LLMCompletionRequest, LLMPipelineStep, LLMProvider } from '../types/llm';
+
+// Corrections asked of the model after the first answer, before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface StructuredOutputFailure {
+  // One entry per failing field, e.g. "confidence: Number must be less than or equal to 1"
+  issues: string[];
+  attempts: number;
+  rawResponse: string;
+}
+
+/**
+ * Pulls the JSON object out of a model response: strips Markdown fences and surrounding prose,
+ * and drops trailing commas
+ */
+export const extractJson = (text: string): unknown => {
+  // Only a fence around the whole response is stripped; string values such as issue bodies may hold fences of their own
+  const unfenced = text.replace(/^\s*```(?:json)?\s*\n([\s\S]*)\n?```\s*$/i, '$1');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Response contains no JSON object');
+  }
+
+  const candidate = unfenced.slice(start, end + 1);
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1'));
+  }
+};
+
+/**
+ * Reads a string field out of JSON that is still arriving, e.g. a streamed
+ * `{"issueTemplate": {"title": "Export fa` gives "Export fa" for `title`.
+ * Returns undefined until the field has started
+ */
+export const extractPartialJsonString = (text: string, key: string): string | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!match) return undefined;
+
+  let value = '';
+  for (let index = match.index + match[0].length; index < text.length; index++) {
+    const char = text[index];
+    if (char === '"') return value;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+
+    const escaped = text[index + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const hex = text.slice(index + 2, index + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      index += 5;
+    } else {
+      value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escaped] ?? escaped;
+      index++;
+    }
+  }
+  return value;
+};
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+
+/**
+ * Sends the request, validates the answer and asks for corrections until it passes or the attempts run out
+ */
+const runStructured = async <T>(
+  step: LLMPipelineStep,
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T>,
+  maxRepairAttempts: number,
+  send: (request: LLMCompletionRequest) => Promise<LLMCompletion>
+): Promise<ApiResponse<T>> => {
+  const messages = [...request.messages];
+  let issues: string[] = [];
+  let rawResponse = '';
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    const response = await send({ ...request, messages, responseFormat: 'json' });
+    rawResponse = response.content;
+
+    try {
+      const result = schema.safeParse(extractJson(rawResponse));
+      if (result.success) {
+        if (attempt > 1) console.log(`[${step}] Output repaired after ${attempt} attempts`);
+        return { success: true, data: result.data };
+      }
+      issues = formatIssues(result.error);
+    } catch (parseError) {
+      issues = [`Invalid JSON: ${parseError instanceof Error ? parseError.message : 'could not parse response'}`];
+    }
+
+    console.warn(`[${step}] Output failed validation (attempt ${attempt}/${maxRepairAttempts + 1}):`, issues);
+    messages.push(
+      { role: 'assistant', content: rawResponse },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON format:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReply with only the corrected JSON object, keeping every field that was valid.`,
+      }
+    );
+  }
+
+  const failure: StructuredOutputFailure = { issues, attempts: maxRepairAttempts + 1, rawResponse };
+  return {
+    success: false,
+    error: {
+      code: 'VALIDATION_ERROR',
+      message: `Invalid ${step} output after ${maxRepairAttempts + 1} attempts: ${issues.join('; ')}`,
+      details: failure,
+    },
+  };
+};
+
+/**
+ * Runs a completion whose answer must match a schema. Invalid answers are sent back to the model
+ * with the exact validation errors, a bounded number of times.
+ * Provider failures (network, auth, rate limits) are thrown rather than retried here.
+ * The step's configured provider is used unless another is passed
+ */
+export const completeStructured = async <T>(
+  step: LLMPipelineStep,
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T>,
+  maxRepairAttempts: number = MAX_REPAIR_ATTEMPTS,
+  provider: LLMProvider = getLLMProvider(step)
+): Promise<ApiResponse<T>> => {
+  return runStructured(step, request, schema, maxRepairAttempts, (attemptRequest) => provider.complete(attemptRequest));
+};
+
+/**
+ * Streaming version of completeStructured: onContent receives the raw answer as it arrives,
+ * starting over for each repair attempt. The answer is only validated once complete
+ */
+export const streamStructured = async <T>(
+  step: LLMPipelineStep,
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T>,
+  onContent: (content: string) => void,
+  maxRepairAttempts: number = MAX_REPAIR_ATTEMPTS
+): Promise<ApiResponse<T>> => {
+  const provider = getLLMProvider(step);
+  return runStructured(step, request, schema, maxRepairAttempts, (attemptRequest) => provider.stream(attemptRequest, onContent));
+};
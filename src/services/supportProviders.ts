@@ -0,0 +1,111 @@
+import {
+  fetchConversation,
+  fetchTicket,
+  parseIntercomUrl,
+  processConversationData,
+  processTicketData,
+} from './intercomApi';
+import { DEFAULT_WORKSPACE_ID, buildConversationUrl, getIntercomWorkspace, resolveWorkspaceFromUrl } from './intercomWorkspaces';
+import {
+  ZENDESK_WORKSPACE_ID,
+  buildZendeskTicketUrl,
+  fetchZendeskTicket,
+  parseZendeskUrl,
+  processZendeskTicket,
+} from './zendeskApi';
+import { parseTranscript } from './transcriptImport';
+import type { IntercomRecording, ProcessedConversation } from '../types/conversation';
+import type { SupportProvider, SupportProviderId, SupportReference } from '../types/supportProvider';
+import type { TranscriptRecording } from '../types/transcript';
+import type { ZendeskRecording } from '../types/zendesk';
+
+export const intercomProvider: SupportProvider<IntercomRecording> = {
+  id: 'intercom',
+  name: 'Intercom',
+  matchesUrl: (url) => /intercom\.(io|com)/.test(url),
+  parseUrl: (url) => {
+    const reference = parseIntercomUrl(url);
+    if (!reference) return null;
+
+    return {
+      provider: 'intercom',
+      type: reference.type,
+      id: reference.id,
+      workspaceId: resolveWorkspaceFromUrl(url)?.id || DEFAULT_WORKSPACE_ID,
+    };
+  },
+  fetchConversation: ({ type, id, workspaceId }) =>
+    type === 'ticket' ? fetchTicket(id, workspaceId) : fetchConversation(id, workspaceId),
+  fromRecording: (recording) => {
+    if ('conversation' in recording) {
+      return processConversationData(recording.conversation);
+    }
+    const linkedConversation = recording.linkedConversation
+      ? processConversationData(recording.linkedConversation)
+      : null;
+    return processTicketData(recording.ticket, linkedConversation, recording.contact || null);
+  },
+  buildConversationUrl: (conversation) =>
+    buildConversationUrl(getIntercomWorkspace(conversation.workspaceId), conversation.id, conversation.sourceType),
+};
+
+export const zendeskProvider: SupportProvider<ZendeskRecording> = {
+  id: 'zendesk',
+  name: 'Zendesk',
+  matchesUrl: (url) => /zendesk\.com/.test(url),
+  parseUrl: (url) => {
+    const id = parseZendeskUrl(url);
+    return id ? { provider: 'zendesk', type: 'ticket', id, workspaceId: ZENDESK_WORKSPACE_ID } : null;
+  },
+  fetchConversation: ({ id }) => fetchZendeskTicket(id),
+  fromRecording: (recording) => processZendeskTicket(recording),
+  buildConversationUrl: (conversation) => buildZendeskTicketUrl(conversation.id),
+};
+
+// Imports are parsed in the browser and seeded into the cache, so there is no URL or API to go back to
+export const transcriptProvider: SupportProvider<TranscriptRecording> = {
+  id: 'import',
+  name: 'Imported transcript',
+  matchesUrl: () => false,
+  parseUrl: () => null,
+  fetchConversation: async () => ({
+    success: false,
+    error: {
+      code: 'NOT_CACHED',
+      message: 'Imported transcripts are only kept for this session. Please import the transcript again.',
+    },
+  }),
+  fromRecording: (recording) => parseTranscript(recording).conversation,
+  buildConversationUrl: () => '',
+};
+
+export const SUPPORT_PROVIDERS: SupportProvider[] = [intercomProvider, zendeskProvider, transcriptProvider];
+
+/**
+ * Looks up a provider by ID, defaulting to Intercom
+ */
+export const getSupportProvider = (providerId: SupportProviderId = 'intercom'): SupportProvider => {
+  return SUPPORT_PROVIDERS.find(provider => provider.id === providerId) || intercomProvider;
+};
+
+/**
+ * Whether any provider recognises the URL's host
+ */
+export const isSupportedUrl = (url: string): boolean => {
+  return SUPPORT_PROVIDERS.some(provider => provider.matchesUrl(url));
+};
+
+/**
+ * Picks the provider that owns a pasted URL and extracts what it points at
+ */
+export const resolveSupportReference = (url: string): SupportReference | null => {
+  const provider = SUPPORT_PROVIDERS.find(candidate => candidate.matchesUrl(url));
+  return provider?.parseUrl(url) || null;
+};
+
+/**
+ * Link back to the conversation in the support platform it came from
+ */
+export const getConversationUrl = (conversation: ProcessedConversation): string => {
+  return getSupportProvider(conversation.provider).buildConversationUrl(conversation);
+};
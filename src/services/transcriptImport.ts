@@ -0,0 +1,595 @@
+import { processConversationData, processTicketData } from './intercomApi';
+import { processZendeskTicket } from './zendeskApi';
+import { textToHtml } from '../utils/htmlToMarkdown';
+import type {
+  ApiResponse,
+  ConversationMessage,
+  IntercomContact,
+  IntercomConversation,
+  IntercomTicket,
+  ProcessedConversation,
+  TimelineEvent,
+} from '../types/conversation';
+import type { TranscriptEntry, TranscriptFormat, TranscriptImportResult, TranscriptRecording } from '../types/transcript';
+import type { ZendeskRecording } from '../types/zendesk';
+
+// Imported conversations are cached under their own key space, apart from Intercom workspaces
+export const IMPORT_WORKSPACE_ID = 'import';
+
+export const ACCEPTED_IMPORT_FILE_TYPES = '.txt,.eml,.csv,.json';
+
+type MessageRole = ConversationMessage['author']['type'];
+
+// "[2024-06-10 10:15] Jane: ...", "10/06/2024, 10:15 - Jane: ...", "10:15 Jane: ..."
+const TIMESTAMP_FIRST_LINE = /^\[?((?:\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{2,4})?[ ,T]*\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?(?:\s?[ap]\.?m\.?)?)\]?\s*[-–]?\s*([^:\n]{1,40}?):\s?(.*)$/i;
+// "Jane (10:15 AM): ..."
+const NAME_FIRST_LINE = /^([^:\n()[\]]{1,40}?)\s*[([]([^)\]]{1,40})[)\]]:\s?(.*)$/;
+// "Jane: ..."
+const SPEAKER_LINE = /^(\p{Lu}[\p{L}\d .'-]{0,39}?):\s?(.*)$/u;
+// Slack copy/paste puts "Jane Doe  10:15 AM" on its own line above the message
+const SLACK_HEADER_LINE = /^(\p{Lu}[\p{L}\d .'-]{0,39}?)\s+\[?(\d{1,2}:\d{2}(?:\s?[AP]M)?)\]?$/iu;
+const TIME_ONLY = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(?:([ap])\.?m\.?)?$/i;
+
+// Labels that look like "Name:" but start a line of message text
+const NON_SPEAKER_LABELS = new Set([
+  'error', 'warning', 'note', 'notes', 'steps', 'expected', 'actual', 'result', 'url', 'link',
+  'browser', 'version', 'device', 'os', 'ps', 'p.s', 're', 'fwd', 'subject', 'date', 'to', 'cc',
+  'http', 'https', 'example', 'update', 'edit', 'todo', 'fyi',
+]);
+
+const ROLE_LABELS: Array<[RegExp, MessageRole]> = [
+  [/^(customer|user|client|visitor|end[- ]?user|lead|contact|me)$/i, 'customer'],
+  [/\b(bot|assistant|operator|fin)\b/i, 'bot'],
+  [/\b(agent|support|admin|teammate|team|staff|rep|engineer)\b/i, 'admin'],
+];
+
+// CSV header aliases, matched after lowercasing and turning _/- into spaces
+const CSV_COLUMNS: Record<'conversationId' | 'author' | 'role' | 'email' | 'body' | 'timestamp' | 'subject', string[]> = {
+  conversationId: ['conversation id', 'ticket id', 'thread id', 'conversation'],
+  author: ['author name', 'part author name', 'author', 'from', 'sender', 'name', 'user'],
+  role: ['author type', 'part author type', 'role', 'sender type', 'type'],
+  email: ['author email', 'part author email', 'email', 'sender email'],
+  body: ['body', 'part body', 'message', 'text', 'content', 'comment'],
+  timestamp: ['created at', 'part created at', 'timestamp', 'date', 'time', 'sent at'],
+  subject: ['subject', 'title', 'conversation title'],
+};
+
+/**
+ * Picks a parser from the file extension, falling back to sniffing the content
+ */
+export const detectTranscriptFormat = ({ content, fileName }: TranscriptRecording): TranscriptFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'eml') return 'email';
+
+  const trimmed = content.trim();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON after all, e.g. a "[10:15] Jane: ..." transcript
+    }
+  }
+  if (/^From:\s.+$/m.test(content) && /^(Date|Sent|Subject|To):\s/m.test(content)) {
+    return 'email';
+  }
+  return 'chat';
+};
+
+const hashContent = (content: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+const looksLikeHtml = (text: string): boolean => /<\/?(p|div|br|span|a|ul|ol|li|strong|em|b|i|code|pre)\b[^>]*>/i.test(text);
+
+const getRoleFromLabel = (label: string | undefined): MessageRole | undefined => {
+  if (!label) return undefined;
+  return ROLE_LABELS.find(([pattern]) => pattern.test(label.trim()))?.[1];
+};
+
+/**
+ * Parses absolute dates, Unix timestamps and bare times (taken to be on the import day)
+ */
+const parseTimestamp = (raw: string | undefined, baseDate: Date): Date | null => {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  if (/^\d{9,13}$/.test(value)) {
+    const epoch = Number(value);
+    return new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+  }
+
+  const time = value.match(TIME_ONLY);
+  if (time) {
+    let hours = Number(time[1]);
+    if (time[4]) {
+      hours = (hours % 12) + (time[4].toLowerCase() === 'p' ? 12 : 0);
+    }
+    const date = new Date(baseDate);
+    date.setHours(hours, Number(time[2]), Number(time[3] || 0), 0);
+    return date;
+  }
+
+  // "10/06/2024, 10:15" isn't understood by Date with the comma
+  const parsed = new Date(value.replace(/,(?=\s*\d{1,2}:\d{2})/, ''));
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const isSpeakerLabel = (label: string): boolean => {
+  const name = label.trim();
+  return (
+    name.length > 0 &&
+    name.split(/\s+/).length <= 4 &&
+    !NON_SPEAKER_LABELS.has(name.toLowerCase())
+  );
+};
+
+/**
+ * Splits a chat transcript (Slack or chat-log copy/paste) into messages by speaker lines
+ */
+const parseChatTranscript = (text: string): TranscriptEntry[] => {
+  const entries: TranscriptEntry[] = [];
+  const baseDate = new Date();
+  let current: TranscriptEntry | null = null;
+
+  const startEntry = (author: string, body: string, timestamp?: string) => {
+    current = { author: author.trim(), body, timestamp, role: getRoleFromLabel(author) };
+    entries.push(current);
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+
+    const timestamped = trimmed.match(TIMESTAMP_FIRST_LINE);
+    if (timestamped && isSpeakerLabel(timestamped[2]) && parseTimestamp(timestamped[1], baseDate)) {
+      startEntry(timestamped[2], timestamped[3], timestamped[1]);
+      continue;
+    }
+
+    const nameFirst = trimmed.match(NAME_FIRST_LINE);
+    if (nameFirst && isSpeakerLabel(nameFirst[1]) && parseTimestamp(nameFirst[2], baseDate)) {
+      startEntry(nameFirst[1], nameFirst[3], nameFirst[2]);
+      continue;
+    }
+
+    const slackHeader = trimmed.match(SLACK_HEADER_LINE);
+    if (slackHeader && isSpeakerLabel(slackHeader[1])) {
+      startEntry(slackHeader[1], '', slackHeader[2]);
+      continue;
+    }
+
+    const speaker = trimmed.match(SPEAKER_LINE);
+    if (speaker && isSpeakerLabel(speaker[1]) && !speaker[2].startsWith('//')) {
+      startEntry(speaker[1], speaker[2]);
+      continue;
+    }
+
+    if (current) {
+      current.body += `\n${line}`;
+    }
+  }
+
+  // No recognisable speaker lines: treat the whole paste as the customer's report
+  if (entries.length === 0 && text.trim()) {
+    return [{ author: 'Customer', role: 'customer', body: text.trim() }];
+  }
+  return entries;
+};
+
+const parseEmailAddress = (value: string): { name: string; email?: string } => {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+  if (match) {
+    return { name: match[1].trim() || match[2].trim(), email: match[2].trim() };
+  }
+  const email = value.trim();
+  return /\S+@\S+/.test(email) ? { name: email.split('@')[0], email } : { name: email };
+};
+
+/**
+ * Splits an email thread into messages at each "From:" header block, dropping quoted replies
+ */
+const parseEmailThread = (text: string): TranscriptEntry[] => {
+  const entries: TranscriptEntry[] = [];
+  let current: TranscriptEntry | null = null;
+  let inHeaders = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+
+    // Quoted text repeats earlier messages in the thread
+    if (trimmed.startsWith('>') || /^On .+ wrote:$/.test(trimmed) || /^-{2,}\s*Original Message\s*-{2,}$/i.test(trimmed)) {
+      continue;
+    }
+
+    const from = trimmed.match(/^From:\s*(.+)$/i);
+    if (from) {
+      const sender = parseEmailAddress(from[1]);
+      current = { author: sender.name, email: sender.email, body: '', role: getRoleFromLabel(sender.name) };
+      entries.push(current);
+      inHeaders = true;
+      continue;
+    }
+
+    if (!current) continue;
+
+    if (inHeaders) {
+      const header = trimmed.match(/^(Date|Sent|Subject|To|Cc):\s*(.*)$/i);
+      if (header) {
+        const key = header[1].toLowerCase();
+        if (key === 'date' || key === 'sent') current.timestamp = header[2];
+        if (key === 'subject') current.subject = header[2].replace(/^((re|fwd?):\s*)+/i, '');
+        continue;
+      }
+      if (!trimmed) {
+        inHeaders = false;
+        continue;
+      }
+      inHeaders = false;
+    }
+
+    current.body += `${line}\n`;
+  }
+
+  return entries;
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Reads one message per CSV row, grouped by the conversation ID column when there is one
+ */
+const parseCsvExport = (text: string): TranscriptEntry[][] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const headers = header.map(cell => cell.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' '));
+  const column = (key: keyof typeof CSV_COLUMNS) => {
+    for (const alias of CSV_COLUMNS[key]) {
+      const index = headers.indexOf(alias);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const bodyIndex = column('body');
+  if (bodyIndex === -1) {
+    throw new Error('The CSV file needs a "body", "message" or "text" column');
+  }
+  const idIndex = column('conversationId');
+  const authorIndex = column('author');
+  const roleIndex = column('role');
+  const emailIndex = column('email');
+  const timestampIndex = column('timestamp');
+  const subjectIndex = column('subject');
+
+  const conversations = new Map<string, TranscriptEntry[]>();
+  rows.forEach(cells => {
+    const cell = (index: number) => (index === -1 ? undefined : cells[index]?.trim() || undefined);
+    const body = cell(bodyIndex);
+    if (!body) return;
+
+    const key = cell(idIndex) || 'default';
+    const author = cell(authorIndex) || cell(emailIndex) || 'Unknown';
+    const entry: TranscriptEntry = {
+      author,
+      email: cell(emailIndex),
+      role: getRoleFromLabel(cell(roleIndex)) || getRoleFromLabel(author),
+      body,
+      timestamp: cell(timestampIndex),
+      subject: cell(subjectIndex),
+    };
+
+    if (!conversations.has(key)) conversations.set(key, []);
+    conversations.get(key)!.push(entry);
+  });
+
+  return Array.from(conversations.values());
+};
+
+// Export payloads are untyped, so fields are read defensively
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : undefined;
+
+const asText = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+/**
+ * Reads a generic `{ messages: [...] }` export where each message has an author and a body
+ */
+const getJsonMessageEntries = (messages: unknown[]): TranscriptEntry[] => {
+  return messages
+    .map(asObject)
+    .filter(Boolean)
+    .map(message => {
+      const author = asObject(message.author);
+      const authorName = asText(message.author) || asText(author?.name) || asText(message.name) || asText(message.from) || asText(message.sender);
+      const role = asText(message.role) || asText(message.author_type) || asText(author?.type);
+      return {
+        author: authorName || 'Unknown',
+        email: asText(author?.email) || asText(message.email),
+        role: getRoleFromLabel(role) || getRoleFromLabel(authorName),
+        body: asText(message.body) || asText(message.text) || asText(message.content) || asText(message.message) || '',
+        timestamp: asText(message.created_at) || asText(message.timestamp) || asText(message.date),
+        subject: asText(message.subject),
+      };
+    })
+    .filter(entry => entry.body.trim());
+};
+
+/**
+ * Maps JSON exports: Intercom conversations/tickets and Zendesk tickets go through their own processors
+ */
+const parseJsonExport = (
+  text: string
+): { conversation?: ProcessedConversation; entries?: TranscriptEntry[]; skippedConversations: number } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The JSON file could not be parsed');
+  }
+
+  const isConversationLike = (value: unknown) => {
+    const candidate = asObject(value);
+    return !!(candidate?.conversation_parts || candidate?.conversation || candidate?.ticket);
+  };
+  const conversations = asObject(data)?.conversations;
+  const items: unknown[] = Array.isArray(conversations)
+    ? conversations
+    : Array.isArray(data) && data.some(isConversationLike)
+      ? data
+      : [data];
+  const item = asObject(items[0]) || {};
+  const skippedConversations = Math.max(items.length - 1, 0);
+
+  if (item.ticket && Array.isArray(item.comments)) {
+    return { conversation: processZendeskTicket(item as unknown as ZendeskRecording), skippedConversations };
+  }
+
+  const nestedTicket = asObject(item.ticket);
+  const ticket = item.type === 'ticket' ? item : nestedTicket?.type === 'ticket' ? nestedTicket : undefined;
+  if (ticket) {
+    const linked = asObject(item.linkedConversation);
+    return {
+      conversation: processTicketData(
+        ticket as unknown as IntercomTicket,
+        linked ? processConversationData(linked as unknown as IntercomConversation) : null,
+        (item.contact || null) as IntercomContact | null
+      ),
+      skippedConversations,
+    };
+  }
+
+  const nestedConversation = asObject(item.conversation);
+  const conversation = item.type === 'conversation' && item.source ? item : nestedConversation?.source ? nestedConversation : undefined;
+  if (conversation) {
+    return { conversation: processConversationData(conversation as unknown as IntercomConversation), skippedConversations };
+  }
+
+  const messages = Array.isArray(item.messages) ? item.messages : Array.isArray(data) ? data : null;
+  if (messages) {
+    return { entries: getJsonMessageEntries(messages), skippedConversations };
+  }
+
+  throw new Error('Unrecognised JSON export. Expected an Intercom conversation or ticket, a Zendesk ticket, or a list of messages');
+};
+
+/**
+ * Fills in roles the transcript didn't state: the first unlabelled speaker is the customer, everyone else support
+ */
+const assignRoles = (entries: TranscriptEntry[]): Array<TranscriptEntry & { role: MessageRole }> => {
+  const customerEntry = entries.find(entry => entry.role === 'customer') || entries.find(entry => !entry.role);
+  const customerKey = customerEntry ? (customerEntry.email || customerEntry.author).toLowerCase() : null;
+
+  return entries.map(entry => {
+    if (entry.role) return { ...entry, role: entry.role };
+    const key = (entry.email || entry.author).toLowerCase();
+    return { ...entry, role: key === customerKey ? 'customer' : 'admin' };
+  });
+};
+
+const getPlainTextTitle = (body: string): string => {
+  const firstLine = body.replace(/<[^>]+>/g, ' ').trim().split(/\n/)[0].trim();
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+};
+
+/**
+ * Builds a ProcessedConversation from parsed transcript entries
+ */
+const buildImportedConversation = (entries: TranscriptEntry[], id: string, format: TranscriptFormat): ProcessedConversation => {
+  if (entries.length === 0) {
+    throw new Error('No messages were found in the transcript');
+  }
+
+  const importedAt = new Date();
+  const withRoles = assignRoles(entries);
+  const timestamps = withRoles.map(entry => parseTimestamp(entry.timestamp, importedAt));
+
+  // Untimed messages keep their transcript order, borrowing the previous message's time
+  let previous = timestamps.find(Boolean) || importedAt;
+  const ordered = withRoles.map((entry, index) => {
+    const createdAt = timestamps[index] || previous;
+    previous = createdAt;
+    return { entry, createdAt, index };
+  });
+  // Email threads are often pasted newest-first, so sort whenever every message has a time
+  if (timestamps.every(Boolean)) {
+    ordered.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.index - b.index);
+  }
+
+  const messages: ConversationMessage[] = ordered.map(({ entry, createdAt }, index) => ({
+    id: `${id}-${index + 1}`,
+    author: {
+      name: entry.author,
+      email: entry.email,
+      type: entry.role,
+    },
+    body: looksLikeHtml(entry.body) ? entry.body : textToHtml(entry.body.trim()),
+    createdAt: createdAt.toISOString(),
+  }));
+
+  const timeline: TimelineEvent[] = messages.map(message => ({
+    id: message.id,
+    kind: 'comment',
+    partType: format,
+    author: {
+      name: message.author.name,
+      type: message.author.type,
+    },
+    body: message.body,
+    createdAt: message.createdAt,
+  }));
+
+  const customer = ordered.find(({ entry }) => entry.role === 'customer')?.entry;
+  const subject = entries.find(entry => entry.subject)?.subject;
+
+  return {
+    id,
+    workspaceId: IMPORT_WORKSPACE_ID,
+    provider: 'import',
+    sourceType: 'conversation',
+    title: subject || (customer && getPlainTextTitle(customer.body)) || 'Imported transcript',
+    customerName: customer?.author || 'Unknown Customer',
+    customerEmail: customer?.email || '',
+    createdAt: messages[0].createdAt,
+    updatedAt: messages[messages.length - 1].createdAt,
+    status: 'open',
+    messages,
+    timeline,
+    tags: ['imported'],
+    priority: 'medium',
+  };
+};
+
+/**
+ * Parses a pasted transcript or export file into a ProcessedConversation. Throws when nothing usable is found
+ */
+export const parseTranscript = (recording: TranscriptRecording): TranscriptImportResult => {
+  const format = detectTranscriptFormat(recording);
+  // Same content, same ID, so re-importing a transcript reuses its cached analysis
+  const id = `import-${hashContent(recording.content)}`;
+
+  switch (format) {
+    case 'json': {
+      const { conversation, entries, skippedConversations } = parseJsonExport(recording.content);
+      if (conversation) {
+        // The export's contact and linked conversations belong to a workspace this import isn't tied to,
+        // so enrichment and write-back must not look them up
+        const { contactId: _contactId, ...exported } = conversation;
+        return {
+          conversation: {
+            ...exported,
+            ticket: exported.ticket && { ...exported.ticket, linkedConversationIds: [] },
+            id,
+            workspaceId: IMPORT_WORKSPACE_ID,
+            provider: 'import',
+            tags: [...conversation.tags, 'imported'],
+          },
+          format,
+          skippedConversations,
+        };
+      }
+      return { conversation: buildImportedConversation(entries, id, format), format, skippedConversations };
+    }
+    case 'csv': {
+      const conversations = parseCsvExport(recording.content);
+      return {
+        conversation: buildImportedConversation(conversations[0] || [], id, format),
+        format,
+        skippedConversations: Math.max(conversations.length - 1, 0),
+      };
+    }
+    case 'email':
+      return { conversation: buildImportedConversation(parseEmailThread(recording.content), id, format), format, skippedConversations: 0 };
+    default:
+      return { conversation: buildImportedConversation(parseChatTranscript(recording.content), id, format), format, skippedConversations: 0 };
+  }
+};
+
+/**
+ * Imports a transcript, wrapping parse failures in an ApiResponse like the fetchers do
+ */
+export const importTranscript = (recording: TranscriptRecording): ApiResponse<TranscriptImportResult> => {
+  try {
+    if (!recording.content.trim()) {
+      return {
+        success: false,
+        error: {
+          code: 'EMPTY_TRANSCRIPT',
+          message: 'The transcript is empty',
+        },
+      };
+    }
+
+    const result = parseTranscript(recording);
+    console.log(`Imported ${result.format} transcript with ${result.conversation.messages.length} messages`);
+
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    console.error('Error importing transcript:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'IMPORT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to import transcript',
+        details: error,
+      },
+    };
+  }
+};
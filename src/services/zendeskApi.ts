@@ -0,0 +1,278 @@
+import axios, { type AxiosInstance, type AxiosResponse } from 'axios';
+import { applyAttributeMapping } from './attributeMapping';
+import { validateConversationId } from './intercomApi';
+import type { ApiResponse, ConversationMessage, ProcessedConversation, TimelineEvent } from '../types/conversation';
+import type {
+  ZendeskComment,
+  ZendeskCommentsResponse,
+  ZendeskRecording,
+  ZendeskTicket,
+  ZendeskTicketField,
+  ZendeskUser,
+} from '../types/zendesk';
+
+// Zendesk tickets are cached under their own key space, apart from Intercom workspaces
+export const ZENDESK_WORKSPACE_ID = 'zendesk';
+
+// Comment pages are followed up to this many requests
+const MAX_COMMENT_PAGES = 10;
+
+let zendeskClient: AxiosInstance | null = null;
+
+/**
+ * Whether the Zendesk environment variables are set
+ */
+export const isZendeskConfigured = (): boolean => {
+  return !!(
+    import.meta.env.VITE_ZENDESK_SUBDOMAIN &&
+    import.meta.env.VITE_ZENDESK_EMAIL &&
+    import.meta.env.VITE_ZENDESK_API_TOKEN
+  );
+};
+
+/**
+ * Returns the Zendesk client, created on first use
+ */
+const getZendeskClient = (): AxiosInstance => {
+  if (!isZendeskConfigured()) {
+    throw new Error('Zendesk is not configured. Please set VITE_ZENDESK_SUBDOMAIN, VITE_ZENDESK_EMAIL and VITE_ZENDESK_API_TOKEN.');
+  }
+  if (zendeskClient) return zendeskClient;
+
+  const subdomain = import.meta.env.VITE_ZENDESK_SUBDOMAIN;
+  zendeskClient = axios.create({
+    // Development proxy configured in vite.config.ts
+    baseURL: import.meta.env.DEV ? '/api/zendesk' : `https://${subdomain}.zendesk.com/api/v2`,
+    timeout: 10000,
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    },
+  });
+
+  // API token auth: "{email}/token:{token}"
+  zendeskClient.interceptors.request.use(
+    (config) => {
+      const credentials = `${import.meta.env.VITE_ZENDESK_EMAIL}/token:${import.meta.env.VITE_ZENDESK_API_TOKEN}`;
+      config.headers.Authorization = `Basic ${btoa(credentials)}`;
+      return config;
+    },
+    (error) => {
+      return Promise.reject(error);
+    }
+  );
+
+  // Response interceptor for error handling
+  zendeskClient.interceptors.response.use(
+    (response) => response,
+    (error) => {
+      console.error('Zendesk API Error:', error.response?.data || error.message);
+
+      if (error.response?.status === 401) {
+        throw new Error('Invalid Zendesk credentials. Please check your environment variables.');
+      }
+      if (error.response?.status === 404) {
+        throw new Error('Ticket not found. Please check the ticket ID.');
+      }
+      if (error.response?.status === 429) {
+        throw new Error('Zendesk rate limit exceeded. Please try again in a few moments.');
+      }
+      if (error.code === 'ECONNABORTED') {
+        throw new Error('Request timeout. Please try again.');
+      }
+
+      throw new Error(error.response?.data?.error || error.message || 'An unexpected error occurred');
+    }
+  );
+
+  return zendeskClient;
+};
+
+/**
+ * Extracts the ticket ID from a Zendesk agent URL (https://acme.zendesk.com/agent/tickets/123)
+ */
+export const parseZendeskUrl = (url: string): string | null => {
+  const match = url.match(/zendesk\.com\/agent\/tickets\/(\d+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * Builds the agent link for a ticket
+ */
+export const buildZendeskTicketUrl = (ticketId: string): string => {
+  return `https://${import.meta.env.VITE_ZENDESK_SUBDOMAIN || 'your-subdomain'}.zendesk.com/agent/tickets/${ticketId}`;
+};
+
+const getAuthorType = (user: ZendeskUser | undefined) =>
+  user && user.role !== 'end-user' ? 'admin' as const : 'customer' as const;
+
+const getCommentBody = (comment: ZendeskComment): string =>
+  comment.html_body || comment.plain_body || comment.body;
+
+const mapPriority = (priority: ZendeskTicket['priority']): ProcessedConversation['priority'] => {
+  switch (priority) {
+    case 'urgent':
+    case 'high':
+      return 'high';
+    case 'low':
+      return 'low';
+    default:
+      return 'medium';
+  }
+};
+
+/**
+ * Names custom field values after their ticket field titles, falling back to the field ID
+ */
+const getNamedCustomFields = (ticket: ZendeskTicket, ticketFields: ZendeskTicketField[] = []): Record<string, unknown> => {
+  const titles = new Map(ticketFields.map(field => [field.id, field.title]));
+  return Object.fromEntries(
+    (ticket.custom_fields || [])
+      .filter(field => field.value !== null && field.value !== '')
+      .map(field => [titles.get(field.id) || `field_${field.id}`, field.value])
+  );
+};
+
+/**
+ * Processes recorded Zendesk API responses into our application format
+ */
+export const processZendeskTicket = ({ ticket, comments, users, ticketFields }: ZendeskRecording): ProcessedConversation => {
+  const usersById = new Map(users.map(user => [user.id, user]));
+  const requester = usersById.get(ticket.requester_id);
+
+  const messages: ConversationMessage[] = comments
+    .filter(comment => comment.public)
+    .map(comment => {
+      const author = usersById.get(comment.author_id);
+      return {
+        id: String(comment.id),
+        author: {
+          name: author?.name || 'Unknown',
+          email: author?.email || '',
+          type: getAuthorType(author),
+        },
+        body: getCommentBody(comment),
+        createdAt: comment.created_at,
+        attachments: comment.attachments?.map(attachment => ({
+          name: attachment.file_name,
+          url: attachment.content_url,
+          contentType: attachment.content_type,
+        })),
+      };
+    });
+
+  // Private comments are the Zendesk equivalent of Intercom internal notes
+  const timeline: TimelineEvent[] = comments.map(comment => {
+    const author = usersById.get(comment.author_id);
+    return {
+      id: String(comment.id),
+      kind: comment.public ? 'comment' as const : 'note' as const,
+      partType: comment.public ? 'public_comment' : 'private_comment',
+      author: {
+        name: author?.name || 'Unknown',
+        type: getAuthorType(author),
+      },
+      body: getCommentBody(comment),
+      createdAt: comment.created_at,
+    };
+  });
+
+  const mapping = applyAttributeMapping({
+    ...getNamedCustomFields(ticket, ticketFields),
+    ...(ticket.type ? { 'Ticket type': ticket.type } : {}),
+  });
+
+  return {
+    id: String(ticket.id),
+    workspaceId: ZENDESK_WORKSPACE_ID,
+    provider: 'zendesk',
+    sourceType: 'ticket',
+    title: ticket.subject || 'Untitled Ticket',
+    customerName: requester?.name || 'Unknown Customer',
+    customerEmail: requester?.email || '',
+    createdAt: ticket.created_at,
+    updatedAt: ticket.updated_at,
+    status: ticket.status === 'solved' || ticket.status === 'closed' ? 'closed' : 'open',
+    messages,
+    timeline,
+    tags: [...ticket.tags, ...mapping.tags],
+    priority: mapping.priority || mapPriority(ticket.priority),
+    customAttributes: mapping.customAttributes,
+    issueFields: mapping.issueFields,
+  };
+};
+
+/**
+ * Fetches every comment page for a ticket, with users sideloaded
+ */
+const fetchTicketComments = async (
+  client: AxiosInstance,
+  ticketId: string
+): Promise<Pick<ZendeskRecording, 'comments' | 'users'>> => {
+  const comments: ZendeskComment[] = [];
+  const users = new Map<number, ZendeskUser>();
+  let nextPage: string | null = `/tickets/${ticketId}/comments.json?include=users`;
+
+  for (let page = 0; nextPage && page < MAX_COMMENT_PAGES; page++) {
+    const response: AxiosResponse<ZendeskCommentsResponse> = await client.get(nextPage);
+    comments.push(...response.data.comments);
+    (response.data.users || []).forEach(user => users.set(user.id, user));
+
+    // next_page is absolute; keep only the path so the dev proxy still applies
+    nextPage = response.data.next_page
+      ? response.data.next_page.replace(/^https:\/\/[^/]+\/api\/v2/, '')
+      : null;
+  }
+
+  return { comments, users: Array.from(users.values()) };
+};
+
+/**
+ * Fetches a Zendesk ticket with its comments
+ */
+export const fetchZendeskTicket = async (ticketId: string): Promise<ApiResponse<ProcessedConversation>> => {
+  try {
+    if (!validateConversationId(ticketId)) {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_ID',
+          message: 'Ticket ID must be a numeric value',
+        },
+      };
+    }
+
+    console.log(`Fetching Zendesk ticket ${ticketId}...`);
+
+    const client = getZendeskClient();
+    const ticketResponse: AxiosResponse<{ ticket: ZendeskTicket }> = await client.get(`/tickets/${ticketId.trim()}.json`);
+    const { comments, users } = await fetchTicketComments(client, ticketId.trim());
+
+    // Field titles are only cosmetic, so a failure here doesn't fail the fetch
+    let ticketFields: ZendeskTicketField[] = [];
+    try {
+      const fieldsResponse: AxiosResponse<{ ticket_fields: ZendeskTicketField[] }> = await client.get('/ticket_fields.json');
+      ticketFields = fieldsResponse.data.ticket_fields;
+    } catch (error) {
+      console.warn('Could not fetch Zendesk ticket fields:', error);
+    }
+
+    console.log('Zendesk ticket fetched successfully:', ticketResponse.data.ticket.id);
+
+    return {
+      success: true,
+      data: processZendeskTicket({ ticket: ticketResponse.data.ticket, comments, users, ticketFields }),
+    };
+  } catch (error) {
+    console.error('Error fetching Zendesk ticket:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'FETCH_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch Zendesk ticket',
+        details: error,
+      },
+    };
+  }
+};
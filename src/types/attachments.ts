@@ -0,0 +1,27 @@
+export type AttachmentStoreKind = 'local' | 's3';
+
+export interface AttachmentStoreConfig {
+  kind: AttachmentStoreKind;
+  // Base URL that stored keys are appended to in issue links
+  publicUrl: string;
+}
+
+// Something to re-host: a conversation attachment (by URL) or a screenshot uploaded in the template
+export interface AttachmentSource {
+  name: string;
+  contentType: string;
+  origin: 'conversation' | 'upload';
+  url?: string;
+  file?: File;
+}
+
+export interface HostedAttachment {
+  name: string;
+  // Permanent link when re-hosted, otherwise the original (possibly expiring) URL
+  url: string;
+  contentType: string;
+  origin: AttachmentSource['origin'];
+  rehosted: boolean;
+  originalUrl?: string;
+  error?: string;
+}
@@ -0,0 +1,38 @@
+// Template fields a custom attribute can fill in
+export type MappedIssueField = 'appId' | 'device' | 'browser' | 'operatingSystem';
+
+export type AttributeOperator = 'present' | 'equals' | 'contains' | 'lte' | 'gte';
+
+// Adds a tag when the attribute is set; {value} in the template is replaced with the attribute value
+export interface AttributeTagRule {
+  id: string;
+  kind: 'tag';
+  attribute: string;
+  template: string;
+}
+
+// Sets the conversation priority when the attribute matches; the first matching rule wins
+export interface AttributePriorityRule {
+  id: string;
+  kind: 'priority';
+  attribute: string;
+  operator: AttributeOperator;
+  value?: string;
+  priority: 'low' | 'medium' | 'high';
+}
+
+// Pre-fills an issue template field with the attribute value
+export interface AttributeIssueFieldRule {
+  id: string;
+  kind: 'issue_field';
+  attribute: string;
+  field: MappedIssueField;
+}
+
+export type AttributeRule = AttributeTagRule | AttributePriorityRule | AttributeIssueFieldRule;
+
+export interface AttributeMappingConfig {
+  rules: AttributeRule[];
+  // Attributes dropped from ProcessedConversation.customAttributes (and so from LLM prompts)
+  hiddenAttributes: string[];
+}
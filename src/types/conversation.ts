@@ -1,3 +1,6 @@
+import type { MappedIssueField } from './attributeMapping';
+import type { SupportProviderId } from './supportProvider';
+
 // Intercom API Types (based on actual API response)
 export interface IntercomConversation {
   id: string;
@@ -26,6 +29,7 @@ export interface IntercomConversation {
   }>;
   conversation_parts: {
     type: string;
+    total_count?: number;
     conversation_parts: Array<{
       id: string;
       part_type: string;
@@ -46,6 +50,16 @@ export interface IntercomConversation {
         content_type: string;
         filesize: number;
       }>;
+      assigned_to?: {
+        type: string;
+        id: string;
+        name?: string;
+      } | null;
+      tags?: Array<{
+        type: string;
+        id: string;
+        name: string;
+      }>;
     }>;
   };
   state: 'open' | 'closed' | 'snoozed';
@@ -74,12 +88,204 @@ export interface IntercomConversation {
   title?: string;
 }
 
+// Intercom conversation search (POST /conversations/search)
+export interface IntercomSearchFilters {
+  tags?: string[];
+  state?: 'open' | 'closed' | 'snoozed';
+  createdAfter?: string;
+  createdBefore?: string;
+  teamAssigneeId?: string;
+  maxResults?: number;
+}
+
+export interface IntercomSearchResponse {
+  type: 'conversation.list';
+  conversations: IntercomConversation[];
+  total_count: number;
+  pages?: {
+    type: 'pages';
+    page: number;
+    per_page: number;
+    total_pages: number;
+    next?: {
+      page: number;
+      starting_after: string;
+    };
+  };
+}
+
+export interface BulkImportResult {
+  conversations: ProcessedConversation[];
+  totalMatched: number;
+  failedIds: string[];
+}
+
+// Intercom contact & company (GET /contacts/{id}, GET /contacts/{id}/companies)
+export interface IntercomContact {
+  type: 'contact';
+  id: string;
+  role: 'user' | 'lead';
+  name?: string;
+  email?: string;
+  browser?: string;
+  browser_version?: string;
+  browser_language?: string;
+  os?: string;
+  last_seen_at?: number;
+  location?: {
+    type: string;
+    country?: string;
+    region?: string;
+    city?: string;
+  };
+  android_device?: string;
+  android_os_version?: string;
+  android_app_version?: string;
+  ios_device?: string;
+  ios_os_version?: string;
+  ios_app_version?: string;
+  custom_attributes?: Record<string, unknown>;
+}
+
+export interface IntercomCompany {
+  type: 'company';
+  id: string;
+  company_id?: string;
+  name: string;
+  plan?: {
+    type: string;
+    id: string;
+    name: string;
+  };
+  website?: string;
+  custom_attributes?: Record<string, unknown>;
+}
+
+// Intercom ticket (GET /tickets/{id})
+export type IntercomTicketState = 'submitted' | 'in_progress' | 'waiting_on_customer' | 'resolved';
+
+export interface IntercomTicket {
+  type: 'ticket';
+  id: string;
+  // Human-facing ticket number shown in the Intercom UI
+  ticket_id: string;
+  category: 'Customer' | 'Back-office' | 'Tracker';
+  ticket_type: {
+    type: 'ticket_type';
+    id: string;
+    name: string;
+  };
+  // Includes the _default_title_ and _default_description_ attributes
+  ticket_attributes: Record<string, unknown>;
+  ticket_state: IntercomTicketState;
+  contacts?: {
+    type: string;
+    contacts: Array<{
+      type: string;
+      id: string;
+      external_id?: string;
+    }>;
+  };
+  admin_assignee_id?: string;
+  team_assignee_id?: string;
+  created_at: number;
+  updated_at: number;
+  open: boolean;
+  linked_objects?: {
+    type: 'list';
+    total_count: number;
+    has_more: boolean;
+    data: Array<{
+      type: 'ticket' | 'conversation';
+      id: string;
+      category?: string | null;
+    }>;
+  };
+  ticket_parts?: {
+    type: string;
+    total_count?: number;
+    ticket_parts: Array<{
+      id: string;
+      part_type: string;
+      body?: string | null;
+      created_at: number;
+      updated_at?: number;
+      author: {
+        id: string;
+        type: string;
+        name?: string;
+        email?: string;
+      };
+      previous_ticket_state?: IntercomTicketState;
+      ticket_state?: IntercomTicketState;
+      attachments?: Array<{
+        type: string;
+        name: string;
+        url: string;
+        content_type: string;
+        filesize: number;
+      }>;
+    }>;
+  };
+}
+
+export type IntercomSourceType = 'conversation' | 'ticket';
+
+// Raw API responses the Intercom adapter can be replayed from
+export type IntercomRecording =
+  | { conversation: IntercomConversation }
+  | { ticket: IntercomTicket; linkedConversation?: IntercomConversation; contact?: IntercomContact };
+
+// What an Intercom URL points at
+export interface IntercomReference {
+  type: IntercomSourceType;
+  id: string;
+}
+
+export interface TicketDetails {
+  ticketNumber: string;
+  typeName: string;
+  category: string;
+  state: IntercomTicketState;
+  affectedFeature?: string;
+  linkedConversationIds: string[];
+}
+
+// A pre-filled value and where it came from, so the TSE can judge how much to trust it
+export interface EnrichedField {
+  value: string;
+  source: string;
+}
+
+export interface ContactEnrichment {
+  contactId: string;
+  browser?: EnrichedField;
+  operatingSystem?: EnrichedField;
+  device?: EnrichedField;
+  appId?: EnrichedField;
+  location?: EnrichedField;
+  lastSeenAt?: EnrichedField;
+  companies: Array<{
+    id: string;
+    name: string;
+    plan?: string;
+  }>;
+}
+
 // Processed conversation data for our application
 export interface ProcessedConversation {
   id: string;
+  // Intercom workspace profile the conversation was fetched from
+  workspaceId?: string;
+  // Support platform the conversation came from; Intercom when unset
+  provider?: SupportProviderId;
+  // Tickets are processed into the same shape, with the ticket specifics in `ticket`
+  sourceType?: IntercomSourceType;
+  ticket?: TicketDetails;
   title: string;
   customerName: string;
   customerEmail: string;
+  contactId?: string;
   createdAt: string;
   updatedAt: string;
   status: 'open' | 'closed';
@@ -87,6 +293,32 @@ export interface ProcessedConversation {
   tags: string[];
   priority: 'low' | 'medium' | 'high';
   customAttributes?: Record<string, any>;
+  // Template fields filled from custom attributes by the attribute mapping rules
+  issueFields?: Partial<Record<MappedIssueField, EnrichedField>>;
+  timeline: TimelineEvent[];
+  // Set when Intercom truncated the thread and the remaining parts couldn't be fetched
+  isPartialThread?: boolean;
+  missingPartCount?: number;
+  // Language of the customer's messages, detected when the conversation is loaded
+  language?: DetectedLanguage;
+  // Set on the English copy used for analysis once message bodies have been translated
+  isTranslated?: boolean;
+}
+
+export interface DetectedLanguage {
+  // ISO 639-1 code
+  code: string;
+  name: string;
+  confidence: number;
+}
+
+// English text for each message and timeline event, keyed by their IDs
+export interface ConversationTranslation {
+  sourceLanguage: DetectedLanguage;
+  texts: Record<string, string>;
+  // Segments whose batch failed to translate; they keep their original text
+  untranslatedIds?: string[];
+  promptVersion?: string;
 }
 
 export interface ConversationMessage {
@@ -105,6 +337,32 @@ export interface ConversationMessage {
   }>;
 }
 
+// Every conversation part in order, including the ones that aren't customer-facing comments
+export type TimelineEventKind =
+  | 'comment'
+  | 'note'
+  | 'assignment'
+  | 'snooze'
+  | 'reopen'
+  | 'close'
+  | 'state_change'
+  | 'tag_change'
+  | 'other';
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineEventKind;
+  partType: string;
+  author: {
+    name: string;
+    type: 'customer' | 'admin' | 'bot';
+  };
+  body?: string;
+  createdAt: string;
+  assignedTo?: string;
+  tags?: string[];
+}
+
 // GitHub Issue Template
 export interface GitHubIssueTemplate {
   title: string;
@@ -122,6 +380,21 @@ export interface ConversationAnalysis {
   suggestedLabels: string[];
   customerImpact: 'low' | 'medium' | 'high';
   issueType: 'bug' | 'feature' | 'question' | 'improvement';
+  // Registry version of the prompt that produced it, e.g. "issueGeneration@v2"
+  promptVersion?: string;
+}
+
+// Issue title and body as generated so far, while the model is still writing them
+export interface IssueDraft {
+  title: string;
+  body: string;
+}
+
+// Result of posting the created GitHub issue back to the Intercom conversation
+export interface IntercomWriteBackResult {
+  notePosted: boolean;
+  tagApplied: string | null;
+  errors: string[];
 }
 
 // API Response Types
@@ -166,11 +439,24 @@ export interface BugDetectionResult {
   };
 }
 
+// A quote from the thread backing one of the bug detection key indicators
+export interface EvidenceCitation {
+  indicator: string;
+  messageId: string;
+  quote: string;
+  // Filled in from the cited message once the quote has been found in it
+  author?: ConversationMessage['author'];
+  createdAt?: string;
+}
+
 export interface EnhancedIssueContext {
   screenshots: Array<{
     name: string;
     url: string;
     description?: string;
+    contentType?: string;
+    // False when the attachment store was unavailable and the original (expiring) link is kept
+    rehosted?: boolean;
   }>;
   additionalSteps: string;
   technicalDetails: string;
@@ -178,4 +464,11 @@ export interface EnhancedIssueContext {
   browserInfo: string;
   appId: string;
   customerImpact: 'low' | 'medium' | 'high';
+  // Ticket attributes, when the issue comes from an Intercom ticket
+  ticketCategory?: string;
+  affectedFeature?: string;
+  // AI-written title and body, possibly edited by the TSE; used instead of the filled-in template
+  issueDraft?: IssueDraft;
+  // Quotes bug detection cited, to be repeated in the issue
+  evidence?: EvidenceCitation[];
 } 
\ No newline at end of file
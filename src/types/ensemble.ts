@@ -0,0 +1,37 @@
+import type { BugDetectionResult } from '../services/llmApi';
+import type { LLMProviderConfig, LLMStepSettings } from './llm';
+
+// VITE_BUG_DETECTION_ENSEMBLE, e.g. {"samples":3,"temperature":0.7,"models":[{"provider":"anthropic"}]}
+export interface BugDetectionEnsembleSettings {
+  // Runs per model
+  samples?: number;
+  // Sampling temperature for every run, so repeated samples can differ
+  temperature?: number;
+  // Models that vote alongside the configured bug detection model, resolved like VITE_LLM_STEPS entries
+  models?: LLMStepSettings[];
+}
+
+export interface BugDetectionEnsembleConfig {
+  members: LLMProviderConfig[];
+  samples: number;
+  temperature: number;
+}
+
+// One detection run's verdict
+export interface BugDetectionVote extends Pick<BugDetectionResult, 'isBug' | 'confidence' | 'bugType' | 'severity'> {
+  // Provider and model label, e.g. "OpenAI gpt-4"
+  model: string;
+  // 1-based run number for that model
+  sample: number;
+}
+
+export interface BugDetectionEnsembleResult {
+  votes: BugDetectionVote[];
+  // Runs that errored or never produced valid output; they don't vote
+  failures: Array<{ model: string; sample: number; error: string }>;
+  bugVotes: number;
+  // Average of the confidences the models printed, before the vote is applied
+  reportedConfidence: number;
+  // True when the votes split on whether it's a bug or on its type
+  disagreement: boolean;
+}
@@ -0,0 +1,96 @@
+import type { BugDetectionResult } from '../services/llmApi';
+import type { ProcessedConversation } from './conversation';
+
+export type EvaluationDetectorId = 'configured' | 'keyword';
+
+// What a human reviewer decided the conversation is
+export interface EvaluationLabel {
+  isBug: boolean;
+  bugType: BugDetectionResult['bugType'];
+  severity?: BugDetectionResult['severity'];
+}
+
+export interface EvaluationCase {
+  id: string;
+  conversation: ProcessedConversation;
+  expected: EvaluationLabel;
+  note?: string;
+}
+
+export interface EvaluationDataset {
+  name: string;
+  cases: EvaluationCase[];
+}
+
+export interface EvaluationCaseResult {
+  caseId: string;
+  expected: EvaluationLabel;
+  // Missing when the detector failed on this case
+  predicted?: EvaluationLabel & { confidence: number };
+  error?: string;
+  durationMs: number;
+}
+
+// Bug is the positive class
+export interface ConfusionMatrix {
+  truePositive: number;
+  falsePositive: number;
+  trueNegative: number;
+  falseNegative: number;
+}
+
+export interface CalibrationBucket {
+  // Confidence range, lower bound inclusive
+  min: number;
+  max: number;
+  count: number;
+  meanConfidence: number;
+  // Share of predictions in the bucket that were right
+  accuracy: number;
+}
+
+export interface EvaluationMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+  confusion: ConfusionMatrix;
+  // Among cases the detector classified, how often bugType and severity matched the label
+  bugTypeAccuracy: number;
+  severityAccuracy: number;
+  calibration: CalibrationBucket[];
+  // Weighted gap between confidence and accuracy across buckets; 0 is perfectly calibrated
+  expectedCalibrationError: number;
+  errors: number;
+}
+
+export interface EvaluationRun {
+  id: string;
+  datasetName: string;
+  detector: EvaluationDetectorId;
+  // Provider/model label and prompt version the run used
+  model: string;
+  promptVersion: string;
+  startedAt: string;
+  completedAt: string;
+  results: EvaluationCaseResult[];
+  metrics: EvaluationMetrics;
+}
+
+export type EvaluationMetricName = 'precision' | 'recall' | 'f1' | 'accuracy' | 'bugTypeAccuracy' | 'severityAccuracy' | 'expectedCalibrationError';
+
+export interface EvaluationCaseChange {
+  caseId: string;
+  expected: EvaluationLabel;
+  before?: EvaluationCaseResult['predicted'];
+  after?: EvaluationCaseResult['predicted'];
+  // Whether the isBug call went from wrong to right
+  fixed: boolean;
+}
+
+export interface EvaluationRunDiff {
+  previousRunId: string;
+  metricDeltas: Record<EvaluationMetricName, number>;
+  // Cases whose isBug, bugType or severity prediction differs between the runs
+  changedCases: EvaluationCaseChange[];
+}
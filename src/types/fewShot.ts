@@ -0,0 +1,36 @@
+import type { BugDetectionResult } from '../services/llmApi';
+
+// How a TSE finally triaged a conversation
+export type TriageOutcome = 'filed_bug' | 'duplicate' | 'not_a_bug';
+
+// A past conversation and its outcome, shown to bug detection as a worked example
+export interface FewShotExample {
+  id: string;
+  conversationId: string;
+  title: string;
+  // Redacted opening of the thread, short enough for several examples to fit in one prompt
+  excerpt: string;
+  outcome: TriageOutcome;
+  bugType: BugDetectionResult['bugType'];
+  severity: BugDetectionResult['severity'];
+  // Why the TSE settled on the outcome
+  rationale: string;
+  // The filed issue, or the existing one a duplicate was closed against
+  issueNumber?: number;
+  issueUrl?: string;
+  createdAt: string;
+}
+
+export interface FewShotSettings {
+  enabled: boolean;
+  // Most similar examples added to each bug detection prompt
+  maxExamples: number;
+}
+
+// Examples a detection run was given, kept with its result
+export interface FewShotReference {
+  id: string;
+  title: string;
+  outcome: TriageOutcome;
+  similarity: number;
+}
@@ -0,0 +1,84 @@
+// 'local' is any OpenAI-compatible server, such as Ollama or llama.cpp
+export type LLMProviderKind = 'openai' | 'azure' | 'anthropic' | 'local';
+
+// Each step can run on its own provider and model
+export type LLMPipelineStep = 'bugDetection' | 'translation' | 'issueGeneration' | 'duplicateAnalysis' | 'condensation';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMProviderConfig {
+  kind: LLMProviderKind;
+  // For Azure this is the deployment name
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Settings left unset here fall back to the defaults each request passes
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number;
+  // Tokens the model accepts (prompt plus answer); looked up from the model name when unset
+  contextWindow?: number;
+  // Azure OpenAI only
+  apiVersion?: string;
+}
+
+// Overrides for one pipeline step, as read from VITE_LLM_STEPS
+export type LLMStepSettings = Partial<Pick<LLMProviderConfig, 'model' | 'baseUrl' | 'temperature' | 'maxTokens' | 'timeout' | 'contextWindow'>> & {
+  provider?: LLMProviderKind;
+};
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  // Defaults for the call site; values configured for the step take precedence
+  temperature?: number;
+  maxTokens?: number;
+  timeout?: number;
+  // Asks for the provider's JSON mode where it has one; the prompt still has to describe the shape
+  responseFormat?: 'json';
+  // Cancels the request; the call rejects and callers can tell from signal.aborted
+  signal?: AbortSignal;
+  // Conversation the call was made for, recorded with its usage
+  conversationId?: string;
+  // Prompt the messages were rendered from, e.g. "bugDetection@v3"; part of the response cache key
+  promptVersion?: string;
+  // Skips the cached answer for this call; the fresh answer replaces it
+  bypassCache?: boolean;
+  // Numbers repeated samples of the same request so each is cached separately
+  sample?: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface LLMProvider {
+  kind: LLMProviderKind;
+  model: string;
+  // Human-readable provider and model, e.g. "Anthropic claude-3-5-sonnet-latest"
+  label: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  // Same as complete, calling onContent with the text received so far as tokens arrive.
+  // The timeout applies between chunks rather than to the whole answer
+  stream(request: LLMCompletionRequest, onContent: (content: string) => void): Promise<LLMCompletion>;
+}
+
+// How much of a long thread was summarized to fit the model's context window
+export interface ConversationCondensation {
+  totalMessages: number;
+  verbatimMessages: number;
+  condensedMessages: number;
+  // Summarization calls made, one per run of condensed messages
+  chunks: number;
+  originalTokens: number;
+  condensedTokens: number;
+  contextWindow: number;
+  promptVersion?: string;
+}
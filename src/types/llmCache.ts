@@ -0,0 +1,35 @@
+import type { LLMCompletion, LLMPipelineStep } from './llm';
+
+// Where cached answers are kept: the browser's IndexedDB, or files behind the dev/preview server
+export type LLMCacheBackend = 'indexeddb' | 'server';
+
+// One cached answer, keyed by a hash of provider, model, prompt version and input
+export interface LLMCacheEntry {
+  key: string;
+  step: LLMPipelineStep;
+  model: string;
+  completion: LLMCompletion;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface LLMCacheSettings {
+  // Every call goes to the provider and refreshes the cached answer
+  bypass: boolean;
+  // How long answers are reused per step; 0 turns caching off for the step
+  ttlHours: Record<LLMPipelineStep, number>;
+}
+
+export interface LLMCacheStepStats {
+  hits: number;
+  misses: number;
+  // Calls that skipped the lookup because the cache was bypassed
+  bypassed: number;
+}
+
+export interface LLMCacheStats {
+  since: string;
+  steps: Partial<Record<LLMPipelineStep, LLMCacheStepStats>>;
+  // Estimated USD the hits would have cost
+  savedCost: number;
+}
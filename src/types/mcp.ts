@@ -14,6 +14,8 @@ export interface AIAnalyzedIssue {
   relationship_type: 'duplicate' | 'related' | 'dependency' | 'follow-up';
   reasoning: string;
   suggested_action: 'reference' | 'merge' | 'update_existing' | 'create_new';
+  // Registry version of the similarity prompt, when the score came from the model
+  prompt_version?: string;
 }
 
 export interface MCPTool {
@@ -0,0 +1,37 @@
+export type PromptId = 'bugDetection' | 'issueGeneration' | 'duplicateSimilarity' | 'translation' | 'condensation';
+
+export interface PromptDefinition {
+  id: PromptId;
+  name: string;
+  description: string;
+  // Names usable as {{name}} in the template
+  variables: string[];
+  defaultTemplate: string;
+}
+
+export interface PromptVersion {
+  // Version 1 is the built-in template
+  version: number;
+  template: string;
+  createdAt: string;
+  note?: string;
+  // Hash of the built-in template when this version was saved, to tell when the built-in has changed since
+  builtInHash?: string;
+}
+
+// Edited versions and the version in use, per prompt; what the settings screen saves
+export interface PromptRegistryConfig {
+  prompts: Partial<Record<PromptId, {
+    versions: PromptVersion[];
+    activeVersion: number;
+  }>>;
+}
+
+export interface RenderedPrompt {
+  id: PromptId;
+  version: number;
+  text: string;
+  // "bugDetection@v2", attached to results as promptVersion; the built-in version adds a hash of its template
+  // ("bugDetection@v1-1a2b3c4d") so results from before and after a change to the default are told apart
+  tag: string;
+}
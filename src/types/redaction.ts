@@ -0,0 +1,16 @@
+// Kinds of sensitive value the redactor can detect, in the order they are applied
+export type RedactionDetector = 'secret' | 'email' | 'card' | 'phone' | 'name' | 'custom';
+
+export interface RedactionConfig {
+  enabled: boolean;
+  detectors: Record<RedactionDetector, boolean>;
+  // Extra words or phrases to redact, e.g. internal project names
+  customTerms: string[];
+}
+
+// One redacted value and the placeholder that replaced it, e.g. [EMAIL_1]
+export interface RedactionEntry {
+  placeholder: string;
+  original: string;
+  detector: RedactionDetector;
+}
@@ -0,0 +1,25 @@
+import type { ApiResponse, ProcessedConversation } from './conversation';
+
+// 'import' covers pasted transcripts and uploaded export files, which have no live source
+export type SupportProviderId = 'intercom' | 'zendesk' | 'import';
+
+// What a pasted URL points at, in the provider that owns it
+export interface SupportReference {
+  provider: SupportProviderId;
+  type: 'conversation' | 'ticket';
+  id: string;
+  // Intercom workspace profile, or the provider's own account key
+  workspaceId: string;
+}
+
+export interface SupportProvider<TRecording = unknown> {
+  id: SupportProviderId;
+  name: string;
+  // Cheap host check used to validate input before parsing
+  matchesUrl: (url: string) => boolean;
+  parseUrl: (url: string) => SupportReference | null;
+  fetchConversation: (reference: SupportReference) => Promise<ApiResponse<ProcessedConversation>>;
+  // Maps recorded API responses without any network calls, so adapters can be checked against fixtures
+  fromRecording: (recording: TRecording) => ProcessedConversation;
+  buildConversationUrl: (conversation: ProcessedConversation) => string;
+}
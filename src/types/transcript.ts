@@ -0,0 +1,29 @@
+import type { ProcessedConversation } from './conversation';
+
+// A pasted transcript or uploaded export file, as handed to the import adapter
+export interface TranscriptRecording {
+  content: string;
+  // Used to pick the parser (.csv, .json, .eml, .txt); pasted text has none
+  fileName?: string;
+}
+
+export type TranscriptFormat = 'chat' | 'email' | 'csv' | 'json';
+
+// A single message pulled out of a transcript, before it becomes a ConversationMessage
+export interface TranscriptEntry {
+  author: string;
+  email?: string;
+  // Explicit role from the source (CSV/JSON role column, "Agent:" labels); inferred when missing
+  role?: 'customer' | 'admin' | 'bot';
+  body: string;
+  // Raw timestamp text as found in the transcript
+  timestamp?: string;
+  subject?: string;
+}
+
+export interface TranscriptImportResult {
+  conversation: ProcessedConversation;
+  format: TranscriptFormat;
+  // Exports holding several conversations only import the first
+  skippedConversations: number;
+}
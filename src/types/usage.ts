@@ -0,0 +1,35 @@
+import type { LLMPipelineStep, LLMProviderKind } from './llm';
+
+// One model call, as kept for the usage dashboard
+export interface LLMUsageRecord {
+  id: string;
+  timestamp: string;
+  step: LLMPipelineStep;
+  provider: LLMProviderKind;
+  model: string;
+  conversationId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  // True when the provider didn't report usage and the counts were estimated from the text
+  estimatedTokens: boolean;
+  latencyMs: number;
+  // Estimated USD; local models and failed calls cost nothing
+  cost: number;
+  streamed: boolean;
+  error?: string;
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  averageLatencyMs: number;
+}
@@ -0,0 +1,17 @@
+// Intercom hosts each data region on its own API domain
+export type IntercomRegion = 'us' | 'eu' | 'au';
+
+export interface IntercomWorkspace {
+  id: string;
+  name: string;
+  // App IDs as they appear in conversation URLs (/a/apps/<appId>/...)
+  appIds: string[];
+  accessToken: string;
+  region: IntercomRegion;
+  // Admin that write-back notes and tags are attributed to; the token's owner when unset
+  adminId?: string;
+  githubTarget?: {
+    owner: string;
+    repo: string;
+  };
+}
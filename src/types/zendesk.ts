@@ -0,0 +1,66 @@
+// Zendesk Support API types (GET /api/v2/tickets/{id}, GET /api/v2/tickets/{id}/comments)
+export interface ZendeskTicket {
+  id: number;
+  url: string;
+  subject: string | null;
+  description: string;
+  status: 'new' | 'open' | 'pending' | 'hold' | 'solved' | 'closed';
+  priority: 'urgent' | 'high' | 'normal' | 'low' | null;
+  type: 'problem' | 'incident' | 'question' | 'task' | null;
+  tags: string[];
+  requester_id: number;
+  assignee_id: number | null;
+  created_at: string;
+  updated_at: string;
+  custom_fields?: Array<{
+    id: number;
+    value: unknown;
+  }>;
+}
+
+export interface ZendeskUser {
+  id: number;
+  name: string;
+  email?: string;
+  role: 'end-user' | 'agent' | 'admin';
+}
+
+export interface ZendeskComment {
+  id: number;
+  type: 'Comment' | 'VoiceComment';
+  author_id: number;
+  body: string;
+  html_body?: string;
+  plain_body?: string;
+  // Private comments are internal notes
+  public: boolean;
+  created_at: string;
+  attachments?: Array<{
+    id: number;
+    file_name: string;
+    content_url: string;
+    content_type: string;
+    size?: number;
+  }>;
+}
+
+export interface ZendeskCommentsResponse {
+  comments: ZendeskComment[];
+  // Sideloaded with ?include=users
+  users?: ZendeskUser[];
+  next_page: string | null;
+  count?: number;
+}
+
+export interface ZendeskTicketField {
+  id: number;
+  title: string;
+}
+
+// Everything the adapter needs to build a ProcessedConversation, as returned by the API
+export interface ZendeskRecording {
+  ticket: ZendeskTicket;
+  comments: ZendeskComment[];
+  users: ZendeskUser[];
+  ticketFields?: ZendeskTicketField[];
+}
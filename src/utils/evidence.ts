@@ -0,0 +1,76 @@
+import { htmlToMarkdown } from './htmlToMarkdown';
+import type { ConversationMessage, EvidenceCitation } from '../types/conversation';
+
+/**
+ * DOM id of a message in the conversation thread, used to jump to cited quotes
+ */
+export const getEvidenceElementId = (messageId: string): string => `message-${messageId}`;
+
+/**
+ * Where a quote occurs in a text, ignoring case, whitespace differences and surrounding quote marks.
+ * Returns null when the text doesn't contain it
+ */
+export const findQuote = (text: string, quote: string): { start: number; end: number } | null => {
+  const words = quote
+    .replace(/^[\s"'“”‘’.…]+|[\s"'“”‘’.…]+$/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return null;
+
+  const match = new RegExp(words.join('\\s+'), 'i').exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+/**
+ * Checks the model's citations against the thread: each quote must appear in the cited message, or
+ * in another message, which it is then moved to. Quotes found nowhere are dropped. Kept citations
+ * get the quote as written in the message, plus its author and timestamp
+ */
+export const resolveEvidenceCitations = (
+  messages: ConversationMessage[],
+  citations: EvidenceCitation[] = []
+): EvidenceCitation[] => {
+  const bodies = new Map(messages.map(message => [message.id, htmlToMarkdown(message.body)]));
+
+  return citations.flatMap(citation => {
+    const candidates = [
+      ...messages.filter(message => message.id === citation.messageId),
+      ...messages.filter(message => message.id !== citation.messageId),
+    ];
+    for (const message of candidates) {
+      const body = bodies.get(message.id) || '';
+      const range = findQuote(body, citation.quote);
+      if (range) {
+        return [{
+          ...citation,
+          messageId: message.id,
+          quote: body.slice(range.start, range.end),
+          author: message.author,
+          createdAt: message.createdAt,
+        }];
+      }
+    }
+
+    console.warn(`Dropped evidence for "${citation.indicator}": quote not found in the conversation`);
+    return [];
+  });
+};
+
+/**
+ * Citations backing one key indicator
+ */
+export const getIndicatorEvidence = (evidence: EvidenceCitation[] = [], indicator: string): EvidenceCitation[] =>
+  evidence.filter(citation => citation.indicator.trim().toLowerCase() === indicator.trim().toLowerCase());
+
+/**
+ * Markdown block quotes with author and UTC timestamp, for GitHub issues
+ */
+export const formatEvidenceMarkdown = (evidence: EvidenceCitation[]): string =>
+  evidence.map(citation => {
+    const timestamp = citation.createdAt
+      ? `, ${new Date(citation.createdAt).toISOString().slice(0, 16).replace('T', ' ')} UTC`
+      : '';
+    const author = citation.author ? ` — ${citation.author.name} (${citation.author.type === 'admin' ? 'agent' : citation.author.type}${timestamp})` : '';
+    return `> "${citation.quote.replace(/\s*\n\s*/g, ' ')}"${author}`;
+  }).join('\n\n');
@@ -0,0 +1,22 @@
+export const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Hex SHA-256 digest of a string or raw bytes
+ */
+export const sha256Hex = async (data: ArrayBuffer | string): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+};
+
+/**
+ * Short non-cryptographic hash (32-bit FNV-1a) for telling texts apart where a synchronous result is needed
+ */
+export const fnv1aHex = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,240 @@
+/**
+ * Converts Intercom message HTML into Markdown for LLM prompts, issue bodies and the UI.
+ * Written without DOM APIs so it behaves the same in the browser and in Node scripts.
+ */
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+interface RenderContext {
+  listDepth: number;
+}
+
+const VOID_TAGS = new Set(['br', 'img', 'hr', 'input', 'meta', 'link', 'wbr', 'source']);
+const DROPPED_TAGS = new Set(['script', 'style', 'head', 'template', 'iframe', 'object']);
+const SAFE_URL = /^(https?:|mailto:|\/)/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+/**
+ * Decodes named and numeric HTML entities
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attrs[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*?)(\/?)>|[^<]+|</g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [token, closing, rawTag, attrSource, selfClosing] = match;
+    const current = stack[stack.length - 1];
+
+    if (token.startsWith('<!--')) continue;
+
+    if (!rawTag) {
+      current.children.push(token);
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      // Pop back to the matching element; stray closing tags are ignored
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: HtmlElement = { tag, attrs: parseAttributes(attrSource), children: [] };
+    current.children.push(element);
+
+    if (!selfClosing && !VOID_TAGS.has(tag)) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return decodeHtmlEntities(node);
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function safeUrl(url: string | undefined): string | null {
+  const trimmed = url?.trim();
+  return trimmed && SAFE_URL.test(trimmed) ? trimmed : null;
+}
+
+function renderChildren(nodes: HtmlNode[], context: RenderContext): string {
+  return nodes.map(node => renderNode(node, context)).join('');
+}
+
+function renderList(element: HtmlElement, context: RenderContext): string {
+  const ordered = element.tag === 'ol';
+  const indent = '  '.repeat(context.listDepth);
+  let index = parseInt(element.attrs.start || '1', 10) || 1;
+
+  const items = element.children
+    .filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'li')
+    .map(item => {
+      const marker = ordered ? `${index++}.` : '-';
+      const content = renderChildren(item.children, { ...context, listDepth: context.listDepth + 1 })
+        .trim()
+        .replace(/\n{2,}/g, '\n')
+        .replace(/\n(?!\s*(?:-|\d+\.) )/g, `\n${indent}  `);
+      return `${indent}${marker} ${content}`;
+    });
+
+  return context.listDepth > 0 ? `\n${items.join('\n')}` : `\n\n${items.join('\n')}\n\n`;
+}
+
+function renderNode(node: HtmlNode, context: RenderContext): string {
+  if (typeof node === 'string') {
+    return decodeHtmlEntities(node).replace(/\s+/g, ' ');
+  }
+
+  if (DROPPED_TAGS.has(node.tag)) return '';
+
+  const inner = () => renderChildren(node.children, context);
+
+  switch (node.tag) {
+    case 'p':
+    case 'div':
+    case 'section':
+    case 'article':
+    case 'table':
+    case 'tr':
+      return `\n\n${inner().trim()}\n\n`;
+    case 'td':
+    case 'th':
+      return `${inner().trim()} `;
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return `\n\n${'#'.repeat(Number(node.tag[1]))} ${inner().trim()}\n\n`;
+    case 'strong':
+    case 'b': {
+      const content = inner();
+      return content.trim() ? `**${content.trim()}**` : content;
+    }
+    case 'em':
+    case 'i': {
+      const content = inner();
+      return content.trim() ? `_${content.trim()}_` : content;
+    }
+    case 'code':
+      return `\`${textContent(node)}\``;
+    case 'pre': {
+      const code = textContent(node).replace(/^\n+|\n+$/g, '');
+      return `\n\n\`\`\`\n${code}\n\`\`\`\n\n`;
+    }
+    case 'blockquote': {
+      const quoted = inner().trim().split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+      return `\n\n${quoted}\n\n`;
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node, context);
+    case 'a': {
+      const content = inner().trim();
+      const href = safeUrl(node.attrs.href);
+      if (!href) return content;
+      if (!content || content === href) return `<${href}>`;
+      return `[${content}](${href})`;
+    }
+    case 'img': {
+      const src = safeUrl(node.attrs.src);
+      return src ? `![${node.attrs.alt || 'image'}](${src})` : '';
+    }
+    default:
+      return inner();
+  }
+}
+
+/**
+ * Converts an HTML message body to Markdown, keeping links, code, lists, quotes and images
+ */
+export function htmlToMarkdown(html: string | undefined | null): string {
+  if (!html) return '';
+
+  return renderChildren(parseHtml(html), { listDepth: 0 })
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Escapes text for use in HTML content or quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Wraps plain text in paragraphs so it renders like Intercom message HTML
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
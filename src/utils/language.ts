@@ -0,0 +1,170 @@
+/**
+ * Language detection for support conversations, and helpers for working with their English translations.
+ * Detection is a lightweight script + stopword heuristic: good enough to decide whether to translate.
+ */
+import { htmlToMarkdown, textToHtml } from './htmlToMarkdown';
+import type { ConversationTranslation, DetectedLanguage, ProcessedConversation } from '../types/conversation';
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  it: 'Italian',
+  nl: 'Dutch',
+  ja: 'Japanese',
+  zh: 'Chinese',
+  ko: 'Korean',
+  ru: 'Russian',
+};
+
+// Languages told apart by their writing system rather than by vocabulary
+const SCRIPTS: Array<{ code: string; pattern: RegExp }> = [
+  { code: 'ja', pattern: /[\u3040-\u30ff]/g },
+  { code: 'ko', pattern: /[\uac00-\ud7af]/g },
+  { code: 'zh', pattern: /[\u4e00-\u9fff]/g },
+  { code: 'ru', pattern: /[\u0400-\u04ff]/g },
+];
+
+// The most frequent words of each language. Some are shared ("de", "la", "en"), so a word counts for every
+// language that has it, split between them
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'to', 'of', 'it', 'not', 'this', 'that', 'with', 'for', 'you', 'have', 'was', 'when', 'what', 'can', 'my', 'we', 'please', 'but', 'does', "doesn't", "can't", 'thanks'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'wir', 'sie', 'es', 'ein', 'eine', 'mit', 'auf', 'für', 'bei', 'wenn', 'aber', 'auch', 'kann', 'funktioniert', 'wird', 'sind', 'haben', 'bitte', 'danke', 'hallo'],
+  fr: ['de', 'la', 'le', 'les', 'et', 'est', 'que', 'en', 'un', 'ne', 'pas', 'je', 'nous', 'vous', 'il', 'une', 'des', 'du', 'avec', 'pour', 'sur', 'mais', 'quand', 'cela', 'ça', 'fonctionne', 'bonjour', 'merci', "c'est", "j'ai"],
+  es: ['de', 'la', 'que', 'en', 'el', 'los', 'las', 'y', 'no', 'se', 'un', 'lo', 'es', 'yo', 'usted', 'una', 'con', 'para', 'por', 'pero', 'cuando', 'funciona', 'hola', 'gracias', 'está', 'muy', 'mi', 'puedo', 'tengo', 'del'],
+  pt: ['de', 'que', 'o', 'a', 'e', 'do', 'da', 'em', 'os', 'não', 'eu', 'nós', 'você', 'um', 'uma', 'com', 'para', 'mas', 'quando', 'funciona', 'olá', 'obrigado', 'obrigada', 'está', 'muito', 'meu', 'minha', 'tenho', 'isso'],
+  it: ['di', 'la', 'che', 'il', 'gli', 'è', 'non', 'io', 'noi', 'una', 'con', 'per', 'ma', 'quando', 'funziona', 'ciao', 'grazie', 'molto', 'sono', 'questo', 'della'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'niet', 'ik', 'wij', 'jij', 'met', 'voor', 'maar', 'wanneer', 'dat', 'werkt', 'hallo', 'bedankt', 'bij', 'ook', 'kan'],
+};
+
+// How many languages list each word
+const STOPWORD_LANGUAGE_COUNTS = Object.values(STOPWORDS).flat().reduce(
+  (counts, word) => counts.set(word, (counts.get(word) || 0) + 1),
+  new Map<string, number>()
+);
+
+// Below this many stopword hits the text is too short to call
+const MIN_STOPWORD_HITS = 3;
+
+/**
+ * Human-readable name for a language code
+ */
+export const getLanguageName = (code: string): string => LANGUAGE_NAMES[code] || code;
+
+/**
+ * Detects the dominant language of a piece of text, or undefined when there is too little to go on
+ */
+export const detectLanguage = (text: string): DetectedLanguage | undefined => {
+  const letters = (text.match(/\p{L}/gu) || []).length;
+  if (letters === 0) return undefined;
+
+  for (const { code, pattern } of SCRIPTS) {
+    const count = (text.match(pattern) || []).length;
+    if (count / letters > 0.2) {
+      return { code, name: getLanguageName(code), confidence: Math.min(1, count / letters + 0.3) };
+    }
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  const scores = Object.entries(STOPWORDS).map(([code, stopwords]) => {
+    const set = new Set(stopwords);
+    const matches = words.filter(word => set.has(word));
+    return {
+      code,
+      hits: matches.length,
+      score: matches.reduce((sum, word) => sum + 1 / STOPWORD_LANGUAGE_COUNTS.get(word), 0),
+    };
+  });
+  const totalScore = scores.reduce((sum, score) => sum + score.score, 0);
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+
+  if (!best || best.hits < MIN_STOPWORD_HITS) return undefined;
+  return { code: best.code, name: getLanguageName(best.code), confidence: Number((best.score / totalScore).toFixed(2)) };
+};
+
+/**
+ * Detects the language the customer wrote in, falling back to the whole thread
+ */
+export const detectConversationLanguage = (conversation: ProcessedConversation): DetectedLanguage | undefined => {
+  const textOf = (messages: ProcessedConversation['messages']) =>
+    messages.map(message => htmlToMarkdown(message.body)).join('\n');
+
+  const customerMessages = conversation.messages.filter(message => message.author.type === 'customer');
+  return detectLanguage(`${conversation.title}\n${textOf(customerMessages)}`) || detectLanguage(textOf(conversation.messages));
+};
+
+/**
+ * Sets `language` on a freshly loaded conversation
+ */
+export const withDetectedLanguage = (conversation: ProcessedConversation): ProcessedConversation => {
+  if (conversation.language) return conversation;
+  const language = detectConversationLanguage(conversation);
+  return language ? { ...conversation, language } : conversation;
+};
+
+/**
+ * Whether the conversation should be translated before analysis
+ */
+export const needsTranslation = (conversation: ProcessedConversation | null | undefined): boolean => {
+  return !!conversation?.language && conversation.language.code !== 'en' && !conversation.isTranslated;
+};
+
+/**
+ * The message and note texts to translate, keyed by ID (messages and their timeline events share IDs)
+ */
+export const getTranslatableTexts = (conversation: ProcessedConversation): Record<string, string> => {
+  const texts: Record<string, string> = {};
+  if (conversation.title) texts.title = conversation.title;
+  [...conversation.messages, ...conversation.timeline].forEach(item => {
+    const text = htmlToMarkdown(item.body);
+    if (text && !texts[item.id]) texts[item.id] = text;
+  });
+  return texts;
+};
+
+/**
+ * English copy of the conversation for bug detection and issue generation; untranslated parts stay as they were
+ */
+export const applyTranslation = (
+  conversation: ProcessedConversation,
+  translation: ConversationTranslation
+): ProcessedConversation => {
+  const translate = <T extends { id: string; body?: string }>(item: T): T =>
+    translation.texts[item.id] ? { ...item, body: textToHtml(translation.texts[item.id]) } : item;
+
+  return {
+    ...conversation,
+    title: translation.texts.title || conversation.title,
+    messages: conversation.messages.map(translate),
+    timeline: conversation.timeline.map(translate),
+    isTranslated: true,
+  };
+};
+
+/**
+ * Collapsible issue section quoting the customer in their own language
+ */
+export const formatOriginalLanguageSection = (conversation: ProcessedConversation | null | undefined): string => {
+  if (!conversation?.language || conversation.language.code === 'en') return '';
+
+  const quotes = conversation.messages
+    .filter(message => message.author.type === 'customer')
+    .map(message => {
+      const text = htmlToMarkdown(message.body);
+      if (!text) return '';
+      return `> **${message.author.name}** (${new Date(message.createdAt).toLocaleString()}):\n${text.split('\n').map(line => `> ${line}`).join('\n')}`;
+    })
+    .filter(Boolean);
+
+  if (quotes.length === 0) return '';
+
+  return `
+<details>
+<summary>Original customer messages (${conversation.language.name})</summary>
+
+${quotes.join('\n\n')}
+
+</details>`;
+};
@@ -51,7 +51,7 @@ export function calculateSemanticSimilarity(
 /**
  * Extract keywords from text for better matching
  */
-export function extractKeywords(text: string): string[] {
+export function extractKeywords(text: string, limit: number = 20): string[] {
   const commonWords = new Set([
     'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
     'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did',
@@ -65,7 +65,7 @@ export function extractKeywords(text: string): string[] {
     .replace(/[^\w\s]/g, '') // Remove punctuation
     .split(/\s+/)
     .filter(word => word.length > 2 && !commonWords.has(word))
-    .slice(0, 20); // Limit to top 20 keywords
+    .slice(0, limit); // Limit to the first keywords (20 by default)
 }
 
 /**
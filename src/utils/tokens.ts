@@ -0,0 +1,39 @@
+/**
+ * Token estimates for fitting prompts into a model's context window.
+ * No tokenizer ships with the app, so this errs on the high side: about four characters per token
+ * for Latin text and one token per character for CJK scripts
+ */
+import type { LLMProviderConfig } from '../types/llm';
+
+// Matched in order, so more specific names come first
+const CONTEXT_WINDOWS: Array<{ pattern: RegExp; tokens: number }> = [
+  { pattern: /^gpt-4-32k/, tokens: 32768 },
+  { pattern: /^gpt-4(-0613|-0314)?$/, tokens: 8192 },
+  { pattern: /^(gpt-4o|gpt-4-turbo|gpt-4\.1|o\d)/, tokens: 128000 },
+  { pattern: /^gpt-3\.5-turbo/, tokens: 16385 },
+  { pattern: /^claude/, tokens: 200000 },
+];
+
+// Local servers cap the context below what the model supports (Ollama defaults to 4096),
+// so local models need contextWindow set to use more
+const LOCAL_CONTEXT_WINDOW = 4096;
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Rough token count for a piece of text
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjk = (text.match(/[\u3040-\u30ff\u4e00-\u9fff\uac00-\ud7af]/g) || []).length;
+  return Math.ceil((text.length - cjk) / 4) + cjk;
+};
+
+/**
+ * Context window for a configured model, in tokens
+ */
+export const getContextWindow = (config: Pick<LLMProviderConfig, 'kind' | 'model' | 'contextWindow'>): number => {
+  if (config.contextWindow) return config.contextWindow;
+  if (config.kind === 'local') return LOCAL_CONTEXT_WINDOW;
+  const model = config.model.toLowerCase();
+  return CONTEXT_WINDOWS.find(({ pattern }) => pattern.test(model))?.tokens || DEFAULT_CONTEXT_WINDOW;
+};
@@ -1,17 +1,323 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Connect, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import crypto from "crypto";
+import dns from "dns";
+import fs from "fs";
+import net from "net";
 import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import { fileURLToPath } from 'url';
 
 // Add the __dirname equivalent for ES modules
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+const ATTACHMENT_CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.mp4': 'video/mp4',
+};
+
+// Attachment hosts of Intercom (US, EU and AU) and Zendesk
+const ATTACHMENT_SOURCE_HOSTS = [
+  /(^|\.)intercomcdn\.(com|eu)$/,
+  /(^|\.)intercom-attachments(-\d+)?\.(com|eu)$/,
+  /(^|\.)zendesk\.com$/,
+  /(^|\.)zdusercontent\.com$/,
+];
+const MAX_SOURCE_REDIRECTS = 5;
+// Shape of the keys attachmentStore.ts generates: <provider>/<conversation id>/<hash>-<file name>
+const ATTACHMENT_KEY_PATTERN = /^[\w.-]+\/[\w.-]+\/[a-f0-9]{16}-[\w.-]+$/;
+
+const isPrivateAddress = (address: string): boolean => {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b < 128) || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b < 32) || (a === 192 && b === 168) || a >= 224;
+  }
+  const normalized = address.toLowerCase();
+  if (normalized.startsWith('::ffff:')) return isPrivateAddress(normalized.slice(7));
+  return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+};
+
+// Only HTTPS URLs on a known attachment host that resolve to public addresses may be downloaded
+const checkSourceUrl = async (source: string, extraHosts: string[]): Promise<URL> => {
+  const url = new URL(source);
+  const host = url.hostname.toLowerCase();
+  if (url.protocol !== 'https:') throw new Error('Attachment sources must use https');
+  const isKnownHost = ATTACHMENT_SOURCE_HOSTS.some(pattern => pattern.test(host))
+    || extraHosts.some(extra => host === extra || host.endsWith(`.${extra}`));
+  if (!isKnownHost) throw new Error(`${host} is not a known attachment host`);
+
+  const addresses = net.isIP(host) ? [{ address: host }] : await dns.promises.lookup(host, { all: true });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`${host} resolves to a private address`);
+  }
+  return url;
+};
+
+// Follows redirects by hand so every hop is checked, since CDN links often redirect to signed storage URLs
+const downloadSource = async (source: string, extraHosts: string[]): Promise<Response> => {
+  let url = await checkSourceUrl(source, extraHosts);
+  for (let redirects = 0; redirects <= MAX_SOURCE_REDIRECTS; redirects++) {
+    const response = await fetch(url, { redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    url = await checkSourceUrl(new URL(location, url).toString(), extraHosts);
+  }
+  throw new Error('Too many redirects');
+};
+
+// Local blob store for re-hosted attachments (VITE_ATTACHMENT_STORE=local).
+// PUT /api/attachments/<key> stores the request body, or downloads ?source=<url> server-side from a known
+// attachment host (ATTACHMENT_SOURCE_HOSTS adds comma-separated hosts); GET /attachments/<key> serves the stored file.
+const localAttachmentStore = (directory: string, extraSourceHosts: string[]): Plugin => {
+  const getKey = (url: string | undefined) => decodeURIComponent((url || '').split('?')[0].replace(/^\/+/, ''));
+
+  const resolveKey = (url: string | undefined) => {
+    const key = getKey(url);
+    const filePath = path.resolve(directory, key);
+    return key && filePath.startsWith(path.resolve(directory) + path.sep) ? filePath : null;
+  };
+
+  const upload: Connect.NextHandleFunction = async (req, res) => {
+    const filePath = resolveKey(req.url);
+    if (req.method !== 'PUT' || !filePath || !ATTACHMENT_KEY_PATTERN.test(getKey(req.url))) {
+      res.statusCode = req.method !== 'PUT' ? 405 : 400;
+      res.end(req.method !== 'PUT' ? 'Use PUT' : 'Invalid attachment key');
+      return;
+    }
+
+    const source = new URL(req.url || '', 'http://localhost').searchParams.get('source');
+    let download: Response | null = null;
+    if (source) {
+      try {
+        download = await downloadSource(source, extraSourceHosts);
+      } catch (error) {
+        res.statusCode = 400;
+        res.end(error instanceof Error ? error.message : 'Invalid attachment source');
+        return;
+      }
+    }
+
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      if (download) {
+        if (!download.ok || !download.body) throw new Error(`Download failed (${download.status})`);
+        await pipeline(Readable.fromWeb(download.body as import('stream/web').ReadableStream), fs.createWriteStream(filePath));
+      } else {
+        await pipeline(req, fs.createWriteStream(filePath));
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ stored: true }));
+    } catch (error) {
+      res.statusCode = 502;
+      res.end(error instanceof Error ? error.message : 'Upload failed');
+    }
+  };
+
+  const serve: Connect.NextHandleFunction = (req, res, next) => {
+    const filePath = resolveKey(req.url);
+    if (!filePath || !fs.existsSync(filePath)) return next();
+
+    res.setHeader('Content-Type', ATTACHMENT_CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream');
+    fs.createReadStream(filePath).pipe(res);
+  };
+
+  return {
+    name: 'local-attachment-store',
+    configureServer(server) {
+      server.middlewares.use('/api/attachments', upload);
+      server.middlewares.use('/attachments', serve);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/attachments', upload);
+      server.middlewares.use('/attachments', serve);
+    },
+  };
+};
+
+// Signs S3 uploads (VITE_ATTACHMENT_STORE=s3) so the credentials stay on the server (S3_ACCESS_KEY_ID,
+// S3_SECRET_ACCESS_KEY). POST /api/attachments-presign with {"key"} returns a presigned PUT URL valid for a few minutes.
+const s3AttachmentSigner = (env: Record<string, string>): Plugin => {
+  // VITE_ variables end up in the client bundle
+  if (env.VITE_S3_SECRET_ACCESS_KEY) {
+    throw new Error('VITE_S3_SECRET_ACCESS_KEY would be bundled into the app; rename it to S3_SECRET_ACCESS_KEY (and VITE_S3_ACCESS_KEY_ID to S3_ACCESS_KEY_ID)');
+  }
+  const endpoint = (env.VITE_S3_ENDPOINT || 'https://s3.amazonaws.com').replace(/\/+$/, '');
+  const region = env.VITE_S3_REGION || 'us-east-1';
+
+  const hmac = (key: crypto.BinaryLike, message: string) => crypto.createHmac('sha256', key).update(message).digest();
+  const sha256 = (message: string) => crypto.createHash('sha256').update(message).digest('hex');
+
+  const presign = (key: string): string => {
+    const url = new URL(`${endpoint}/${env.VITE_S3_BUCKET}/${key.split('/').map(encodeURIComponent).join('/')}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const credentialScope = `${dateStamp}/${region}/s3/aws4_request`;
+
+    const query = new URLSearchParams({
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${env.S3_ACCESS_KEY_ID}/${credentialScope}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': '300',
+      'X-Amz-SignedHeaders': 'host',
+    }).toString();
+    const canonicalRequest = ['PUT', url.pathname, query, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, credentialScope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${env.S3_SECRET_ACCESS_KEY}`, dateStamp), region), 's3'), 'aws4_request');
+    return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${hmac(signingKey, stringToSign).toString('hex')}`;
+  };
+
+  const handler: Connect.NextHandleFunction = async (req, res) => {
+    if (req.method !== 'POST') {
+      res.statusCode = 405;
+      res.end('Use POST');
+      return;
+    }
+    if (!env.VITE_S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+      res.statusCode = 503;
+      res.end('VITE_S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set on the server');
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    let key: unknown;
+    try {
+      key = JSON.parse(body).key;
+    } catch {
+      key = undefined;
+    }
+    if (typeof key !== 'string' || !ATTACHMENT_KEY_PATTERN.test(key)) {
+      res.statusCode = 400;
+      res.end('Invalid attachment key');
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ url: presign(key) }));
+  };
+
+  return {
+    name: 's3-attachment-signer',
+    configureServer(server) {
+      server.middlewares.use('/api/attachments-presign', handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/attachments-presign', handler);
+    },
+  };
+};
+
+// File store for cached LLM answers (VITE_LLM_CACHE=server), one JSON file per request hash.
+// GET/PUT /api/llm-cache/<key> reads or writes an answer; GET /api/llm-cache counts them;
+// DELETE /api/llm-cache removes them all, or only expired ones with ?expired=1.
+const localLLMCache = (directory: string): Plugin => {
+  const isExpired = (filePath: string) => {
+    try {
+      return new Date(JSON.parse(fs.readFileSync(filePath, 'utf8')).expiresAt).getTime() <= Date.now();
+    } catch {
+      return true;
+    }
+  };
+
+  const listEntries = async () => {
+    const files = await fs.promises.readdir(directory).catch(() => [] as string[]);
+    return files.filter(file => file.endsWith('.json')).map(file => path.join(directory, file));
+  };
+
+  const sendJson = (res: import('http').ServerResponse, body: unknown) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  const handler: Connect.NextHandleFunction = async (req, res) => {
+    const url = new URL(req.url || '', 'http://localhost');
+    const key = url.pathname.replace(/^\/+/, '');
+
+    try {
+      if (!key) {
+        const entries = await listEntries();
+        if (req.method === 'GET') return sendJson(res, { entries: entries.length });
+        if (req.method === 'DELETE') {
+          const removed = entries.filter(filePath => url.searchParams.get('expired') !== '1' || isExpired(filePath));
+          await Promise.all(removed.map(filePath => fs.promises.rm(filePath, { force: true })));
+          return sendJson(res, { removed: removed.length });
+        }
+      } else if (/^[a-f0-9]{64}$/.test(key)) {
+        const filePath = path.join(directory, `${key}.json`);
+        if (req.method === 'GET') {
+          if (!fs.existsSync(filePath) || isExpired(filePath)) {
+            res.statusCode = 404;
+            res.end('Not cached');
+            return;
+          }
+          res.setHeader('Content-Type', 'application/json');
+          fs.createReadStream(filePath).pipe(res);
+          return;
+        }
+        if (req.method === 'PUT') {
+          await fs.promises.mkdir(directory, { recursive: true });
+          await pipeline(req, fs.createWriteStream(filePath));
+          return sendJson(res, { stored: true });
+        }
+      } else {
+        res.statusCode = 400;
+        res.end('Invalid cache key');
+        return;
+      }
+
+      res.statusCode = 405;
+      res.end('Method not allowed');
+    } catch (error) {
+      res.statusCode = 500;
+      res.end(error instanceof Error ? error.message : 'Cache error');
+    }
+  };
+
+  return {
+    name: 'local-llm-cache',
+    configureServer(server) {
+      server.middlewares.use('/api/llm-cache', handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/llm-cache', handler);
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
     proxy: {
+      // Keys match by prefix and the first match wins, so regional hosts come before /api/intercom
+      '/api/intercom-eu': {
+        target: 'https://api.eu.intercom.io',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/intercom-eu/, ''),
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+      },
+      '/api/intercom-au': {
+        target: 'https://api.au.intercom.io',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/intercom-au/, ''),
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+      },
       '/api/intercom': {
         target: 'https://api.intercom.io',
         changeOrigin: true,
@@ -21,6 +327,15 @@ export default defineConfig(({ mode }) => ({
           'Content-Type': 'application/json',
         },
       },
+      '/api/zendesk': {
+        target: `https://${loadEnv(mode, process.cwd(), '').VITE_ZENDESK_SUBDOMAIN || 'example'}.zendesk.com`,
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/zendesk/, '/api/v2'),
+        headers: {
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+      },
       // Generic proxy for external APIs during development
       '/api/external': {
         target: 'https://your-external-api.com',
@@ -35,6 +350,12 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    localAttachmentStore(
+      path.resolve(__dirname, loadEnv(mode, process.cwd(), '').ATTACHMENT_DIR || 'attachments'),
+      (loadEnv(mode, process.cwd(), '').ATTACHMENT_SOURCE_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+    ),
+    s3AttachmentSigner(loadEnv(mode, process.cwd(), '')),
+    localLLMCache(path.resolve(__dirname, loadEnv(mode, process.cwd(), '').LLM_CACHE_DIR || '.llm-cache')),
   ].filter(Boolean),
   resolve: {
     alias: {